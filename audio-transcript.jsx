@@ -1,13 +1,53 @@
 import { useState, useRef, useEffect } from 'react';
 
-export const AudioTranscript = ({ voices = [] }) => {
+export const AudioTranscript = ({ voices: voicesProp = [], manifest }) => {
+  const [manifestVoices, setManifestVoices] = useState([]);
   const [selectedVoice, setSelectedVoice] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [cues, setCues] = useState([]);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [isChaptersOpen, setIsChaptersOpen] = useState(false);
   const audioRef = useRef(null);
   const dropdownRef = useRef(null);
+  const activeCueRef = useRef(null);
+
+  const voices = voicesProp.length > 0 ? voicesProp : manifestVoices;
+  const hasVoices = voices.length > 0;
+
+  // Manifest mode: look up this page's voices by its URL path
+  useEffect(() => {
+    if (!manifest || voicesProp.length > 0) return;
+
+    let cancelled = false;
+    const findEntry = (pages) => {
+      const path = window.location.pathname.replace(/^\/+|\/+$/g, '');
+      const candidates = path ? [`${path}.mdx`, `${path}/index.mdx`] : ['index.mdx'];
+      const exact = candidates.find((key) => pages[key]);
+      if (exact) return pages[exact];
+
+      // Fall back to a suffix match for sites served under a base path
+      const suffix = Object.keys(pages).find((key) => {
+        const page = key.replace(/(\/index)?\.mdx$/, '');
+        return page && (path === page || path.endsWith(`/${page}`));
+      });
+      return suffix ? pages[suffix] : null;
+    };
+
+    fetch(manifest)
+      .then((response) => (response.ok ? response.json() : {}))
+      .then((pages) => {
+        const entry = findEntry(pages);
+        if (!cancelled && entry) setManifestVoices(entry.voices || []);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, voicesProp.length]);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -26,7 +66,7 @@ export const AudioTranscript = ({ voices = [] }) => {
       audio.removeEventListener('loadedmetadata', updateDuration);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, []);
+  }, [hasVoices]);
 
   // Click outside to close dropdown
   useEffect(() => {
@@ -55,6 +95,88 @@ export const AudioTranscript = ({ voices = [] }) => {
     }
   }, [selectedVoice]);
 
+  // Load the sentence timings (WebVTT) for the selected voice
+  const transcriptUrl = voices[selectedVoice]?.transcriptUrl;
+  useEffect(() => {
+    setCues([]);
+    if (!transcriptUrl) return;
+
+    let cancelled = false;
+    const toSeconds = (timestamp) =>
+      timestamp.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+    fetch(transcriptUrl)
+      .then((response) => (response.ok ? response.text() : ''))
+      .then((vtt) => {
+        const parsed = vtt
+          .split(/\r?\n\r?\n/)
+          .map((block) => {
+            const lines = block.split(/\r?\n/);
+            const timing = lines.findIndex((line) => line.includes('-->'));
+            if (timing === -1) return null;
+
+            const [start, end] = lines[timing].split('-->').map((part) => toSeconds(part.trim()));
+            return { start, end, text: lines.slice(timing + 1).join(' ') };
+          })
+          .filter(Boolean);
+        if (!cancelled) setCues(parsed);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptUrl]);
+
+  const activeCue = cues.findIndex((cue) => currentTime >= cue.start && currentTime < cue.end);
+
+  // Keep the spoken sentence in view while playing
+  useEffect(() => {
+    if (isPlaying && activeCueRef.current) {
+      activeCueRef.current.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeCue, isPlaying]);
+
+  const seekTo = (time) => {
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const playFrom = (time) => {
+    seekTo(time);
+    audioRef.current.play();
+    setIsPlaying(true);
+  };
+
+  // Chapters: one per H2/H3 section, with a "listen from here" link on each heading
+  const chapters = voices[selectedVoice]?.chapters || [];
+  const activeChapter = chapters.reduce(
+    (active, chapter, index) => (currentTime >= chapter.start ? index : active),
+    -1
+  );
+
+  useEffect(() => {
+    const links = chapters
+      .map((chapter) => {
+        const heading = document.getElementById(chapter.anchor);
+        if (!heading) return null;
+
+        const link = document.createElement('button');
+        link.type = 'button';
+        link.textContent = '▶ Listen from here';
+        link.className = 'ml-2 text-xs font-normal text-gray-500 dark:text-gray-400 hover:underline';
+        link.addEventListener('click', (event) => {
+          event.preventDefault();
+          playFrom(chapter.start);
+        });
+        heading.appendChild(link);
+        return link;
+      })
+      .filter(Boolean);
+
+    return () => links.forEach((link) => link.remove());
+  }, [chapters]);
+
   const togglePlay = () => {
     if (isPlaying) {
       audioRef.current.pause();
@@ -65,9 +187,7 @@ export const AudioTranscript = ({ voices = [] }) => {
   };
 
   const handleProgressChange = (e) => {
-    const newTime = parseFloat(e.target.value);
-    audioRef.current.currentTime = newTime;
-    setCurrentTime(newTime);
+    seekTo(parseFloat(e.target.value));
   };
 
   const formatTime = (time) => {
@@ -79,6 +199,8 @@ export const AudioTranscript = ({ voices = [] }) => {
 
   const currentVoice = voices[selectedVoice];
 
+  if (!hasVoices) return null;
+
   return (
     <div className="border rounded-lg bg-card border-gray-200 dark:border-gray-800">
       {/* Header with voice selector */}
@@ -131,7 +253,16 @@ export const AudioTranscript = ({ voices = [] }) => {
 
       {/* Audio Player */}
       <div className="px-3 py-1.5 bg-card">
-        <audio ref={audioRef} src={currentVoice?.url} preload="metadata" />
+        {/* With several encodings, the browser plays the first source it supports */}
+        <audio
+          ref={audioRef}
+          src={currentVoice?.sources?.length ? undefined : currentVoice?.url}
+          preload="metadata"
+        >
+          {currentVoice?.sources?.map((source) => (
+            <source key={source.url} src={source.url} type={source.type} />
+          ))}
+        </audio>
 
         <div className="flex items-center gap-2">
           {/* Play/Pause Button */}
@@ -182,8 +313,69 @@ export const AudioTranscript = ({ voices = [] }) => {
               {formatTime(duration)}
             </span>
           </div>
+
+          {chapters.length > 0 && (
+            <button
+              onClick={() => setIsChaptersOpen(!isChaptersOpen)}
+              className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs text-muted-foreground hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              aria-expanded={isChaptersOpen}
+            >
+              Chapters
+            </button>
+          )}
+
+          {cues.length > 0 && (
+            <button
+              onClick={() => setIsTranscriptOpen(!isTranscriptOpen)}
+              className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs text-muted-foreground hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              aria-expanded={isTranscriptOpen}
+            >
+              Transcript
+            </button>
+          )}
         </div>
       </div>
+
+      {/* Chapter list; click a chapter to play from its start */}
+      {isChaptersOpen && chapters.length > 0 && (
+        <ol className="px-3 py-2 border-t border-gray-200 dark:border-gray-800 text-sm">
+          {chapters.map((chapter, index) => (
+            <li key={chapter.anchor}>
+              <button
+                onClick={() => playFrom(chapter.start)}
+                className={`w-full flex justify-between gap-2 px-1 py-0.5 rounded text-left transition-colors hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                  index === activeChapter ? 'font-medium' : 'text-gray-600 dark:text-gray-400'
+                }`}
+              >
+                <span>{chapter.title}</span>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                  {formatTime(chapter.start)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Transcript with the spoken sentence highlighted; click a sentence to seek */}
+      {isTranscriptOpen && cues.length > 0 && (
+        <div className="max-h-48 overflow-y-auto px-3 py-2 border-t border-gray-200 dark:border-gray-800 text-sm leading-relaxed">
+          {cues.map((cue, index) => (
+            <span
+              key={index}
+              ref={index === activeCue ? activeCueRef : null}
+              onClick={() => seekTo(cue.start)}
+              className={`cursor-pointer rounded px-0.5 transition-colors ${
+                index === activeCue
+                  ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+              }`}
+            >
+              {cue.text}{' '}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1 @@
+export const Speak = ({ children }) => <>{children}</>;
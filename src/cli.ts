@@ -16,7 +16,21 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { generateCommand } from './commands/generate.js';
 import { cleanupCommand } from './commands/cleanup.js';
-import type { GenerateOptions, CleanupOptions } from './types/index.js';
+import { verifyCommand } from './commands/verify.js';
+import { migrateKeysCommand } from './commands/migrate-keys.js';
+import { removeCommand } from './commands/remove.js';
+import { estimateCommand } from './commands/estimate.js';
+import { checkCommand } from './commands/check.js';
+import { getExitCode } from './core/errors.js';
+import type {
+  GenerateOptions,
+  EstimateOptions,
+  CheckOptions,
+  CleanupOptions,
+  VerifyOptions,
+  MigrateKeysOptions,
+  RemoveOptions,
+} from './types/index.js';
 
 // Get version from package.json
 const __filename = fileURLToPath(import.meta.url);
@@ -36,15 +50,69 @@ program
   .command('generate')
   .description('Generate TTS audio for MDX documentation files')
   .argument('[directory]', 'Directory containing MDX files', '.')
+  .option(
+    '--provider <name>',
+    'TTS provider: fish, openai, or command (or use TTS_PROVIDER env var / speaker-config.yaml, default: fish)'
+  )
+  .option(
+    '--max-chunk-chars <n>',
+    'Maximum characters per TTS request; longer pages are split and stitched (default: 2000)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--cache-dir <dir>',
+    'Local directory for the per-chunk audio cache, relative to the docs directory'
+  )
+  .option(
+    '--cache-s3-prefix <prefix>',
+    'S3 prefix for a shared per-chunk audio cache (must be outside --s3-path-prefix)'
+  )
+  .option('--no-cache', 'Disable the per-chunk audio cache')
   .option(
     '--voices <ids>',
-    'Comma-separated list of Fish Audio voice IDs (or use speaker-config.yaml)'
+    'Comma-separated list of voice IDs for the provider (or use speaker-config.yaml)'
   )
   .option(
     '--voice-names <names>',
     'Comma-separated list of voice names (must match number of voice IDs)'
   )
   .option('--api-key <key>', 'Fish Audio API key (or use FISH_API_KEY env var)')
+  .option(
+    '--openai-api-key <key>',
+    'API key for the OpenAI-compatible provider (or use OPENAI_API_KEY env var)'
+  )
+  .option(
+    '--openai-base-url <url>',
+    'Base URL of the OpenAI-compatible speech API (or use OPENAI_BASE_URL env var, default: https://api.openai.com/v1)'
+  )
+  .option('--openai-model <model>', 'Model for the OpenAI-compatible provider (default: tts-1)')
+  .option(
+    '--tts-command <command>',
+    'Shell command for the command provider, reading text from stdin; supports {voice}, {output}, {format}, {bitrate} and {sampleRate} (or use TTS_COMMAND env var)'
+  )
+  .option(
+    '--audio-format <format>',
+    'Audio format: mp3, opus, or aac (or use speaker-config.yaml, default: mp3)'
+  )
+  .option(
+    '--audio-bitrate <kbps>',
+    'Audio bitrate in kbps (default: the provider\'s)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--max-characters <n>',
+    'Stop when the run would send more characters than this to the provider (or use speaker-config.yaml)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--max-cost <usd>',
+    'Stop when the run\'s estimated cost in USD is higher than this (or use speaker-config.yaml)',
+    (value) => parseFloat(value)
+  )
+  .option(
+    '--over-budget <action>',
+    'When over budget: abort (generate nothing) or truncate (generate the pages that fit, default: abort)'
+  )
   .option('--s3-bucket <bucket>', 'S3 bucket name (or use S3_BUCKET env var)')
   .option('--s3-region <region>', 'S3 region (or use S3_REGION env var, default: us-east-1)')
   .option(
@@ -68,6 +136,22 @@ program
     'S3 path prefix for audio files (default: audio)',
     'audio'
   )
+  .option(
+    '--s3-key-template <template>',
+    'S3 key layout using {prefix}, {path}, {slug}, {hash}, {voice}, {ext} (default: {prefix}/{path}/{voice}.{ext})'
+  )
+  .option(
+    '--immutable',
+    'Include the content hash in audio keys and upload with Cache-Control: immutable'
+  )
+  .option(
+    '--output <mode>',
+    'Where to record audio: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
   .option(
     '--component-import <path>',
     'Import path for audio player component',
@@ -83,15 +167,155 @@ program
     'Glob pattern for MDX files to process',
     '**/*.mdx'
   )
+  .option(
+    '--concurrency <n>',
+    'Number of files and voices to process in parallel (default: 1)',
+    (value) => parseInt(value, 10)
+  )
   .option('--force', 'Force regeneration even if content is unchanged', false)
+  .option(
+    '--report <file>',
+    'Write a run report, relative to the working directory (e.g. $GITHUB_STEP_SUMMARY)'
+  )
+  .option(
+    '--report-format <format>',
+    'Report format: json, junit or markdown (default: from the file extension)'
+  )
+  .option('--fail-fast', 'Stop starting files after the first failure (same as --max-failures 1)')
+  .option(
+    '--max-failures <n>',
+    'Stop starting files after this many have failed (or use speaker-config.yaml, default: no limit)',
+    (value) => parseInt(value, 10)
+  )
   .option('--dry-run', 'Simulate without making actual changes', false)
   .option('--verbose', 'Show detailed processing information', false)
   .action(async (directory: string, options: GenerateOptions) => {
     try {
-      await generateCommand(directory, options);
+      process.exitCode = (await generateCommand(directory, options)).exitCode;
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(getExitCode(error));
+    }
+  });
+
+program
+  .command('estimate')
+  .description('Estimate the characters and cost of a generate run, without API keys or S3')
+  .argument('[directory]', 'Directory containing MDX files', '.')
+  .option(
+    '--provider <name>',
+    'TTS provider: fish, openai, or command (or use TTS_PROVIDER env var / speaker-config.yaml, default: fish)'
+  )
+  .option(
+    '--voices <ids>',
+    'Comma-separated list of voice IDs for the provider (or use speaker-config.yaml)'
+  )
+  .option(
+    '--voice-names <names>',
+    'Comma-separated list of voice names (must match number of voice IDs)'
+  )
+  .option(
+    '--audio-format <format>',
+    'Audio format: mp3, opus, or aac (or use speaker-config.yaml, default: mp3)'
+  )
+  .option(
+    '--audio-bitrate <kbps>',
+    'Audio bitrate in kbps (default: the provider\'s)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--max-characters <n>',
+    'Stop when the run would send more characters than this to the provider (or use speaker-config.yaml)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--max-cost <usd>',
+    'Stop when the run\'s estimated cost in USD is higher than this (or use speaker-config.yaml)',
+    (value) => parseFloat(value)
+  )
+  .option(
+    '--over-budget <action>',
+    'When over budget: abort (generate nothing) or truncate (generate the pages that fit, default: abort)'
+  )
+  .option(
+    '--output <mode>',
+    'Where audio is recorded: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
+  .option(
+    '--component-name <name>',
+    'Name of the audio player component',
+    'AudioTranscript'
+  )
+  .option(
+    '--pattern <glob>',
+    'Glob pattern for MDX files to process',
+    '**/*.mdx'
+  )
+  .option('--force', 'Estimate regenerating every page, even unchanged ones', false)
+  .option('--verbose', 'Also list skipped pages', false)
+  .action(async (directory: string, options: EstimateOptions) => {
+    try {
+      process.exitCode = (await estimateCommand(directory, options)).exitCode;
     } catch (error: any) {
       console.error(chalk.red(`Error: ${error.message}`));
-      process.exit(1);
+      process.exit(getExitCode(error));
+    }
+  });
+
+program
+  .command('check')
+  .description('Check that narration is up to date, without API keys or S3 (exits 4 when pages need generating)')
+  .argument('[directory]', 'Directory containing MDX files', '.')
+  .option(
+    '--provider <name>',
+    'TTS provider: fish, openai, or command (or use TTS_PROVIDER env var / speaker-config.yaml, default: fish)'
+  )
+  .option(
+    '--voices <ids>',
+    'Comma-separated list of voice IDs for the provider (or use speaker-config.yaml)'
+  )
+  .option(
+    '--voice-names <names>',
+    'Comma-separated list of voice names (must match number of voice IDs)'
+  )
+  .option(
+    '--audio-format <format>',
+    'Audio format: mp3, opus, or aac (or use speaker-config.yaml, default: mp3)'
+  )
+  .option(
+    '--audio-bitrate <kbps>',
+    'Audio bitrate in kbps (default: the provider\'s)',
+    (value) => parseInt(value, 10)
+  )
+  .option(
+    '--output <mode>',
+    'Where audio is recorded: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
+  .option(
+    '--component-name <name>',
+    'Name of the audio player component',
+    'AudioTranscript'
+  )
+  .option(
+    '--pattern <glob>',
+    'Glob pattern for MDX files to process',
+    '**/*.mdx'
+  )
+  .option('--verbose', 'Also list up-to-date and skipped pages', false)
+  .action(async (directory: string, options: CheckOptions) => {
+    try {
+      process.exitCode = (await checkCommand(directory, options)).exitCode;
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(getExitCode(error));
     }
   });
 
@@ -122,6 +346,14 @@ program
     'S3 path prefix for audio files (default: audio)',
     'audio'
   )
+  .option(
+    '--output <mode>',
+    'Where to record audio: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
   .option(
     '--component-name <name>',
     'Name of the audio player component',
@@ -132,14 +364,205 @@ program
     'Glob pattern for MDX files to process',
     '**/*.mdx'
   )
+  .option(
+    '--report <file>',
+    'Write a run report, relative to the working directory (e.g. $GITHUB_STEP_SUMMARY)'
+  )
+  .option(
+    '--report-format <format>',
+    'Report format: json, junit or markdown (default: from the file extension)'
+  )
   .option('--dry-run', 'Preview orphaned files without deleting', false)
   .option('--verbose', 'Show detailed information', false)
   .action(async (directory: string, options: CleanupOptions) => {
     try {
-      await cleanupCommand(directory, options);
+      process.exitCode = (await cleanupCommand(directory, options)).exitCode;
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(getExitCode(error));
+    }
+  });
+
+program
+  .command('verify')
+  .description('Check that audio and transcripts referenced by MDX files exist in S3 and are playable')
+  .argument('[directory]', 'Directory containing MDX files', '.')
+  .option('--s3-bucket <bucket>', 'S3 bucket name (or use S3_BUCKET env var)')
+  .option('--s3-region <region>', 'S3 region (or use S3_REGION env var, default: us-east-1)')
+  .option(
+    '--s3-endpoint <url>',
+    'S3 endpoint URL (or use S3_ENDPOINT env var - for R2, MinIO, etc.)'
+  )
+  .option(
+    '--s3-access-key-id <key>',
+    'S3 access key ID (or use S3_ACCESS_KEY_ID env var)'
+  )
+  .option(
+    '--s3-secret-access-key <key>',
+    'S3 secret access key (or use S3_SECRET_ACCESS_KEY env var)'
+  )
+  .option(
+    '--s3-public-url <url>',
+    'Public CDN URL for accessing files (or use S3_PUBLIC_URL env var)'
+  )
+  .option(
+    '--s3-path-prefix <prefix>',
+    'S3 path prefix for audio files (default: audio)',
+    'audio'
+  )
+  .option(
+    '--output <mode>',
+    'Where audio is recorded: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
+  .option(
+    '--component-name <name>',
+    'Name of the audio player component',
+    'AudioTranscript'
+  )
+  .option(
+    '--pattern <glob>',
+    'Glob pattern for MDX files to process',
+    '**/*.mdx'
+  )
+  .option(
+    '--concurrency <n>',
+    'Number of objects to check in parallel (default: 1)',
+    (value) => parseInt(value, 10)
+  )
+  .option('--deep', 'Download audio and check it parses and runs as long as its transcript', false)
+  .option('--mark-stale', 'Clear the hash of pages with broken audio so the next generate regenerates them', false)
+  .option('--verbose', 'Also list objects that passed', false)
+  .action(async (directory: string, options: VerifyOptions) => {
+    try {
+      process.exitCode = (await verifyCommand(directory, options)).exitCode;
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(getExitCode(error));
+    }
+  });
+
+program
+  .command('remove')
+  .description('Remove the audio component, its import and hash comment from MDX files')
+  .argument('[directory]', 'Directory containing MDX files', '.')
+  .option('--s3-bucket <bucket>', 'S3 bucket name (or use S3_BUCKET env var)')
+  .option('--s3-region <region>', 'S3 region (or use S3_REGION env var, default: us-east-1)')
+  .option(
+    '--s3-endpoint <url>',
+    'S3 endpoint URL (or use S3_ENDPOINT env var - for R2, MinIO, etc.)'
+  )
+  .option(
+    '--s3-access-key-id <key>',
+    'S3 access key ID (or use S3_ACCESS_KEY_ID env var)'
+  )
+  .option(
+    '--s3-secret-access-key <key>',
+    'S3 secret access key (or use S3_SECRET_ACCESS_KEY env var)'
+  )
+  .option(
+    '--s3-public-url <url>',
+    'Public CDN URL for accessing files (or use S3_PUBLIC_URL env var)'
+  )
+  .option(
+    '--s3-path-prefix <prefix>',
+    'S3 path prefix for audio files (default: audio)',
+    'audio'
+  )
+  .option(
+    '--output <mode>',
+    'Where audio is recorded: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
+  .option(
+    '--component-name <name>',
+    'Name of the audio player component',
+    'AudioTranscript'
+  )
+  .option(
+    '--pattern <glob>',
+    'Glob pattern for MDX files to process',
+    '**/*.mdx'
+  )
+  .option('--delete-audio', 'Also delete audio objects no other page references', false)
+  .option('--dry-run', 'Preview changes without editing files or deleting audio', false)
+  .option('--verbose', 'Show detailed information', false)
+  .action(async (directory: string, options: RemoveOptions) => {
+    try {
+      process.exitCode = (await removeCommand(directory, options)).exitCode;
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(getExitCode(error));
+    }
+  });
+
+program
+  .command('migrate-keys')
+  .description('Copy existing audio to the current S3 key template and update MDX URLs')
+  .argument('[directory]', 'Directory containing MDX files', '.')
+  .option('--s3-bucket <bucket>', 'S3 bucket name (or use S3_BUCKET env var)')
+  .option('--s3-region <region>', 'S3 region (or use S3_REGION env var, default: us-east-1)')
+  .option(
+    '--s3-endpoint <url>',
+    'S3 endpoint URL (or use S3_ENDPOINT env var - for R2, MinIO, etc.)'
+  )
+  .option(
+    '--s3-access-key-id <key>',
+    'S3 access key ID (or use S3_ACCESS_KEY_ID env var)'
+  )
+  .option(
+    '--s3-secret-access-key <key>',
+    'S3 secret access key (or use S3_SECRET_ACCESS_KEY env var)'
+  )
+  .option(
+    '--s3-public-url <url>',
+    'Public CDN URL for accessing files (or use S3_PUBLIC_URL env var)'
+  )
+  .option(
+    '--s3-path-prefix <prefix>',
+    'S3 path prefix for audio files (default: audio)',
+    'audio'
+  )
+  .option(
+    '--s3-key-template <template>',
+    'S3 key layout using {prefix}, {path}, {slug}, {hash}, {voice}, {ext} (default: {prefix}/{path}/{voice}.{ext})'
+  )
+  .option(
+    '--immutable',
+    'Include the content hash in audio keys and upload with Cache-Control: immutable'
+  )
+  .option(
+    '--output <mode>',
+    'Where audio is recorded: mdx (inject into pages) or manifest (JSON manifest, default: mdx)'
+  )
+  .option(
+    '--manifest <file>',
+    'Manifest file for manifest output mode, relative to the docs directory (default: .audio-metadata.json)'
+  )
+  .option(
+    '--component-name <name>',
+    'Name of the audio player component',
+    'AudioTranscript'
+  )
+  .option(
+    '--pattern <glob>',
+    'Glob pattern for MDX files to process',
+    '**/*.mdx'
+  )
+  .option('--dry-run', 'Preview migrations without copying or editing files', false)
+  .option('--verbose', 'Show detailed information', false)
+  .action(async (directory: string, options: MigrateKeysOptions) => {
+    try {
+      process.exitCode = (await migrateKeysCommand(directory, options)).exitCode;
     } catch (error: any) {
       console.error(chalk.red(`Error: ${error.message}`));
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
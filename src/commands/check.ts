@@ -0,0 +1,150 @@
+/**
+ * Check command
+ * Report pages whose narration is missing or out of date, for gating PRs in CI
+ */
+
+import ora from 'ora';
+import chalk from 'chalk';
+import type { CheckOptions, CheckResult, OutdatedPage } from '../types/index.js';
+import { resolveConfig } from '../core/config.js';
+import { validateCheckConfig } from '../core/validators.js';
+import { getPageChange, planPages, type NarratedPage } from '../core/page-plan.js';
+import { getProviderMarkup } from '../core/tts-provider.js';
+import { createPostProcessor } from '../core/post-process.js';
+import { loadMetadata } from '../core/hash-tracker.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
+import { findMDXFiles } from '../core/utils.js';
+
+/**
+ * Describe why a page needs generating
+ */
+function describeOutdatedPage(page: NarratedPage, inManifest: boolean): OutdatedPage {
+  const change = getPageChange(page);
+  const messages = {
+    missing: inManifest ? 'no manifest entry' : 'no audio component',
+    voices: `voices ${page.existing?.voiceIds.join(', ')}, expected ${page.voiceIds.join(', ')}`,
+    stale: page.existing?.hash
+      ? 'content or audio settings changed since audio was generated'
+      : 'no speak-mintlify-hash recorded',
+  };
+
+  return { file: page.file, change, message: messages[change] };
+}
+
+/**
+ * Check that every page's recorded narration matches what generate would produce
+ * Needs no provider credentials or S3 access; the manifest is read from disk in manifest mode
+ * @returns Up-to-date and outdated pages, and the exit code: outdated when any page needs generating
+ */
+export async function checkCommand(
+  directory: string,
+  options: CheckOptions
+): Promise<CheckResult> {
+  const spinner = ora('Initializing...').start();
+
+  try {
+    // Resolve configuration as generate would, minus credentials and S3
+    const config = await resolveConfig(options, directory, { requireS3: false });
+
+    validateCheckConfig(config);
+
+    // Clip contents are part of page hashes
+    const postProcessor = config.postProcessing
+      ? await createPostProcessor(config.postProcessing, directory)
+      : undefined;
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : undefined;
+
+    // Find MDX files
+    spinner.text = 'Finding MDX files...';
+    const files = await findMDXFiles(config.pattern, directory);
+
+    if (files.length === 0) {
+      spinner.warn(chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`));
+      return { exitCode: EXIT_CODES.success, upToDate: [], outdated: [], failed: [] };
+    }
+
+    spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
+
+    // Plan pages exactly as generate does, so hashes match
+    spinner.start('Checking pages...');
+    const plans = await planPages(
+      directory,
+      files,
+      { config, markup: getProviderMarkup(config), postProcessor, manifest },
+      (file) => {
+        spinner.text = `Checking ${chalk.cyan(file)}...`;
+      }
+    );
+    spinner.stop();
+
+    const upToDate = plans.filter((plan) => plan.status === 'unchanged').map((plan) => plan.file);
+    // Pages opted out after being narrated still play their audio until generate removes it
+    const outdated = plans.flatMap((plan): OutdatedPage[] => {
+      if (plan.status === 'changed') {
+        return [describeOutdatedPage(plan, !!manifest)];
+      }
+      if (plan.status === 'disabled' && plan.narrated) {
+        return [{ file: plan.file, change: 'disabled', message: 'narration disabled in frontmatter, but audio remains' }];
+      }
+      return [];
+    });
+    const failed = plans.flatMap((plan) =>
+      plan.status === 'failed' ? [{ file: plan.file, error: plan.error }] : []
+    );
+
+    for (const page of failed) {
+      console.log(chalk.red(`✗ ${page.file}: ${page.error}`));
+    }
+
+    if (outdated.length > 0) {
+      console.log('\n' + chalk.bold('Out of date:'));
+      for (const page of outdated) {
+        console.log(`  ${chalk.yellow('✗')} ${chalk.cyan(page.file)}: ${page.message}`);
+      }
+    }
+
+    if (config.verbose) {
+      const reasons: Record<string, string> = {
+        unchanged: 'up to date',
+        disabled: 'narration disabled in frontmatter',
+        empty: 'no extractable text',
+      };
+      console.log('\n' + chalk.bold('Other pages:'));
+      for (const plan of plans) {
+        if (reasons[plan.status]) {
+          console.log(chalk.gray(`  ${plan.file}: ${reasons[plan.status]}`));
+        }
+      }
+    }
+
+    // Summary
+    console.log('\n' + chalk.bold('Summary:'));
+    console.log(chalk.green(`  Up to date: ${upToDate.length}`));
+    console.log(chalk.gray(`  Not narrated: ${files.length - upToDate.length - outdated.length - failed.length}`));
+    if (outdated.length > 0) {
+      console.log(chalk.yellow(`  Out of date: ${outdated.length}`));
+    }
+    if (failed.length > 0) {
+      console.log(chalk.red(`  Failed: ${failed.length}`));
+    }
+
+    // A page that can't be checked is a failure; otherwise outdated pages fail the check
+    if (failed.length > 0) {
+      return { exitCode: EXIT_CODES.failed, upToDate, outdated, failed };
+    }
+    if (outdated.length > 0) {
+      console.log(chalk.yellow('\nRun speak-mintlify generate to update these pages.'));
+      return { exitCode: EXIT_CODES.outdated, upToDate, outdated, failed };
+    }
+
+    console.log(chalk.green('\nAll narration is up to date.'));
+    return { exitCode: EXIT_CODES.success, upToDate, outdated, failed };
+  } catch (error: any) {
+    spinner.fail(chalk.red('Failed to check pages'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    return { exitCode: getExitCode(error), error: error.message, upToDate: [], outdated: [], failed: [] };
+  }
+}
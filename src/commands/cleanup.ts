@@ -5,21 +5,27 @@
 
 import ora from 'ora';
 import chalk from 'chalk';
-import type { CleanupOptions } from '../types/index.js';
+import type { CleanupOptions, CleanupResult } from '../types/index.js';
 import { resolveConfig } from '../core/config.js';
 import { validateCleanupConfig } from '../core/validators.js';
 import { createS3Uploader } from '../core/s3-upload.js';
 import { extractExistingAudioData } from '../core/injector.js';
+import { loadMetadata } from '../core/hash-tracker.js';
+import { getManifestKey } from '../core/s3-keys.js';
+import { writeReport, type CleanupReport } from '../core/report.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
 import { findMDXFiles, readFile } from '../core/utils.js';
 
 /**
  * Cleanup orphaned audio files from S3
+ * @returns The orphaned keys and those deleted
  */
 export async function cleanupCommand(
   directory: string,
   options: CleanupOptions
-): Promise<void> {
+): Promise<CleanupResult> {
   const spinner = ora('Initializing...').start();
+  const startedAt = new Date();
 
   try {
     // Resolve configuration (only S3-related options needed)
@@ -37,6 +43,7 @@ export async function cleanupCommand(
       secretAccessKey: config.s3SecretAccessKey,
       publicUrl: config.s3PublicUrl,
       pathPrefix: config.s3PathPrefix,
+      keyTemplate: config.s3KeyTemplate,
     });
 
     // Find MDX files
@@ -47,32 +54,35 @@ export async function cleanupCommand(
       spinner.warn(
         chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`)
       );
-      return;
+      return { exitCode: EXIT_CODES.success, orphanedKeys: [], deletedKeys: [] };
     }
 
     spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
 
-    // Scan MDX files and extract audio references
+    // Scan MDX files (or the manifest) and extract audio references
     spinner.start('Scanning MDX files for audio references...');
-    const expectedKeys = new Set<string>();
+    const expectedKeys = new Set<string>([getManifestKey(config.s3PathPrefix)]);
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : null;
 
     for (const file of files) {
-      const filePath = `${directory}/${file}`;
-      const content = await readFile(filePath);
-      const existingData = await extractExistingAudioData(
-        content,
-        config.componentName
-      );
+      const existingData = manifest
+        ? manifest[file] ?? null
+        : await extractExistingAudioData(
+            await readFile(`${directory}/${file}`),
+            config.componentName
+          );
 
       if (existingData && existingData.voices.length > 0) {
-        // Extract S3 keys from voice URLs
+        // Extract S3 keys from voice audio (in every encoding) and transcript URLs
         for (const voice of existingData.voices) {
-          if (voice.url) {
-            const key = s3Uploader.extractKeyFromUrl(
-              voice.url,
-              config.s3PublicUrl
-            );
-            expectedKeys.add(key);
+          const sourceUrls = (voice.sources ?? []).map((source) => source.url);
+          for (const url of [voice.url, voice.transcriptUrl, ...sourceUrls]) {
+            if (url) {
+              expectedKeys.add(s3Uploader.extractKeyFromUrl(url, config.s3PublicUrl));
+            }
           }
         }
       }
@@ -80,7 +90,7 @@ export async function cleanupCommand(
 
     spinner.succeed(
       chalk.green(
-        `Found ${expectedKeys.size} audio file(s) referenced in MDX files`
+        `Found ${expectedKeys.size - 1} audio and transcript file(s) referenced in ${manifest ? 'the manifest' : 'MDX files'}`
       )
     );
 
@@ -94,47 +104,69 @@ export async function cleanupCommand(
 
     if (orphanedKeys.length === 0) {
       spinner.succeed(chalk.green('No orphaned files found! S3 is clean.'));
-      return;
-    }
+    } else {
+      // Display orphaned files
+      console.log(
+        chalk.yellow(`\nFound ${orphanedKeys.length} orphaned file(s):\n`)
+      );
 
-    // Display orphaned files
-    console.log(
-      chalk.yellow(`\nFound ${orphanedKeys.length} orphaned file(s):\n`)
-    );
+      for (const key of orphanedKeys) {
+        console.log(chalk.gray(`  - ${key}`));
+      }
 
-    for (const key of orphanedKeys) {
-      console.log(chalk.gray(`  - ${key}`));
+      // Dry-run preview or actual deletion
+      if (config.dryRun) {
+        console.log(
+          chalk.blue(
+            `\nDry run complete. Run without --dry-run to delete these files.`
+          )
+        );
+      } else {
+        // Delete orphaned files
+        spinner.start(`Deleting ${orphanedKeys.length} orphaned file(s)...`);
+        await s3Uploader.deleteMultiple(orphanedKeys);
+        spinner.succeed(
+          chalk.green(`Deleted ${orphanedKeys.length} orphaned file(s)`)
+        );
+
+        // Print summary
+        console.log('\n' + chalk.bold('Summary:'));
+        console.log(chalk.gray(`  MDX files scanned: ${files.length}`));
+        console.log(
+          chalk.gray(`  Files referenced: ${expectedKeys.size - 1}`)
+        );
+        console.log(chalk.gray(`  Total S3 files: ${allS3Keys.length}`));
+        console.log(
+          chalk.green(`  Orphaned files deleted: ${orphanedKeys.length}`)
+        );
+      }
     }
 
-    // Dry-run preview or actual deletion
-    if (config.dryRun) {
-      console.log(
-        chalk.blue(
-          `\nDry run complete. Run without --dry-run to delete these files.`
-        )
-      );
-    } else {
-      // Delete orphaned files
-      spinner.start(`Deleting ${orphanedKeys.length} orphaned file(s)...`);
-      await s3Uploader.deleteMultiple(orphanedKeys);
-      spinner.succeed(
-        chalk.green(`Deleted ${orphanedKeys.length} orphaned file(s)`)
-      );
-
-      // Print summary
-      console.log('\n' + chalk.bold('Summary:'));
-      console.log(chalk.gray(`  MDX files scanned: ${files.length}`));
-      console.log(
-        chalk.gray(`  Audio files referenced: ${expectedKeys.size}`)
-      );
-      console.log(chalk.gray(`  Total S3 files: ${allS3Keys.length}`));
-      console.log(
-        chalk.green(`  Orphaned files deleted: ${orphanedKeys.length}`)
-      );
+    const deletedKeys = config.dryRun ? [] : orphanedKeys;
+    if (config.report) {
+      const report: CleanupReport = {
+        command: 'cleanup',
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        dryRun: config.dryRun,
+        summary: {
+          scanned: files.length,
+          referenced: expectedKeys.size - 1,
+          total: allS3Keys.length,
+          orphaned: orphanedKeys.length,
+          deleted: deletedKeys.length,
+        },
+        orphanedKeys,
+        deletedKeys,
+      };
+      await writeReport(report, config.report);
+      console.log(chalk.gray(`\nWrote ${config.report.format} report to ${config.report.file}`));
     }
+
+    return { exitCode: EXIT_CODES.success, orphanedKeys, deletedKeys };
   } catch (error: any) {
     spinner.fail(chalk.red('Failed to cleanup S3'));
     console.error(chalk.red(`Error: ${error.message}`));
-    process.exit(1);
+    return { exitCode: getExitCode(error), error: error.message, orphanedKeys: [], deletedKeys: [] };
   }
 }
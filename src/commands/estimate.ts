@@ -0,0 +1,144 @@
+/**
+ * Estimate command
+ * Report the characters and cost a generate run would use, without synthesizing anything
+ */
+
+import ora from 'ora';
+import chalk from 'chalk';
+import type { EstimateOptions, EstimateResult } from '../types/index.js';
+import { resolveConfig } from '../core/config.js';
+import { validateEstimateConfig } from '../core/validators.js';
+import { getChangedPages, planPages } from '../core/page-plan.js';
+import { getProviderMarkup } from '../core/tts-provider.js';
+import { createPostProcessor } from '../core/post-process.js';
+import { loadMetadata } from '../core/hash-tracker.js';
+import { checkBudget, estimateRun, formatCost } from '../core/estimate.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
+import { findMDXFiles } from '../core/utils.js';
+
+/**
+ * Estimate the usage of a generate run with the same options
+ * @returns The estimate and the exit code: over budget when an aborting generate run would stop
+ */
+export async function estimateCommand(
+  directory: string,
+  options: EstimateOptions
+): Promise<EstimateResult> {
+  const spinner = ora('Initializing...').start();
+
+  try {
+    // Resolve configuration as generate would, minus provider credentials and S3
+    const config = await resolveConfig(options, directory, { requireS3: false });
+
+    validateEstimateConfig(config);
+
+    // Clip contents are part of page hashes
+    const postProcessor = config.postProcessing
+      ? await createPostProcessor(config.postProcessing, directory)
+      : undefined;
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : undefined;
+
+    // Find MDX files
+    spinner.text = 'Finding MDX files...';
+    const files = await findMDXFiles(config.pattern, directory);
+
+    if (files.length === 0) {
+      spinner.warn(chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`));
+      return { exitCode: EXIT_CODES.success, pages: 0, characters: 0, cost: 0 };
+    }
+
+    spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
+
+    // Plan pages exactly as generate does
+    spinner.start('Extracting text...');
+    const plans = await planPages(
+      directory,
+      files,
+      { config, markup: getProviderMarkup(config), postProcessor, manifest },
+      (file) => {
+        spinner.text = `Extracting text from ${chalk.cyan(file)}...`;
+      }
+    );
+    spinner.stop();
+
+    for (const plan of plans) {
+      if (plan.status === 'failed') {
+        console.log(chalk.red(`✗ ${plan.file}: ${plan.error}`));
+      }
+    }
+
+    const estimate = estimateRun(getChangedPages(plans), config.pricePerMillion);
+
+    // Per-page breakdown
+    if (estimate.pages.length > 0) {
+      const width = Math.max(...estimate.pages.map((page) => page.file.length));
+      console.log('\n' + chalk.bold('Pages to generate:'));
+      for (const page of estimate.pages) {
+        console.log(
+          `  ${chalk.cyan(page.file.padEnd(width))}  ${page.voices} voice(s)  ` +
+            `${page.characters.toLocaleString('en-US').padStart(9)} chars  ${formatCost(page.cost)}`
+        );
+      }
+    }
+
+    if (config.verbose) {
+      const reasons: Record<string, string> = {
+        unchanged: 'content unchanged',
+        disabled: 'narration disabled in frontmatter',
+        empty: 'no extractable text',
+      };
+      console.log('\n' + chalk.bold('Skipped:'));
+      for (const plan of plans) {
+        if (reasons[plan.status]) {
+          console.log(chalk.gray(`  ${plan.file}: ${reasons[plan.status]}`));
+        }
+      }
+    }
+
+    // Totals
+    console.log('\n' + chalk.bold('Estimate:'));
+    console.log(`  Pages to generate: ${estimate.pages.length} of ${files.length}`);
+    console.log(`  Characters: ${estimate.characters.toLocaleString('en-US')}`);
+    console.log(
+      `  Cost: ~${formatCost(estimate.cost)} ` +
+        chalk.gray(`(${config.provider} at ${formatCost(config.pricePerMillion)} per million characters)`)
+    );
+
+    const result: EstimateResult = {
+      exitCode: EXIT_CODES.success,
+      pages: estimate.pages.length,
+      characters: estimate.characters,
+      cost: estimate.cost,
+    };
+
+    // Budget
+    const budget = checkBudget(estimate, config.budget);
+    if (budget.exceeded.length > 0) {
+      if (config.budget.overBudget === 'abort') {
+        const message = `Run is over budget (${budget.exceeded.join('; ')}); generate would stop before synthesizing anything`;
+        console.error(chalk.red(`\nError: ${message}`));
+        return { ...result, exitCode: EXIT_CODES.overBudget, error: message };
+      }
+
+      console.log(
+        chalk.yellow(
+          `  Over budget (${budget.exceeded.join('; ')}): generate would do ${budget.within.length} of ${estimate.pages.length} page(s), leaving:`
+        )
+      );
+      for (const page of budget.deferred) {
+        console.log(chalk.yellow(`    ${page.file}`));
+      }
+    } else if (config.budget.maxCharacters !== undefined || config.budget.maxCost !== undefined) {
+      console.log(chalk.green('  Within budget'));
+    }
+
+    return result;
+  } catch (error: any) {
+    spinner.fail(chalk.red('Failed to estimate run'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    return { exitCode: getExitCode(error), error: error.message, pages: 0, characters: 0, cost: 0 };
+  }
+}
@@ -6,25 +6,442 @@
 import path from 'path';
 import ora from 'ora';
 import chalk from 'chalk';
-import * as Diff from 'diff';
-import type { GenerateOptions, ProcessingResult } from '../types/index.js';
-import { resolveConfig } from '../core/config.js';
+import type {
+  AudioEncoding,
+  AudioSource,
+  Chapter,
+  GenerateOptions,
+  GenerateResult,
+  MetadataFile,
+  ProcessingResult,
+  TTSProvider,
+  Voice,
+} from '../types/index.js';
+import { resolveConfig, type ResolvedConfig } from '../core/config.js';
 import { validateGenerateConfig } from '../core/validators.js';
-import { extractCleanText } from '../core/extractor.js';
-import { generateHash } from '../core/hash-tracker.js';
-import { createFishAudioClient } from '../core/fish-api.js';
-import { createS3Uploader } from '../core/s3-upload.js';
-import { injectAudioComponent, extractExistingAudioData } from '../core/injector.js';
-import { findMDXFiles, readFile, writeFile } from '../core/utils.js';
+import { getChangedPages, planPages, type PagePlan } from '../core/page-plan.js';
+import { stripProsodyMarks } from '../core/prosody.js';
+import { loadMetadata, saveMetadata, serializeMetadata, updateMetadata } from '../core/hash-tracker.js';
+import {
+  createTTSProvider,
+  getSynthesisParams,
+  withRateLimit,
+} from '../core/tts-provider.js';
+import { createChunkCache, type ChunkCache } from '../core/chunk-cache.js';
+import { synthesizeSections } from '../core/synthesizer.js';
+import { createPostProcessor, type AudioPostProcessor } from '../core/post-process.js';
+import { checkBudget, estimateRun, summarizeEstimate } from '../core/estimate.js';
+import { buildGenerateReport, writeReport } from '../core/report.js';
+import { BudgetExceededError, EXIT_CODES, getExitCode } from '../core/errors.js';
+import { buildTranscriptCues, formatWebVTT } from '../core/transcript.js';
+import { IMMUTABLE_CACHE_CONTROL, getManifestKey } from '../core/s3-keys.js';
+import { createS3Uploader, type S3Uploader } from '../core/s3-upload.js';
+import { injectAudioComponent, injectManifestComponent, removeAudioComponent } from '../core/injector.js';
+import { getAudioContentType, getAudioDuration, getAudioExtension } from '../core/audio-formats.js';
+import { findMDXFiles, readFile, writeFile, fileExists } from '../core/utils.js';
+import { RateLimiter, mapWithConcurrency } from '../core/concurrency.js';
+import {
+  createSpinnerReporter,
+  OrderedOutput,
+  reportDiff,
+  type FileReporter,
+} from '../core/output.js';
+
+/**
+ * Shared state for processing files in a run
+ */
+interface GenerateContext {
+  directory: string;
+  config: ResolvedConfig;
+  ttsProvider: TTSProvider;
+  s3Uploader: S3Uploader;
+  chunkCache?: ChunkCache;
+  synthesisParams: Record<string, unknown>;
+  postProcessor?: AudioPostProcessor; // Set when postProcessing is configured
+  deferred: Set<string>; // Changed pages left for a later run by a truncated budget
+  failures: number; // Files failed so far, checked against maxFailures
+  voicePool: RateLimiter; // Bounds voice syntheses in flight across all files
+  manifest?: MetadataFile; // Loaded in manifest output mode
+  manifestUrl?: string;
+}
+
+/**
+ * Process a single planned MDX file: synthesize, upload and inject
+ */
+async function processFile(
+  plan: PagePlan,
+  context: GenerateContext,
+  reporter: FileReporter
+): Promise<ProcessingResult> {
+  const { directory, config, ttsProvider, s3Uploader, chunkCache, synthesisParams } = context;
+  const { file } = plan;
+  const warnings: string[] = []; // Provider retries, kept for the run report
+
+  try {
+    // Past the failure limit, files not yet started are left alone; files in flight still finish
+    if (config.maxFailures !== undefined && context.failures >= config.maxFailures) {
+      reporter.warn(chalk.yellow(`Skipping ${file} - stopped after ${context.failures} failure(s)`));
+      return {
+        file,
+        success: true,
+        voices: [],
+        skipped: true,
+        reason: `Stopped after ${context.failures} failure(s)`,
+      };
+    }
+
+    if (plan.status === 'failed') {
+      throw new Error(plan.error);
+    }
+
+    if (plan.status === 'disabled' && plan.narrated) {
+      // Stop playing narration the page opted out of; cleanup then collects its audio
+      const filePath = path.join(directory, file);
+      const content = await readFile(filePath);
+      const updatedContent = await removeAudioComponent(content, config.componentName);
+
+      if (config.dryRun) {
+        reporter.info(chalk.blue(`[DRY RUN] ${file}`));
+        if (updatedContent !== content) {
+          reportDiff(reporter, file, content, updatedContent);
+        }
+      } else {
+        if (updatedContent !== content) {
+          await writeFile(filePath, updatedContent);
+        }
+        if (context.manifest) {
+          delete context.manifest[file];
+        }
+        reporter.info(chalk.green(`✓ Removed narration from ${file} - narration disabled in frontmatter`));
+      }
+
+      return {
+        file,
+        success: true,
+        voices: [],
+        skipped: true,
+        reason: 'Narration disabled in frontmatter; existing narration removed',
+      };
+    }
+
+    if (plan.status === 'disabled') {
+      reporter.info(chalk.gray(`Skipping ${file} - narration disabled in frontmatter`));
+      return {
+        file,
+        success: true,
+        voices: [],
+        skipped: true,
+        reason: 'Narration disabled in frontmatter',
+      };
+    }
+
+    if (plan.status === 'empty') {
+      reporter.warn(chalk.yellow(`Skipping ${file} - no extractable text`));
+      return {
+        file,
+        success: true,
+        voices: [],
+        skipped: true,
+        reason: 'No extractable text',
+      };
+    }
+
+    const { content, sections, cleanText, voiceIds, voiceNames, voiceEncodings, lexicons, render, hash } = plan;
+    const filePath = path.join(directory, file);
+    const sectionTexts = sections.map((section) => section.text);
+    const keyOptions = { locale: plan.locale };
+
+    for (const warning of plan.warnings) {
+      reporter.log(chalk.yellow(`  ⚠ ${file}: ${warning}`));
+    }
+
+    // Log extracted text in verbose mode
+    if (config.verbose) {
+      const plainText = stripProsodyMarks(cleanText);
+      reporter.log(chalk.cyan(`\n  ━━━ Extracted Text for TTS (${plainText.length} chars) ━━━`));
+      reporter.log(chalk.white(plainText));
+      reporter.log(chalk.cyan(`  ━━━ Hash: ${hash} ━━━\n`));
+    }
+
+    // Component or manifest entry exists with matching hash and voice IDs
+    if (plan.status === 'unchanged') {
+      reporter.info(
+        chalk.gray(
+          `Skipping ${file} - content unchanged (hash in ${context.manifest ? 'manifest' : 'MDX'})`
+        )
+      );
+      return {
+        file,
+        success: true,
+        voices: plan.existing!.voices,
+        skipped: true,
+        reason: 'Content unchanged',
+      };
+    }
+
+    if (context.deferred.has(file)) {
+      reporter.warn(chalk.yellow(`Skipping ${file} - over budget, left for a later run`));
+      return {
+        file,
+        success: true,
+        voices: [],
+        skipped: true,
+        reason: 'Over budget',
+      };
+    }
+
+    if (config.dryRun) {
+      // Create mock voice data for preview with actual public URL
+      const mockVoices: Voice[] = voiceIds.map((id, idx) => {
+        const sources = voiceEncodings[idx]!.map((encoding) => ({
+          url: s3Uploader.getPublicUrl(
+            s3Uploader.generateKey(file, id, { ...keyOptions, hash, ext: getAudioExtension(encoding.format) })
+          ),
+          type: getAudioContentType(encoding.format),
+        }));
+
+        return {
+          id,
+          name: voiceNames[idx]!,
+          url: sources[0]!.url,
+          transcriptUrl: s3Uploader.getPublicUrl(
+            s3Uploader.generateKey(file, id, { ...keyOptions, hash, ext: 'vtt' })
+          ),
+          ...(sources.length > 1 && { sources }),
+        };
+      });
+
+      reporter.info(chalk.blue(`[DRY RUN] ${file}`));
+
+      if (context.manifest) {
+        // Show the manifest entry and any one-time component injection
+        reporter.log(chalk.gray('\n  Manifest entry that would be written:'));
+        for (const line of JSON.stringify({ hash, voices: mockVoices }, null, 2).split('\n')) {
+          reporter.log(chalk.green('  ' + line));
+        }
+
+        const updatedContent = await injectManifestComponent(content, context.manifestUrl!, {
+          componentImport: config.componentImport,
+          componentName: config.componentName,
+        });
+        if (updatedContent !== content) {
+          reportDiff(reporter, file, content, updatedContent);
+        } else {
+          reporter.log('');
+        }
+      } else {
+        // Generate what the component would look like
+        const updatedContent = await injectAudioComponent(content, mockVoices, hash, {
+          componentImport: config.componentImport,
+          componentName: config.componentName,
+        });
+        reportDiff(reporter, file, content, updatedContent);
+      }
+
+      return {
+        file,
+        success: true,
+        voices: mockVoices,
+        skipped: true,
+        reason: 'Dry run',
+      };
+    }
+
+    // Generate and upload TTS for each voice within the shared pool
+    let characters = 0;
+    let bytesUploaded = 0;
+    const voices: Voice[] = await Promise.all(
+      voiceIds.map((voiceId, i) =>
+        context.voicePool.schedule(async () => {
+          const voiceName = voiceNames[i]!;
+          const [primary, ...fallbacks] = voiceEncodings[i]!;
+
+          // Generate TTS in one encoding
+          const synthesize = (encoding: AudioEncoding) => {
+            const label = encoding === primary ? voiceName : `${voiceName}, ${encoding.format}`;
+            reporter.update(`Generating TTS for ${chalk.cyan(file)} (${chalk.yellow(label)})...`);
+            return synthesizeSections(ttsProvider, sectionTexts, voiceId, {
+              maxChunkChars: config.maxChunkChars,
+              cache: chunkCache,
+              params: synthesisParams,
+              pronounce: lexicons[i],
+              render,
+              encoding,
+              onChunk: (index, total) => {
+                if (total > 1) {
+                  reporter.update(
+                    `Generating TTS for ${chalk.cyan(file)} (${chalk.yellow(label)}, chunk ${index + 1}/${total})...`
+                  );
+                }
+              },
+              onRetry: (message) => {
+                warnings.push(`${label}: ${message}`);
+                reporter.log(chalk.yellow(`  ⚠ ${file} (${label}): ${message}`));
+              },
+            });
+          };
+          let synthesis = await synthesize(primary!);
+          characters += synthesis.synthesizedChars;
+
+          // Normalize, trim and add clips before upload; timings move with the audio
+          if (context.postProcessor) {
+            reporter.update(`Post-processing ${chalk.yellow(voiceName)} audio...`);
+            synthesis = { ...synthesis, ...(await context.postProcessor.process(synthesis.audio, synthesis)) };
+          }
+
+          if (config.verbose && chunkCache) {
+            reporter.log(
+              chalk.gray(
+                `  ${voiceName}: ${synthesis.cachedChunks}/${synthesis.chunks} chunk(s) from cache`
+              )
+            );
+          }
+
+          // Upload audio and its sentence timings to S3
+          reporter.update(`Uploading ${chalk.yellow(voiceName)} to S3...`);
+          const url = await s3Uploader.uploadAudio(synthesis.audio, file, voiceId, {
+            ...keyOptions,
+            hash,
+            format: primary!.format,
+          });
+          const vtt = formatWebVTT(buildTranscriptCues(synthesis.segments));
+          const transcriptUrl = await s3Uploader.uploadTranscript(vtt, file, voiceId, { ...keyOptions, hash });
+          bytesUploaded += synthesis.audio.length + Buffer.byteLength(vtt, 'utf-8');
+
+          // Fallback encodings share the primary's transcript and chapter times
+          const sources: AudioSource[] = [{ url, type: getAudioContentType(primary!.format) }];
+          for (const encoding of fallbacks) {
+            const fallback = await synthesize(encoding);
+            characters += fallback.synthesizedChars;
+            bytesUploaded += fallback.audio.length;
+            reporter.update(`Uploading ${chalk.yellow(`${voiceName} (${encoding.format})`)} to S3...`);
+            sources.push({
+              url: await s3Uploader.uploadAudio(fallback.audio, file, voiceId, {
+                ...keyOptions,
+                hash,
+                format: encoding.format,
+              }),
+              type: getAudioContentType(encoding.format),
+            });
+          }
+
+          // Each headed section is a chapter starting where its first chunk does
+          const chapters: Chapter[] = sections.flatMap((section, index) =>
+            section.title !== null && section.anchor !== null
+              ? [
+                  {
+                    title: section.title,
+                    anchor: section.anchor,
+                    start: Math.round(synthesis.sectionStarts[index]! * 1000) / 1000,
+                  },
+                ]
+              : []
+          );
+
+          return {
+            id: voiceId,
+            name: voiceName,
+            url,
+            transcriptUrl,
+            ...(chapters.length > 0 && { chapters }),
+            ...(context.manifest && { duration: getAudioDuration(synthesis.audio, primary!.format) }),
+            ...(sources.length > 1 && { sources }),
+          };
+        })
+      )
+    );
+
+    if (context.manifest) {
+      // Record in manifest; the page only needs the component once
+      updateMetadata(context.manifest, file, hash, voices);
+
+      const updatedContent = await injectManifestComponent(content, context.manifestUrl!, {
+        componentImport: config.componentImport,
+        componentName: config.componentName,
+      });
+      if (updatedContent !== content) {
+        await writeFile(filePath, updatedContent);
+      }
+    } else {
+      // Inject audio component with hash
+      reporter.update(`Injecting audio component into ${chalk.cyan(file)}...`);
+      const updatedContent = await injectAudioComponent(content, voices, hash, {
+        componentImport: config.componentImport,
+        componentName: config.componentName,
+      });
+
+      // Write updated file
+      await writeFile(filePath, updatedContent);
+    }
+
+    reporter.succeed(chalk.green(`Generated TTS for ${chalk.cyan(file)}`));
+
+    return {
+      file,
+      success: true,
+      voices,
+      characters,
+      bytesUploaded,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  } catch (error: any) {
+    context.failures++;
+    reporter.fail(chalk.red(`✗ Failed to process ${file}`));
+    reporter.log(chalk.red(`  Error: ${error.message}`));
+
+    return {
+      file,
+      success: false,
+      voices: [],
+      error: error.message,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+}
+
+/**
+ * Drop entries for deleted pages, then save the manifest locally and upload it
+ * next to the audio so the component can fetch it at runtime
+ */
+async function publishManifest(
+  directory: string,
+  manifest: MetadataFile,
+  config: ResolvedConfig,
+  s3Uploader: S3Uploader
+): Promise<void> {
+  const spinner = ora('Publishing manifest...').start();
+
+  for (const file of Object.keys(manifest)) {
+    if (!(await fileExists(path.join(directory, file)))) {
+      delete manifest[file];
+    }
+  }
+
+  await saveMetadata(directory, manifest, config.manifestPath);
+
+  const key = getManifestKey(config.s3PathPrefix);
+  await s3Uploader.uploadObject(
+    key,
+    Buffer.from(serializeMetadata(manifest), 'utf-8'),
+    'application/json',
+    'no-cache'
+  );
+
+  spinner.succeed(
+    chalk.green(`Published manifest to ${chalk.cyan(s3Uploader.getPublicUrl(key))}`)
+  );
+}
 
 /**
  * Generate TTS audio for documentation files
+ * @returns Per-file results and the exit code: failed when any file failed
  */
 export async function generateCommand(
   directory: string,
   options: GenerateOptions
-): Promise<void> {
+): Promise<GenerateResult> {
   const spinner = ora('Initializing...').start();
+  const startedAt = new Date();
 
   try {
     // Resolve configuration from CLI options, environment variables, and YAML
@@ -33,8 +450,8 @@ export async function generateCommand(
     validateGenerateConfig(config);
 
     // Initialize clients
-    spinner.text = 'Initializing Fish Audio client...';
-    const fishClient = createFishAudioClient(config.fishApiKey!);
+    spinner.text = `Initializing ${config.provider} TTS provider...`;
+    const ttsProvider = withRateLimit(createTTSProvider(config), new RateLimiter(config.rateLimit));
 
     spinner.text = 'Initializing S3 uploader...';
     const s3Uploader = createS3Uploader({
@@ -45,192 +462,103 @@ export async function generateCommand(
       secretAccessKey: config.s3SecretAccessKey,
       publicUrl: config.s3PublicUrl,
       pathPrefix: config.s3PathPrefix,
+      keyTemplate: config.s3KeyTemplate,
+      cacheControl: config.s3Immutable ? IMMUTABLE_CACHE_CONTROL : undefined,
     });
 
+    const context: GenerateContext = {
+      directory,
+      config,
+      ttsProvider,
+      s3Uploader,
+      chunkCache: createChunkCache({
+        directory: config.cacheDir,
+        s3Prefix: config.cacheS3Prefix,
+        uploader: s3Uploader,
+      }),
+      synthesisParams: getSynthesisParams(config),
+      deferred: new Set(),
+      failures: 0,
+      voicePool: new RateLimiter({ maxConcurrent: config.concurrency }),
+    };
+
+    if (config.postProcessing) {
+      spinner.text = 'Loading post-processing clips...';
+      context.postProcessor = await createPostProcessor(config.postProcessing, directory);
+    }
+
+    if (config.outputMode === 'manifest') {
+      spinner.text = 'Loading manifest...';
+      context.manifest = await loadMetadata(directory, config.manifestPath);
+      context.manifestUrl = s3Uploader.getPublicUrl(getManifestKey(config.s3PathPrefix));
+    }
+
     // Find MDX files
     spinner.text = 'Finding MDX files...';
     const files = await findMDXFiles(config.pattern, directory);
 
     if (files.length === 0) {
       spinner.warn(chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`));
-      return;
+      return { exitCode: EXIT_CODES.success, results: [] };
     }
 
     spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
 
-    // Process each file
-    const results: ProcessingResult[] = [];
-
-    for (const file of files) {
-      const fileSpinner = ora(`Processing ${chalk.cyan(file)}...`).start();
-
-      try {
-        const filePath = path.join(directory, file);
-        const content = await readFile(filePath);
-
-        // Extract clean text
-        fileSpinner.text = `Extracting text from ${chalk.cyan(file)}...`;
-        const cleanText = await extractCleanText(content);
-
-        if (!cleanText.trim()) {
-          fileSpinner.warn(
-            chalk.yellow(`Skipping ${file} - no extractable text`)
-          );
-          results.push({
-            file,
-            success: true,
-            voices: [],
-            skipped: true,
-            reason: 'No extractable text',
-          });
-          continue;
-        }
-
-        // Generate hash of clean text
-        const hash = generateHash(cleanText);
-
-        // Log extracted text in verbose mode
-        if (config.verbose) {
-          fileSpinner.stop();
-          console.log(chalk.cyan(`\n  ━━━ Extracted Text for TTS (${cleanText.length} chars) ━━━`));
-          console.log(chalk.white(cleanText));
-          console.log(chalk.cyan(`  ━━━ Hash: ${hash} ━━━\n`));
-          fileSpinner.start();
-        }
-
-        // Check if file already has audio component with hash (skip when --force)
-        const existingData = !config.force
-          ? await extractExistingAudioData(content, config.componentName)
-          : null;
-
-        // If component exists with matching hash and voice IDs, skip
-        if (existingData) {
-          const hashMatches = existingData.hash === hash;
-          const voicesMatch =
-            existingData.voiceIds.length === config.voiceIds!.length &&
-            config.voiceIds!.every(id => existingData.voiceIds.includes(id));
-
-          if (hashMatches && voicesMatch) {
-            fileSpinner.info(
-              chalk.gray(`Skipping ${file} - content unchanged (hash in MDX)`)
-            );
-            results.push({
-              file,
-              success: true,
-              voices: existingData.voices,
-              skipped: true,
-              reason: 'Content unchanged',
-            });
-            continue;
-          }
-        }
-
-        if (config.dryRun) {
-          // Generate slug from file path (same as S3 uploader)
-          const slug = file
-            .replace(/\.mdx$/, '')
-            .split('/')
-            .slice(-2)
-            .join('-')
-            .toLowerCase();
-
-          // Create mock voice data for preview with actual public URL
-          const mockVoices: Array<{ id: string; name: string; url: string }> = config.voiceIds!.map((id, idx) => ({
-            id,
-            name: config.voiceNames![idx] || `Voice ${idx + 1}`,
-            url: `${config.s3PublicUrl.replace(/\/$/, '')}/${config.s3PathPrefix}/${slug}/${id}.mp3`,
-          }));
-
-          // Generate what the component would look like
-          const updatedContent = await injectAudioComponent(content, mockVoices, hash, {
-            componentImport: config.componentImport,
-            componentName: config.componentName,
-          });
-
-          // Show diff
-          const diff = Diff.createPatch(file, content, updatedContent, '', '');
-          const diffLines = diff.split('\n').slice(4); // Skip header lines
-
-          fileSpinner.info(chalk.blue(`[DRY RUN] ${file}`));
-
-          console.log(chalk.gray('\n  Changes that would be made:'));
-          for (const line of diffLines) {
-            if (line.startsWith('+') && !line.startsWith('+++')) {
-              console.log(chalk.green('  ' + line));
-            } else if (line.startsWith('-') && !line.startsWith('---')) {
-              console.log(chalk.red('  ' + line));
-            } else if (line.startsWith('@@')) {
-              console.log(chalk.cyan('  ' + line));
-            }
-          }
-          console.log('');
-
-          results.push({
-            file,
-            success: true,
-            voices: mockVoices,
-            skipped: true,
-            reason: 'Dry run',
-          });
-          continue;
-        }
-
-        // Generate TTS for each voice with progress
-        const audioBuffers = new Map<string, Buffer>();
-        const audioUrls = new Map<string, string>();
-
-        for (let i = 0; i < config.voiceIds!.length; i++) {
-          const voiceId = config.voiceIds![i]!;
-          const voiceName = config.voiceNames![i] || `Voice ${i + 1}`;
-
-          // Generate TTS
-          fileSpinner.text = `Generating TTS for ${chalk.cyan(file)} (${chalk.yellow(voiceName)})...`;
-          const buffer = await fishClient.generateTTS(cleanText, voiceId);
-          audioBuffers.set(voiceId, buffer);
-
-          // Upload to S3
-          fileSpinner.text = `Uploading ${chalk.yellow(voiceName)} to S3...`;
-          const url = await s3Uploader.uploadAudio(buffer, file, voiceId);
-          audioUrls.set(voiceId, url);
-        }
-
-        // Create voice array with URLs
-        const voices: Array<{ id: string; name: string; url: string }> = config.voiceIds!.map((id, idx) => ({
-          id,
-          name: config.voiceNames![idx] || `Voice ${idx + 1}`,
-          url: audioUrls.get(id) || '',
-        }));
+    // Plan every page first, so the run's size is known before anything is synthesized
+    spinner.start('Extracting text...');
+    const plans = await planPages(directory, files, { ...context, markup: ttsProvider.markup }, (file) => {
+      spinner.text = `Extracting text from ${chalk.cyan(file)}...`;
+    });
+    const estimate = estimateRun(getChangedPages(plans), config.pricePerMillion);
+    spinner.info(chalk.blue(summarizeEstimate(estimate)));
+
+    // Over budget: fail before any synthesis, or generate the pages that fit
+    const budget = checkBudget(estimate, config.budget);
+    if (budget.exceeded.length > 0) {
+      if (config.budget.overBudget === 'abort') {
+        throw new BudgetExceededError(
+          `Run is over budget (${budget.exceeded.join('; ')}); nothing was generated. Raise the limit or use --over-budget truncate.`
+        );
+      }
 
-        // Inject audio component with hash
-        fileSpinner.text = `Injecting audio component into ${chalk.cyan(file)}...`;
-        const updatedContent = await injectAudioComponent(content, voices, hash, {
-          componentImport: config.componentImport,
-          componentName: config.componentName,
-        });
+      context.deferred = new Set(budget.deferred.map((page) => page.file));
+      console.log(
+        chalk.yellow(
+          `  Over budget (${budget.exceeded.join('; ')}): generating ${budget.within.length} of ${estimate.pages.length} page(s), the rest are left for a later run`
+        )
+      );
+    }
 
-        // Write updated file
-        await writeFile(filePath, updatedContent);
+    // Process files one at a time with live spinners, or in a bounded pool with ordered output
+    let results: ProcessingResult[];
 
-        fileSpinner.succeed(
-          chalk.green(`Generated TTS for ${chalk.cyan(file)}`)
-        );
+    const timedProcessFile = async (plan: PagePlan, reporter: FileReporter) => {
+      const started = performance.now();
+      const result = await processFile(plan, context, reporter);
+      return { ...result, durationMs: Math.round(performance.now() - started) };
+    };
 
-        results.push({
-          file,
-          success: true,
-          voices,
-        });
-      } catch (error: any) {
-        fileSpinner.fail(chalk.red(`✗ Failed to process ${file}`));
-        console.error(chalk.red(`  Error: ${error.message}`));
-
-        results.push({
-          file,
-          success: false,
-          voices: [],
-          error: error.message,
-        });
+    if (config.concurrency <= 1) {
+      results = [];
+      for (const plan of plans) {
+        const reporter = createSpinnerReporter(`Processing ${chalk.cyan(plan.file)}...`);
+        results.push(await timedProcessFile(plan, reporter));
       }
+    } else {
+      const output = new OrderedOutput(
+        files.length,
+        `Processing with concurrency ${config.concurrency}`
+      );
+      results = await mapWithConcurrency(plans, config.concurrency, async (plan, index) => {
+        const result = await timedProcessFile(plan, output.reporter(index));
+        output.complete(index);
+        return result;
+      });
+    }
+
+    // Save and publish the manifest
+    if (context.manifest && !config.dryRun) {
+      await publishManifest(directory, context.manifest, config, s3Uploader);
     }
 
     // Print summary
@@ -244,6 +572,10 @@ export async function generateCommand(
     if (failed > 0) {
       console.log(chalk.red(`  Failed: ${failed}`));
     }
+    const stopped = results.filter((r) => r.reason?.startsWith('Stopped after')).length;
+    if (stopped > 0) {
+      console.log(chalk.red(`  Not processed (--max-failures ${config.maxFailures}): ${stopped}`));
+    }
 
     if (config.verbose) {
       console.log('\n' + chalk.bold('Details:'));
@@ -261,9 +593,21 @@ export async function generateCommand(
         }
       }
     }
+
+    if (config.report) {
+      const report = buildGenerateReport(results, {
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        dryRun: config.dryRun,
+      });
+      await writeReport(report, config.report);
+      console.log(chalk.gray(`\nWrote ${config.report.format} report to ${config.report.file}`));
+    }
+
+    return { exitCode: failed > 0 ? EXIT_CODES.failed : EXIT_CODES.success, results };
   } catch (error: any) {
     spinner.fail(chalk.red('Failed to generate TTS'));
     console.error(chalk.red(`Error: ${error.message}`));
-    process.exit(1);
+    return { exitCode: getExitCode(error), error: error.message, results: [] };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,275 @@
+/**
+ * Migrate keys command
+ * Copy existing audio objects to the configured key layout and update MDX or manifest URLs
+ */
+
+import path from 'path';
+import ora from 'ora';
+import chalk from 'chalk';
+import type { CommandResult, MigrateKeysOptions, Voice } from '../types/index.js';
+import { resolveConfig } from '../core/config.js';
+import { validateMigrateKeysConfig } from '../core/validators.js';
+import { IMMUTABLE_CACHE_CONTROL, getManifestKey } from '../core/s3-keys.js';
+import { createS3Uploader } from '../core/s3-upload.js';
+import { extractExistingAudioData } from '../core/injector.js';
+import { loadMetadata, saveMetadata, serializeMetadata } from '../core/hash-tracker.js';
+import { extractFrontmatter } from '../core/extractor.js';
+import { resolvePageLocale } from '../core/locales.js';
+import { getAudioContentType, getAudioExtension, getAudioFormatFromUrl } from '../core/audio-formats.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
+import { findMDXFiles, readFile, writeFile } from '../core/utils.js';
+
+/**
+ * A single object move planned for a page
+ */
+interface KeyMigration {
+  file: string;
+  voiceId: string;
+  oldKey: string;
+  newKey: string;
+  oldUrl: string;
+  newUrl: string;
+  contentType: string;
+}
+
+/**
+ * Point a voice's audio and transcript URLs at a migrated object
+ */
+function rewriteVoiceUrl(voice: Voice, oldUrl: string, newUrl: string): Voice {
+  const rewrite = (url: string | undefined) => (url === oldUrl ? newUrl : url);
+  return {
+    ...voice,
+    url: rewrite(voice.url),
+    transcriptUrl: rewrite(voice.transcriptUrl),
+    ...(voice.sources && {
+      sources: voice.sources.map((source) => ({ ...source, url: rewrite(source.url)! })),
+    }),
+  };
+}
+
+/**
+ * Migrate audio objects to the configured key template
+ */
+export async function migrateKeysCommand(
+  directory: string,
+  options: MigrateKeysOptions
+): Promise<CommandResult> {
+  const spinner = ora('Initializing...').start();
+
+  try {
+    const config = await resolveConfig(options, directory);
+
+    validateMigrateKeysConfig(config);
+
+    // Initialize S3 uploader
+    spinner.text = 'Initializing S3 client...';
+    const s3Uploader = createS3Uploader({
+      bucket: config.s3Bucket,
+      region: config.s3Region,
+      endpoint: config.s3Endpoint,
+      accessKeyId: config.s3AccessKeyId,
+      secretAccessKey: config.s3SecretAccessKey,
+      publicUrl: config.s3PublicUrl,
+      pathPrefix: config.s3PathPrefix,
+      keyTemplate: config.s3KeyTemplate,
+      cacheControl: config.s3Immutable ? IMMUTABLE_CACHE_CONTROL : undefined,
+    });
+
+    // Find MDX files
+    spinner.text = 'Finding MDX files...';
+    const files = await findMDXFiles(config.pattern, directory);
+
+    if (files.length === 0) {
+      spinner.warn(
+        chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`)
+      );
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
+
+    // In manifest mode, pages are referenced by their manifest entries
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : null;
+
+    // Plan migrations from the audio references in each page
+    spinner.start('Planning key migrations...');
+    const migrations: KeyMigration[] = [];
+    const skippedFiles: string[] = [];
+    const pagesByOldKey = new Map<string, string[]>();
+
+    for (const file of files) {
+      const content = await readFile(path.join(directory, file));
+      const existingData = manifest
+        ? manifest[file] ?? null
+        : await extractExistingAudioData(content, config.componentName);
+
+      if (!existingData) {
+        continue;
+      }
+
+      if (!existingData.hash && config.s3KeyTemplate.includes('{hash}')) {
+        skippedFiles.push(file);
+        continue;
+      }
+
+      const { locale } = resolvePageLocale(file, extractFrontmatter(content), config);
+
+      for (const voice of existingData.voices) {
+        // Audio in every encoding keeps its format's extension
+        const audioUrls = new Set([voice.url, ...(voice.sources ?? []).map((source) => source.url)]);
+        const objects = [
+          ...[...audioUrls].map((url) => {
+            const format = getAudioFormatFromUrl(url ?? '');
+            return { url, ext: getAudioExtension(format), contentType: getAudioContentType(format) };
+          }),
+          { url: voice.transcriptUrl, ext: 'vtt', contentType: 'text/vtt' },
+        ];
+
+        for (const { url, ext, contentType } of objects) {
+          if (!url) {
+            continue;
+          }
+
+          const oldKey = s3Uploader.extractKeyFromUrl(url, config.s3PublicUrl);
+          const newKey = s3Uploader.generateKey(file, voice.id, {
+            hash: existingData.hash ?? undefined,
+            ext,
+            locale,
+          });
+
+          pagesByOldKey.set(oldKey, [...(pagesByOldKey.get(oldKey) ?? []), file]);
+
+          if (oldKey !== newKey) {
+            migrations.push({
+              file,
+              voiceId: voice.id,
+              oldKey,
+              newKey,
+              oldUrl: url,
+              newUrl: s3Uploader.getPublicUrl(newKey),
+              contentType,
+            });
+          }
+        }
+      }
+    }
+
+    spinner.succeed(
+      chalk.green(`Planned ${migrations.length} object migration(s)`)
+    );
+
+    for (const file of skippedFiles) {
+      console.log(
+        chalk.yellow(`  Skipping ${file} - no speak-mintlify-hash for {hash} key template`)
+      );
+    }
+
+    // Keys shared by several pages were overwritten by the old scheme
+    const sharedKeys = [...pagesByOldKey.entries()].filter(
+      ([, pages]) => pages.length > 1
+    );
+    if (sharedKeys.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\nWarning: ${sharedKeys.length} object(s) are referenced by more than one page and hold only one page's audio.`
+        )
+      );
+      console.log(
+        chalk.yellow('Regenerate these pages with --force after migrating:\n')
+      );
+      for (const [key, pages] of sharedKeys) {
+        console.log(chalk.gray(`  - ${key}: ${pages.join(', ')}`));
+      }
+    }
+
+    if (migrations.length === 0) {
+      console.log(chalk.green('\nAll audio objects already match the key template.'));
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    if (config.dryRun || config.verbose) {
+      console.log(chalk.bold('\nMigrations:'));
+      for (const migration of migrations) {
+        console.log(chalk.gray(`  ${migration.oldKey} → ${migration.newKey}`));
+      }
+    }
+
+    if (config.dryRun) {
+      console.log(
+        chalk.blue(
+          `\nDry run complete. Run without --dry-run to copy objects and update ${manifest ? 'the manifest' : 'MDX files'}.`
+        )
+      );
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    // Copy objects (each source only once per destination)
+    spinner.start(`Copying ${migrations.length} object(s)...`);
+    const copied = new Set<string>();
+    for (const migration of migrations) {
+      if (!copied.has(migration.newKey)) {
+        await s3Uploader.copyObject(migration.oldKey, migration.newKey, migration.contentType);
+        copied.add(migration.newKey);
+      }
+    }
+    spinner.succeed(chalk.green(`Copied ${copied.size} object(s)`));
+
+    const migratedFiles = [...new Set(migrations.map((m) => m.file))];
+
+    if (manifest) {
+      // Rewrite voice URLs in the manifest, then republish it for the component
+      spinner.start('Updating manifest...');
+      for (const migration of migrations) {
+        const entry = manifest[migration.file]!;
+        entry.voices = entry.voices.map((voice) =>
+          rewriteVoiceUrl(voice, migration.oldUrl, migration.newUrl)
+        );
+      }
+
+      await saveMetadata(directory, manifest, config.manifestPath);
+      await s3Uploader.uploadObject(
+        getManifestKey(config.s3PathPrefix),
+        Buffer.from(serializeMetadata(manifest), 'utf-8'),
+        'application/json',
+        'no-cache'
+      );
+      spinner.succeed(chalk.green(`Updated ${migratedFiles.length} manifest entry(ies)`));
+    } else {
+      // Rewrite voice URLs in MDX files
+      spinner.start('Updating MDX files...');
+      for (const file of migratedFiles) {
+        const filePath = path.join(directory, file);
+        let content = await readFile(filePath);
+
+        for (const migration of migrations.filter((m) => m.file === file)) {
+          content = content
+            .split(JSON.stringify(migration.oldUrl))
+            .join(JSON.stringify(migration.newUrl));
+        }
+
+        await writeFile(filePath, content);
+      }
+      spinner.succeed(chalk.green(`Updated ${migratedFiles.length} MDX file(s)`));
+    }
+
+    // Print summary
+    console.log('\n' + chalk.bold('Summary:'));
+    console.log(chalk.gray(`  MDX files scanned: ${files.length}`));
+    console.log(chalk.green(`  Objects copied: ${copied.size}`));
+    console.log(
+      chalk.green(`  ${manifest ? 'Manifest entries' : 'MDX files'} updated: ${migratedFiles.length}`)
+    );
+    console.log(
+      chalk.gray(`  Old objects are left in place; run cleanup to remove them.`)
+    );
+
+    return { exitCode: EXIT_CODES.success };
+  } catch (error: any) {
+    spinner.fail(chalk.red('Failed to migrate keys'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    return { exitCode: getExitCode(error), error: error.message };
+  }
+}
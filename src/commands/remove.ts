@@ -0,0 +1,201 @@
+/**
+ * Remove command
+ * Strip the audio component, its import and hash comment from pages,
+ * optionally deleting the audio that is no longer referenced
+ */
+
+import path from 'path';
+import ora from 'ora';
+import chalk from 'chalk';
+import type { CommandResult, RemoveOptions, Voice } from '../types/index.js';
+import { resolveConfig } from '../core/config.js';
+import { validateRemoveConfig } from '../core/validators.js';
+import { createS3Uploader } from '../core/s3-upload.js';
+import { extractExistingAudioData, removeAudioComponent } from '../core/injector.js';
+import { loadMetadata, saveMetadata, serializeMetadata } from '../core/hash-tracker.js';
+import { getManifestKey } from '../core/s3-keys.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
+import { findMDXFiles, readFile, writeFile } from '../core/utils.js';
+import { createSpinnerReporter, reportDiff } from '../core/output.js';
+
+/**
+ * Remove narration from documentation files
+ */
+export async function removeCommand(
+  directory: string,
+  options: RemoveOptions
+): Promise<CommandResult> {
+  const spinner = ora('Initializing...').start();
+
+  try {
+    const config = await resolveConfig(options, directory);
+
+    validateRemoveConfig(config);
+
+    const s3Uploader = createS3Uploader({
+      bucket: config.s3Bucket,
+      region: config.s3Region,
+      endpoint: config.s3Endpoint,
+      accessKeyId: config.s3AccessKeyId,
+      secretAccessKey: config.s3SecretAccessKey,
+      publicUrl: config.s3PublicUrl,
+      pathPrefix: config.s3PathPrefix,
+      keyTemplate: config.s3KeyTemplate,
+    });
+
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : null;
+
+    // Find MDX files
+    spinner.text = 'Finding MDX files...';
+    const files = await findMDXFiles(config.pattern, directory);
+
+    if (files.length === 0) {
+      spinner.warn(
+        chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`)
+      );
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
+
+    // Strip the component from each page, remembering the audio it referenced
+    const removedFiles: string[] = [];
+    const removedVoices: Voice[] = [];
+
+    for (const file of files) {
+      const reporter = createSpinnerReporter(`Processing ${chalk.cyan(file)}...`);
+      const filePath = path.join(directory, file);
+      const content = await readFile(filePath);
+
+      const existingData = manifest
+        ? manifest[file] ?? null
+        : await extractExistingAudioData(content, config.componentName);
+      const updatedContent = await removeAudioComponent(content, config.componentName);
+
+      if (updatedContent === content && !existingData) {
+        reporter.info(chalk.gray(`Skipping ${file} - no audio component`));
+        continue;
+      }
+
+      removedFiles.push(file);
+      removedVoices.push(...(existingData?.voices ?? []));
+
+      if (config.dryRun) {
+        reporter.info(chalk.blue(`[DRY RUN] ${file}`));
+        if (updatedContent !== content) {
+          reportDiff(reporter, file, content, updatedContent);
+        }
+        continue;
+      }
+
+      if (updatedContent !== content) {
+        await writeFile(filePath, updatedContent);
+      }
+      if (manifest) {
+        delete manifest[file];
+      }
+      reporter.succeed(chalk.green(`Removed audio from ${chalk.cyan(file)}`));
+    }
+
+    if (removedFiles.length === 0) {
+      console.log(chalk.green('\nNo pages with audio found.'));
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    // Save and publish the manifest without the removed pages
+    if (manifest && !config.dryRun) {
+      spinner.start('Publishing manifest...');
+      await saveMetadata(directory, manifest, config.manifestPath);
+      await s3Uploader.uploadObject(
+        getManifestKey(config.s3PathPrefix),
+        Buffer.from(serializeMetadata(manifest), 'utf-8'),
+        'application/json',
+        'no-cache'
+      );
+      spinner.succeed(chalk.green('Published manifest'));
+    }
+
+    // Delete audio that no remaining page references
+    let deletedKeys: string[] = [];
+
+    if (options.deleteAudio) {
+      spinner.start('Finding unreferenced audio...');
+      const remainingVoices: Voice[] = [];
+
+      if (manifest) {
+        for (const [file, entry] of Object.entries(manifest)) {
+          if (!removedFiles.includes(file)) {
+            remainingVoices.push(...entry.voices);
+          }
+        }
+      } else {
+        // Pages outside --pattern may share audio, so scan every page
+        for (const file of await findMDXFiles(undefined, directory)) {
+          if (removedFiles.includes(file)) continue;
+
+          const existingData = await extractExistingAudioData(
+            await readFile(path.join(directory, file)),
+            config.componentName
+          );
+          remainingVoices.push(...(existingData?.voices ?? []));
+        }
+      }
+
+      // Audio (in every encoding) and transcript keys of a set of voices
+      const voiceKeys = (voices: Voice[]) =>
+        voices
+          .flatMap((voice) => [
+            voice.url,
+            voice.transcriptUrl,
+            ...(voice.sources ?? []).map((source) => source.url),
+          ])
+          .filter((url): url is string => !!url)
+          .map((url) => s3Uploader.extractKeyFromUrl(url, config.s3PublicUrl));
+
+      const referencedKeys = new Set(voiceKeys(remainingVoices));
+      deletedKeys = [...new Set(voiceKeys(removedVoices))].filter(
+        (key) => !referencedKeys.has(key)
+      );
+
+      spinner.succeed(chalk.green(`Found ${deletedKeys.length} unreferenced audio file(s)`));
+
+      if (config.dryRun || config.verbose) {
+        for (const key of deletedKeys) {
+          console.log(chalk.gray(`  - ${key}`));
+        }
+      }
+
+      if (!config.dryRun && deletedKeys.length > 0) {
+        spinner.start(`Deleting ${deletedKeys.length} audio file(s)...`);
+        await s3Uploader.deleteMultiple(deletedKeys);
+        spinner.succeed(chalk.green(`Deleted ${deletedKeys.length} audio file(s)`));
+      }
+    }
+
+    if (config.dryRun) {
+      console.log(
+        chalk.blue(`\nDry run complete. Run without --dry-run to update these pages.`)
+      );
+      return { exitCode: EXIT_CODES.success };
+    }
+
+    // Print summary
+    console.log('\n' + chalk.bold('Summary:'));
+    console.log(chalk.gray(`  MDX files scanned: ${files.length}`));
+    console.log(chalk.green(`  Pages updated: ${removedFiles.length}`));
+    if (options.deleteAudio) {
+      console.log(chalk.green(`  Audio files deleted: ${deletedKeys.length}`));
+    } else {
+      console.log(chalk.gray(`  Audio files are left in place; run cleanup or pass --delete-audio to remove them.`));
+    }
+
+    return { exitCode: EXIT_CODES.success };
+  } catch (error: any) {
+    spinner.fail(chalk.red('Failed to remove audio'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    return { exitCode: getExitCode(error), error: error.message };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Verify command
+ * Check that the audio and transcripts pages reference exist and are playable
+ */
+
+import path from 'path';
+import ora from 'ora';
+import chalk from 'chalk';
+import type { BrokenObject, VerifyOptions, VerifyResult, Voice } from '../types/index.js';
+import { resolveConfig } from '../core/config.js';
+import { validateVerifyConfig } from '../core/validators.js';
+import { createS3Uploader } from '../core/s3-upload.js';
+import { clearAudioHash, extractExistingAudioData } from '../core/injector.js';
+import { loadMetadata, saveMetadata } from '../core/hash-tracker.js';
+import { getManifestKey } from '../core/s3-keys.js';
+import { getWebVTTEnd } from '../core/transcript.js';
+import {
+  checkAudioContent,
+  checkObjectInfo,
+  getVoiceReferences,
+  type ObjectReference,
+} from '../core/verify.js';
+import { mapWithConcurrency } from '../core/concurrency.js';
+import { EXIT_CODES, getExitCode } from '../core/errors.js';
+import { findMDXFiles, readFile, writeFile } from '../core/utils.js';
+
+/**
+ * Verify the objects referenced by documentation files
+ * @returns Broken objects and the exit code: failed when any object is broken
+ */
+export async function verifyCommand(
+  directory: string,
+  options: VerifyOptions
+): Promise<VerifyResult> {
+  const spinner = ora('Initializing...').start();
+
+  try {
+    const config = await resolveConfig(options, directory);
+
+    validateVerifyConfig(config);
+
+    const s3Uploader = createS3Uploader({
+      bucket: config.s3Bucket,
+      region: config.s3Region,
+      endpoint: config.s3Endpoint,
+      accessKeyId: config.s3AccessKeyId,
+      secretAccessKey: config.s3SecretAccessKey,
+      publicUrl: config.s3PublicUrl,
+      pathPrefix: config.s3PathPrefix,
+      keyTemplate: config.s3KeyTemplate,
+    });
+    const toKey = (url: string) => s3Uploader.extractKeyFromUrl(url, config.s3PublicUrl);
+
+    // Find MDX files
+    spinner.text = 'Finding MDX files...';
+    const files = await findMDXFiles(config.pattern, directory);
+
+    if (files.length === 0) {
+      spinner.warn(chalk.yellow(`No MDX files found matching pattern: ${config.pattern}`));
+      return { exitCode: EXIT_CODES.success, checked: 0, broken: [], markedStale: [] };
+    }
+
+    spinner.succeed(chalk.green(`Found ${files.length} MDX file(s)`));
+
+    // Collect the objects each page references, from the pages or the manifest
+    spinner.start('Scanning MDX files for audio references...');
+    const manifest =
+      config.outputMode === 'manifest'
+        ? await loadMetadata(directory, config.manifestPath)
+        : null;
+
+    const references: ObjectReference[] = [];
+    for (const file of files) {
+      const voices: Voice[] = manifest
+        ? manifest[file]?.voices ?? []
+        : (await extractExistingAudioData(
+            await readFile(path.join(directory, file)),
+            config.componentName
+          ))?.voices ?? [];
+
+      references.push(...voices.flatMap((voice) => getVoiceReferences(file, voice, toKey)));
+    }
+
+    // Pages in manifest mode load the published manifest
+    if (manifest && Object.keys(manifest).length > 0) {
+      const key = getManifestKey(config.s3PathPrefix);
+      references.push({
+        file: config.manifestPath,
+        kind: 'manifest',
+        url: s3Uploader.getPublicUrl(key),
+        key,
+        contentType: 'application/json',
+      });
+    }
+
+    spinner.succeed(chalk.green(`Found ${references.length} referenced object(s)`));
+
+    // Check each object's size and content type, then optionally its audio
+    spinner.start(`Checking ${references.length} object(s)...`);
+
+    // Deep checks compare audio with its voice's transcript, downloaded once per voice
+    const transcriptKeys = new Map(
+      references
+        .filter((reference) => reference.kind === 'transcript')
+        .map((reference) => [`${reference.file}\0${reference.voiceId}`, reference.key])
+    );
+    const transcriptEnds = new Map<string, Promise<number | undefined>>();
+    const getTranscriptEnd = (reference: ObjectReference) => {
+      const key = transcriptKeys.get(`${reference.file}\0${reference.voiceId}`);
+      if (!key) return Promise.resolve(undefined);
+      if (!transcriptEnds.has(key)) {
+        transcriptEnds.set(
+          key,
+          s3Uploader.downloadObject(key).then((vtt) => (vtt ? getWebVTTEnd(vtt.toString('utf-8')) : undefined))
+        );
+      }
+      return transcriptEnds.get(key)!;
+    };
+
+    let done = 0;
+    const problems = await mapWithConcurrency(references, config.concurrency, async (reference) => {
+      let problem = checkObjectInfo(reference, await s3Uploader.headObject(reference.key));
+
+      if (!problem && options.deep && reference.kind === 'audio') {
+        const audio = await s3Uploader.downloadObject(reference.key);
+        problem = audio ? checkAudioContent(reference, audio, await getTranscriptEnd(reference)) : 'missing';
+      }
+
+      spinner.text = `Checking objects (${++done}/${references.length})...`;
+      return problem;
+    });
+    spinner.succeed(chalk.green(`Checked ${references.length} object(s)${options.deep ? ', including audio' : ''}`));
+
+    const broken: BrokenObject[] = references.flatMap((reference, i) =>
+      problems[i]
+        ? [{ file: reference.file, voiceId: reference.voiceId, key: reference.key, problem: problems[i]! }]
+        : []
+    );
+
+    if (config.verbose) {
+      console.log(chalk.bold('\nObjects:'));
+      references.forEach((reference, i) => {
+        if (!problems[i]) {
+          console.log(chalk.gray(`  ✓ ${reference.file} ${reference.key}`));
+        }
+      });
+    }
+
+    if (broken.length > 0) {
+      console.log(chalk.red(`\nFound ${broken.length} broken object(s):\n`));
+      for (const object of broken) {
+        console.log(`  ${chalk.red('✗')} ${chalk.cyan(object.file)} ${chalk.gray(object.key)}: ${object.problem}`);
+      }
+    }
+
+    // Clear the hash of pages with broken audio, so the next generate run regenerates them
+    const brokenPages = [...new Set(broken.filter((object) => object.voiceId).map((object) => object.file))];
+    const markedStale: string[] = [];
+    if (options.markStale && brokenPages.length > 0) {
+      spinner.start('Marking pages for regeneration...');
+      for (const file of brokenPages) {
+        if (manifest) {
+          manifest[file]!.hash = '';
+        } else {
+          const filePath = path.join(directory, file);
+          await writeFile(filePath, await clearAudioHash(await readFile(filePath), config.componentName));
+        }
+        markedStale.push(file);
+      }
+      if (manifest) {
+        await saveMetadata(directory, manifest, config.manifestPath);
+      }
+      spinner.succeed(
+        chalk.green(`Marked ${markedStale.length} page(s) for regeneration; run speak-mintlify generate to fix them`)
+      );
+    }
+
+    // Print summary
+    console.log('\n' + chalk.bold('Summary:'));
+    console.log(chalk.gray(`  MDX files scanned: ${files.length}`));
+    console.log(chalk.gray(`  Objects checked: ${references.length}`));
+    if (broken.length > 0) {
+      console.log(chalk.red(`  Broken objects: ${broken.length} in ${brokenPages.length} page(s)`));
+      if (!options.markStale && brokenPages.length > 0) {
+        console.log(chalk.gray('  Pass --mark-stale to have the next generate run regenerate these pages.'));
+      }
+    } else {
+      console.log(chalk.green(`  All referenced objects are ${options.deep ? 'present and playable' : 'present'}`));
+    }
+
+    return {
+      exitCode: broken.length > 0 ? EXIT_CODES.failed : EXIT_CODES.success,
+      checked: references.length,
+      broken,
+      markedStale,
+    };
+  } catch (error: any) {
+    spinner.fail(chalk.red('Failed to verify audio'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    return { exitCode: getExitCode(error), error: error.message, checked: 0, broken: [], markedStale: [] };
+  }
+}
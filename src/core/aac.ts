@@ -0,0 +1,134 @@
+/**
+ * AAC Audio Utilities
+ * Frame-level parsing and stitching of ADTS (raw .aac) streams without decoding
+ */
+
+/**
+ * Sample rates (Hz), indexed by the ADTS sampling frequency index
+ */
+const SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * Samples per raw data block
+ */
+const SAMPLES_PER_BLOCK = 1024;
+
+/**
+ * Parsed ADTS frame header
+ */
+export interface AdtsFrameHeader {
+  offset: number;
+  length: number; // Including the header
+  sampleRate: number;
+  samples: number;
+}
+
+/**
+ * Parse an ADTS frame header at the given offset
+ * @returns Header or null if the bytes are not a valid frame header
+ */
+function parseFrameHeader(buffer: Buffer, offset: number): AdtsFrameHeader | null {
+  if (offset + 7 > buffer.length) return null;
+
+  const b1 = buffer[offset + 1]!;
+  const b2 = buffer[offset + 2]!;
+
+  // 12-bit sync word and layer 0
+  if (buffer[offset] !== 0xff || (b1 & 0xf6) !== 0xf0) return null;
+
+  const sampleRate = SAMPLE_RATES[(b2 >> 2) & 0x0f];
+  if (!sampleRate) return null;
+
+  const length =
+    ((buffer[offset + 3]! & 0x03) << 11) | (buffer[offset + 4]! << 3) | (buffer[offset + 5]! >> 5);
+  const headerLength = (b1 & 0x01) === 0 ? 9 : 7; // 2 more bytes when a CRC is present
+  if (length < headerLength) return null;
+
+  const blocks = (buffer[offset + 6]! & 0x03) + 1;
+
+  return { offset, length, sampleRate, samples: blocks * SAMPLES_PER_BLOCK };
+}
+
+/**
+ * Get the byte length of a leading ID3v2 tag
+ */
+function id3v2Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+
+  const size =
+    ((buffer[6]! & 0x7f) << 21) |
+    ((buffer[7]! & 0x7f) << 14) |
+    ((buffer[8]! & 0x7f) << 7) |
+    (buffer[9]! & 0x7f);
+
+  return 10 + size + ((buffer[5]! & 0x10) !== 0 ? 10 : 0);
+}
+
+/**
+ * Parse all frames in an ADTS buffer
+ * Skips ID3 tags and any data between frames
+ * @param buffer - AAC file contents
+ * @returns Frames in stream order
+ */
+export function parseAdtsFrames(buffer: Buffer): AdtsFrameHeader[] {
+  const frames: AdtsFrameHeader[] = [];
+  let offset = id3v2Length(buffer);
+
+  while (offset + 7 <= buffer.length) {
+    const frame = parseFrameHeader(buffer, offset);
+
+    // Require the following frame (or end of stream) to line up to avoid false syncs
+    if (
+      frame &&
+      offset + frame.length <= buffer.length &&
+      (offset + frame.length + 7 > buffer.length || parseFrameHeader(buffer, offset + frame.length))
+    ) {
+      frames.push(frame);
+      offset += frame.length;
+    } else {
+      offset++;
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Calculate the playback duration of an ADTS buffer
+ * @param buffer - AAC file contents
+ * @returns Duration in seconds
+ */
+export function getAacDuration(buffer: Buffer): number {
+  return parseAdtsFrames(buffer).reduce(
+    (total, frame) => total + frame.samples / frame.sampleRate,
+    0
+  );
+}
+
+/**
+ * Concatenate ADTS buffers into a single stream
+ * Every ADTS frame carries its own header, so frames are joined in order
+ * @param buffers - AAC segments in playback order
+ * @returns Combined AAC buffer
+ */
+export function concatAac(buffers: Buffer[]): Buffer {
+  if (buffers.length === 1) {
+    return buffers[0]!;
+  }
+
+  const parts: Buffer[] = [];
+
+  for (const [index, buffer] of buffers.entries()) {
+    const frames = parseAdtsFrames(buffer);
+
+    if (frames.length === 0) {
+      throw new Error(`Audio segment ${index + 1} is not a valid AAC (ADTS) stream`);
+    }
+
+    for (const frame of frames) {
+      parts.push(buffer.subarray(frame.offset, frame.offset + frame.length));
+    }
+  }
+
+  return Buffer.concat(parts);
+}
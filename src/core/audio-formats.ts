@@ -0,0 +1,206 @@
+/**
+ * Audio Formats
+ * Output encodings: file extensions, content types, stitching and the `audio:` config
+ */
+
+import type { AudioEncoding, AudioFormat, TTSProviderName } from '../types/index.js';
+import { concatMp3, getMp3Duration } from './audio.js';
+import { concatAac, getAacDuration } from './aac.js';
+import { concatOpus, getOpusDuration } from './ogg-opus.js';
+
+/**
+ * All supported output formats
+ */
+export const AUDIO_FORMATS: readonly AudioFormat[] = ['mp3', 'opus', 'aac'];
+
+/**
+ * Encoding used when none is configured
+ */
+export const DEFAULT_ENCODING: AudioEncoding = { format: 'mp3' };
+
+/**
+ * How each format is stored and stitched
+ */
+const FORMAT_INFO: Record<
+  AudioFormat,
+  {
+    ext: string;
+    contentType: string;
+    concat: (buffers: Buffer[]) => Buffer;
+    duration: (buffer: Buffer) => number;
+  }
+> = {
+  mp3: { ext: 'mp3', contentType: 'audio/mpeg', concat: concatMp3, duration: getMp3Duration },
+  opus: { ext: 'opus', contentType: 'audio/ogg; codecs=opus', concat: concatOpus, duration: getOpusDuration },
+  aac: { ext: 'aac', contentType: 'audio/aac', concat: concatAac, duration: getAacDuration },
+};
+
+/**
+ * What each provider can produce
+ * Bitrates are the values the provider accepts, or null for any value;
+ * providers without bitrate or sample rate control reject those settings
+ */
+const PROVIDER_ENCODINGS: Record<
+  TTSProviderName,
+  {
+    formats: readonly AudioFormat[];
+    bitrates: Partial<Record<AudioFormat, readonly number[] | null>> | false;
+    sampleRate: boolean;
+  }
+> = {
+  fish: { formats: ['mp3', 'opus'], bitrates: { mp3: [64, 128, 192], opus: [24, 32, 48, 64] }, sampleRate: true },
+  openai: { formats: ['mp3', 'opus', 'aac'], bitrates: false, sampleRate: false },
+  command: { formats: ['mp3', 'opus', 'aac'], bitrates: { mp3: null, opus: null, aac: null }, sampleRate: true },
+};
+
+/**
+ * Encoding settings in speaker-config.yaml
+ */
+export interface AudioEncodingSettings {
+  format?: AudioFormat;
+  bitrate?: number;
+  sampleRate?: number;
+  fallbacks?: AudioEncoding[]; // Extra encodings offered as <source> fallbacks
+}
+
+/**
+ * The `audio:` section of speaker-config.yaml
+ * Per-voice settings override the global ones
+ */
+export interface AudioConfig extends AudioEncodingSettings {
+  voices?: Record<string, AudioEncodingSettings>;
+}
+
+/**
+ * File extension of a format
+ */
+export function getAudioExtension(format: AudioFormat): string {
+  return FORMAT_INFO[format].ext;
+}
+
+/**
+ * MIME type of a format, used as Content-Type and <source type>
+ */
+export function getAudioContentType(format: AudioFormat): string {
+  return FORMAT_INFO[format].contentType;
+}
+
+/**
+ * Recognize the format of uploaded audio from its URL or key
+ * Audio uploaded before formats were configurable is MP3
+ */
+export function getAudioFormatFromUrl(url: string): AudioFormat {
+  const ext = url.split(/[?#]/)[0]!.split('.').pop()?.toLowerCase();
+  return AUDIO_FORMATS.find((format) => FORMAT_INFO[format].ext === ext) ?? 'mp3';
+}
+
+/**
+ * Calculate the playback duration of audio in any supported format
+ * @returns Duration in seconds
+ */
+export function getAudioDuration(buffer: Buffer, format: AudioFormat = 'mp3'): number {
+  return FORMAT_INFO[format].duration(buffer);
+}
+
+/**
+ * Concatenate audio segments of one format into a single stream
+ */
+export function concatAudio(buffers: Buffer[], format: AudioFormat = 'mp3'): Buffer {
+  return FORMAT_INFO[format].concat(buffers);
+}
+
+/**
+ * Check whether an encoding is the plain default (MP3 at the provider's settings)
+ */
+export function isDefaultEncoding(encoding: AudioEncoding): boolean {
+  return encoding.format === 'mp3' && encoding.bitrate === undefined && encoding.sampleRate === undefined;
+}
+
+/**
+ * Get the encodings to produce for a voice, primary first
+ * @param config - Audio config
+ * @param voiceId - Voice ID
+ * @returns The primary encoding followed by any fallbacks
+ */
+export function getVoiceEncodings(config: AudioConfig, voiceId: string): AudioEncoding[] {
+  const voice = config.voices?.[voiceId] ?? {};
+  const primary: AudioEncoding = {
+    format: voice.format ?? config.format ?? DEFAULT_ENCODING.format,
+  };
+
+  // A voice changing format doesn't inherit a bitrate meant for another format
+  const inherits = !voice.format || voice.format === config.format;
+  const bitrate = voice.bitrate ?? (inherits ? config.bitrate : undefined);
+  const sampleRate = voice.sampleRate ?? config.sampleRate;
+  if (bitrate !== undefined) primary.bitrate = bitrate;
+  if (sampleRate !== undefined) primary.sampleRate = sampleRate;
+
+  return [primary, ...(voice.fallbacks ?? config.fallbacks ?? [])];
+}
+
+/**
+ * Check one encoding against what the provider supports
+ */
+function validateEncoding(encoding: AudioEncoding, provider: TTSProviderName, scope: string): string[] {
+  const errors: string[] = [];
+  const support = PROVIDER_ENCODINGS[provider];
+
+  if (!AUDIO_FORMATS.includes(encoding?.format)) {
+    return [`${scope}.format must be one of: ${AUDIO_FORMATS.join(', ')} (got "${encoding?.format}")`];
+  }
+  if (!support.formats.includes(encoding.format)) {
+    errors.push(`${scope}.format "${encoding.format}" is not supported by the ${provider} provider (expected one of: ${support.formats.join(', ')})`);
+  }
+
+  if (encoding.bitrate !== undefined) {
+    const allowed = support.bitrates ? support.bitrates[encoding.format] : undefined;
+    if (!support.bitrates) {
+      errors.push(`${scope}.bitrate is not supported by the ${provider} provider`);
+    } else if (!Number.isInteger(encoding.bitrate) || encoding.bitrate <= 0) {
+      errors.push(`${scope}.bitrate must be a positive number of kbps (got ${encoding.bitrate})`);
+    } else if (allowed && !allowed.includes(encoding.bitrate)) {
+      errors.push(`${scope}.bitrate for ${encoding.format} must be one of: ${allowed.join(', ')} (got ${encoding.bitrate})`);
+    }
+  }
+
+  if (encoding.sampleRate !== undefined) {
+    if (!support.sampleRate) {
+      errors.push(`${scope}.sampleRate is not supported by the ${provider} provider`);
+    } else if (!Number.isInteger(encoding.sampleRate) || encoding.sampleRate <= 0) {
+      errors.push(`${scope}.sampleRate must be a positive number of Hz (got ${encoding.sampleRate})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check the audio config, globally and for each voice with its own settings
+ * @param config - Audio config
+ * @param provider - Selected TTS provider
+ * @returns List of problems (empty when valid)
+ */
+export function validateAudioConfig(config: AudioConfig, provider: TTSProviderName): string[] {
+  const errors: string[] = [];
+  const scopes: Array<[string, string]> = [
+    ['audio', ''],
+    ...Object.keys(config.voices ?? {}).map((voiceId): [string, string] => [`audio.voices.${voiceId}`, voiceId]),
+  ];
+
+  for (const [scope, voiceId] of scopes) {
+    const encodings = getVoiceEncodings(config, voiceId);
+    const [primary, ...fallbacks] = encodings;
+
+    errors.push(...validateEncoding(primary!, provider, scope));
+    for (const [index, fallback] of fallbacks.entries()) {
+      errors.push(...validateEncoding(fallback, provider, `${scope}.fallbacks[${index}]`));
+    }
+
+    const formats = encodings.map((encoding) => encoding?.format);
+    if (new Set(formats).size !== formats.length) {
+      errors.push(`${scope} lists the same format more than once (${formats.join(', ')})`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,179 @@
+/**
+ * MP3 Audio Utilities
+ * Frame-level parsing and stitching of MP3 streams without decoding
+ */
+
+/**
+ * Bitrates (kbps) for MPEG-1 Layer III, indexed by header bitrate index
+ */
+const MPEG1_LAYER3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+/**
+ * Bitrates (kbps) for MPEG-2/2.5 Layer III, indexed by header bitrate index
+ */
+const MPEG2_LAYER3_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/**
+ * Sample rates (Hz) per MPEG version, indexed by header sample rate index
+ */
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+/**
+ * Parsed MP3 frame header
+ */
+export interface Mp3FrameHeader {
+  offset: number;
+  length: number;
+  bitrate: number; // kbps
+  sampleRate: number;
+  samples: number;
+  channels: number;
+}
+
+/**
+ * Parse a Layer III frame header at the given offset
+ * @returns Header or null if the bytes are not a valid frame header
+ */
+function parseFrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length) return null;
+
+  const b1 = buffer[offset + 1]!;
+  const b2 = buffer[offset + 2]!;
+  const b3 = buffer[offset + 3]!;
+
+  if (buffer[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = (b1 >> 3) & 0x03;
+  const layer = (b1 >> 1) & 0x03;
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  const padding = (b2 >> 1) & 0x01;
+
+  // Only Layer III with a fixed bitrate index and known sample rate
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15) return null;
+  if (sampleRateIndex === 3) return null;
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MPEG1_LAYER3_BITRATES : MPEG2_LAYER3_BITRATES)[bitrateIndex]!;
+  const sampleRate = SAMPLE_RATES[version]![sampleRateIndex]!;
+  const samples = isMpeg1 ? 1152 : 576;
+  const length = Math.floor(((samples / 8) * bitrate * 1000) / sampleRate) + padding;
+
+  return {
+    offset,
+    length,
+    bitrate,
+    sampleRate,
+    samples,
+    channels: ((b3 >> 6) & 0x03) === 3 ? 1 : 2,
+  };
+}
+
+/**
+ * Get the byte length of a leading ID3v2 tag
+ */
+function id3v2Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+
+  // Syncsafe integer: 7 bits per byte
+  const size =
+    ((buffer[6]! & 0x7f) << 21) |
+    ((buffer[7]! & 0x7f) << 14) |
+    ((buffer[8]! & 0x7f) << 7) |
+    (buffer[9]! & 0x7f);
+  const hasFooter = (buffer[5]! & 0x10) !== 0;
+
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Check whether a frame is a Xing/Info/VBRI metadata frame rather than audio
+ */
+function isMetadataFrame(buffer: Buffer, frame: Mp3FrameHeader): boolean {
+  const isMpeg1 = frame.samples === 1152;
+  const sideInfo = isMpeg1 ? (frame.channels === 1 ? 17 : 32) : frame.channels === 1 ? 9 : 17;
+  const xingTag = buffer.toString('latin1', frame.offset + 4 + sideInfo, frame.offset + 8 + sideInfo);
+  const vbriTag = buffer.toString('latin1', frame.offset + 36, frame.offset + 40);
+
+  return xingTag === 'Xing' || xingTag === 'Info' || vbriTag === 'VBRI';
+}
+
+/**
+ * Parse all audio frames in an MP3 buffer
+ * Skips ID3 tags, trailing data and Xing/Info/VBRI metadata frames
+ * @param buffer - MP3 file contents
+ * @returns Audio frames in stream order
+ */
+export function parseMp3Frames(buffer: Buffer): Mp3FrameHeader[] {
+  const frames: Mp3FrameHeader[] = [];
+  let offset = id3v2Length(buffer);
+
+  while (offset + 4 <= buffer.length) {
+    const frame = parseFrameHeader(buffer, offset);
+
+    // Require the following frame (or end of stream) to line up to avoid false syncs
+    if (
+      frame &&
+      offset + frame.length <= buffer.length &&
+      (offset + frame.length + 4 > buffer.length ||
+        buffer.toString('latin1', offset + frame.length, offset + frame.length + 3) === 'TAG' ||
+        parseFrameHeader(buffer, offset + frame.length))
+    ) {
+      if (frames.length > 0 || !isMetadataFrame(buffer, frame)) {
+        frames.push(frame);
+      }
+      offset += frame.length;
+    } else {
+      offset++;
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Calculate the playback duration of an MP3 buffer
+ * @param buffer - MP3 file contents
+ * @returns Duration in seconds
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  return parseMp3Frames(buffer).reduce(
+    (total, frame) => total + frame.samples / frame.sampleRate,
+    0
+  );
+}
+
+/**
+ * Concatenate MP3 buffers into a single valid MP3 stream
+ *
+ * Tags and Xing/Info headers are dropped since their frame counts would describe
+ * only the first segment; the remaining audio frames are joined in order.
+ *
+ * @param buffers - MP3 segments in playback order
+ * @returns Combined MP3 buffer
+ */
+export function concatMp3(buffers: Buffer[]): Buffer {
+  if (buffers.length === 1) {
+    return buffers[0]!;
+  }
+
+  const parts: Buffer[] = [];
+
+  for (const [index, buffer] of buffers.entries()) {
+    const frames = parseMp3Frames(buffer);
+
+    if (frames.length === 0) {
+      throw new Error(`Audio segment ${index + 1} is not a valid MP3 stream`);
+    }
+
+    for (const frame of frames) {
+      parts.push(buffer.subarray(frame.offset, frame.offset + frame.length));
+    }
+  }
+
+  return Buffer.concat(parts);
+}
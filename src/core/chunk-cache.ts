@@ -0,0 +1,133 @@
+/**
+ * Chunk Audio Cache
+ * Content-addressed storage for synthesized chunks, kept locally and/or in S3
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { AudioFormat } from '../types/index.js';
+import { getAudioContentType, getAudioExtension } from './audio-formats.js';
+import { generateHash } from './hash-tracker.js';
+import type { S3Uploader } from './s3-upload.js';
+
+/**
+ * Storage backend for synthesized chunk audio
+ * Chunks are stored with their format's extension and content type
+ */
+export interface ChunkCache {
+  get(key: string, format: AudioFormat): Promise<Buffer | null>;
+  put(key: string, audio: Buffer, format: AudioFormat): Promise<void>;
+}
+
+/**
+ * Compute the cache key for a chunk
+ * @param text - Chunk text
+ * @param voiceId - Voice ID
+ * @param params - Provider and synthesis parameters that affect the audio
+ * @returns Hex-encoded hash
+ */
+export function chunkCacheKey(
+  text: string,
+  voiceId: string,
+  params: Record<string, unknown>
+): string {
+  return generateHash(JSON.stringify({ text, voiceId, params }));
+}
+
+/**
+ * Chunk cache stored on the local filesystem
+ */
+export class LocalChunkCache implements ChunkCache {
+  constructor(private directory: string) {}
+
+  private pathFor(key: string, format: AudioFormat): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.${getAudioExtension(format)}`);
+  }
+
+  async get(key: string, format: AudioFormat): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key, format));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, audio: Buffer, format: AudioFormat): Promise<void> {
+    const filePath = this.pathFor(key, format);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, audio);
+  }
+}
+
+/**
+ * Chunk cache stored under an S3 prefix, shareable across machines and CI runs
+ */
+export class S3ChunkCache implements ChunkCache {
+  constructor(
+    private uploader: S3Uploader,
+    private prefix: string
+  ) {}
+
+  private keyFor(key: string, format: AudioFormat): string {
+    return `${this.prefix.replace(/\/$/, '')}/${key.slice(0, 2)}/${key}.${getAudioExtension(format)}`;
+  }
+
+  async get(key: string, format: AudioFormat): Promise<Buffer | null> {
+    return this.uploader.downloadObject(this.keyFor(key, format));
+  }
+
+  async put(key: string, audio: Buffer, format: AudioFormat): Promise<void> {
+    await this.uploader.uploadObject(this.keyFor(key, format), audio, getAudioContentType(format));
+  }
+}
+
+/**
+ * Chunk cache that reads from each layer in order and writes to all of them
+ * Hits in a later layer are copied back into the earlier ones
+ */
+export class TieredChunkCache implements ChunkCache {
+  constructor(private layers: ChunkCache[]) {}
+
+  async get(key: string, format: AudioFormat): Promise<Buffer | null> {
+    for (const [index, layer] of this.layers.entries()) {
+      const audio = await layer.get(key, format);
+      if (audio) {
+        await Promise.all(this.layers.slice(0, index).map((earlier) => earlier.put(key, audio, format)));
+        return audio;
+      }
+    }
+    return null;
+  }
+
+  async put(key: string, audio: Buffer, format: AudioFormat): Promise<void> {
+    await Promise.all(this.layers.map((layer) => layer.put(key, audio, format)));
+  }
+}
+
+/**
+ * Create the chunk cache for the configured layers
+ * @param options - Local directory and/or S3 prefix
+ * @returns Cache, or undefined when caching is disabled
+ */
+export function createChunkCache(options: {
+  directory?: string;
+  s3Prefix?: string;
+  uploader?: S3Uploader;
+}): ChunkCache | undefined {
+  const layers: ChunkCache[] = [];
+
+  if (options.directory) {
+    layers.push(new LocalChunkCache(options.directory));
+  }
+  if (options.s3Prefix && options.uploader) {
+    layers.push(new S3ChunkCache(options.uploader, options.s3Prefix));
+  }
+
+  if (layers.length === 0) {
+    return undefined;
+  }
+  return layers.length === 1 ? layers[0] : new TieredChunkCache(layers);
+}
@@ -0,0 +1,104 @@
+/**
+ * Text Chunker
+ * Splits extracted text into synthesis-sized chunks at natural boundaries
+ */
+
+/**
+ * Default character budget per TTS request
+ */
+export const DEFAULT_MAX_CHUNK_CHARS = 2000;
+
+/**
+ * Split text into sentences, keeping terminal punctuation attached
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…。！？])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split an oversized piece at word boundaries, hard-splitting words as a last resort
+ */
+function splitWords(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let i = 0; i < word.length; i += maxChars) {
+      pieces.push(word.slice(i, i + maxChars));
+    }
+  }
+
+  return pack(pieces, ' ', maxChars);
+}
+
+/**
+ * Greedily join pieces with a separator without exceeding the budget
+ */
+function pack(pieces: string[], separator: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Break a single paragraph into pieces that each fit the budget
+ */
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) {
+    return [paragraph];
+  }
+
+  const sentences = splitSentences(paragraph).flatMap((sentence) =>
+    sentence.length <= maxChars ? [sentence] : splitWords(sentence, maxChars)
+  );
+
+  return pack(sentences, ' ', maxChars);
+}
+
+/**
+ * Split text into chunks no longer than maxChars
+ *
+ * Paragraphs are packed together until the budget is reached, unless
+ * packParagraphs is false, in which case every paragraph starts a new chunk.
+ * Paragraphs that exceed the budget on their own are split at sentence, then
+ * word boundaries. The result depends only on the input, so identical text
+ * always yields identical chunks.
+ *
+ * @param text - Clean text from extractCleanText
+ * @param maxChars - Character budget per chunk
+ * @param options - packParagraphs (default true)
+ * @returns Ordered list of chunks
+ */
+export function splitIntoChunks(
+  text: string,
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS,
+  options: { packParagraphs?: boolean } = {}
+): string[] {
+  const { packParagraphs = true } = options;
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => splitParagraph(paragraph, maxChars));
+
+  return packParagraphs ? pack(paragraphs, '\n\n', maxChars) : paragraphs;
+}
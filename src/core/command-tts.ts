@@ -0,0 +1,112 @@
+/**
+ * Local Command TTS Client
+ * Shells out to a local engine such as Piper or espeak-ng
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AudioEncoding, CommandTTSConfig, SpeechMarkup, TTSProvider } from '../types/index.js';
+import { getAudioExtension } from './audio-formats.js';
+
+/**
+ * Quote a value for safe interpolation into a POSIX shell command
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run a shell command, writing input to stdin and collecting stdout
+ */
+function runCommand(command: string, input: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf-8').trim();
+        reject(
+          new Error(`TTS command exited with code ${code}${message ? `: ${message}` : ''}`)
+        );
+      }
+    });
+
+    // Engines that exit before reading all input would otherwise raise EPIPE
+    child.stdin.on('error', () => {});
+    child.stdin.end(input, 'utf-8');
+  });
+}
+
+/**
+ * Local command client
+ *
+ * The page text is written to the command's stdin. `{voice}` is replaced with the
+ * voice ID and `{output}` with a temporary file path; without `{output}` the audio
+ * is read from stdout. The command must produce audio in the requested format:
+ * `{format}` is mp3, opus (Ogg) or aac (ADTS), and `{bitrate}` (kbps) and
+ * `{sampleRate}` (Hz) are empty unless configured. With markup set to ssml, the
+ * text is an SSML document (e.g. for `espeak-ng -m`).
+ */
+export class CommandTTSClient implements TTSProvider {
+  readonly name = 'command' as const;
+  readonly markup: SpeechMarkup;
+  private command: string;
+
+  constructor(config: CommandTTSConfig) {
+    this.command = config.command;
+    this.markup = config.markup ?? 'none';
+  }
+
+  /**
+   * Generate TTS audio
+   * @param text - Text to convert to speech
+   * @param voiceId - Voice passed to the command via {voice}
+   * @param encoding - Format, bitrate and sample rate passed to the command
+   * @returns Audio buffer in the requested format
+   */
+  async generateTTS(
+    text: string,
+    voiceId: string,
+    encoding: AudioEncoding = { format: 'mp3' }
+  ): Promise<Buffer> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'speak-mintlify-'));
+    const outputPath = path.join(tempDir, `output.${getAudioExtension(encoding.format)}`);
+    const writesFile = this.command.includes('{output}');
+
+    const command = this.command
+      .replaceAll('{voice}', shellQuote(voiceId))
+      .replaceAll('{output}', shellQuote(outputPath))
+      .replaceAll('{format}', encoding.format)
+      .replaceAll('{bitrate}', encoding.bitrate ? String(encoding.bitrate) : '')
+      .replaceAll('{sampleRate}', encoding.sampleRate ? String(encoding.sampleRate) : '');
+
+    try {
+      const stdout = await runCommand(command, text);
+      const buffer = writesFile ? await fs.readFile(outputPath) : stdout;
+
+      if (buffer.length === 0) {
+        throw new Error('TTS command produced no audio');
+      }
+
+      return buffer;
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Create a local command TTS client instance
+ */
+export function createCommandTTSClient(config: CommandTTSConfig): CommandTTSClient {
+  return new CommandTTSClient(config);
+}
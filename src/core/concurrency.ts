@@ -0,0 +1,101 @@
+/**
+ * Concurrency Utilities
+ * Bounded worker pools and request rate limiting
+ */
+
+/**
+ * Rate limit settings for a TTS provider
+ */
+export interface RateLimitOptions {
+  maxConcurrent?: number; // Maximum requests in flight
+  requestsPerMinute?: number; // Maximum requests started per rolling minute
+}
+
+const MINUTE_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Limits how many tasks run at once and how many start per minute
+ */
+export class RateLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private started: number[] = [];
+
+  constructor(private options: RateLimitOptions = {}) {}
+
+  /**
+   * Run a task once a slot is available
+   * @param task - Async task to run
+   * @returns Task result
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    const { maxConcurrent, requestsPerMinute } = this.options;
+
+    if (maxConcurrent && this.active >= maxConcurrent) {
+      // Slot is handed over directly by release()
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    while (requestsPerMinute) {
+      const now = Date.now();
+      this.started = this.started.filter((time) => now - time < MINUTE_MS);
+      if (this.started.length < requestsPerMinute) {
+        break;
+      }
+      await sleep(this.started[0]! + MINUTE_MS - now);
+    }
+    this.started.push(Date.now());
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` tasks in flight
+ * @param items - Items to process
+ * @param concurrency - Maximum parallel tasks
+ * @param task - Async task for each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!, index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -7,17 +7,72 @@
 import fs from 'fs/promises';
 import path from 'path';
 import yaml from 'js-yaml';
-import type { GenerateOptions } from '../types/index.js';
+import type { AudioFormat, GenerateOptions, OutputMode, SpeechMarkup, TTSProviderName } from '../types/index.js';
+import { DEFAULT_MAX_CHUNK_CHARS } from './chunker.js';
+import type { RateLimitOptions } from './concurrency.js';
+import { DEFAULT_KEY_TEMPLATE, IMMUTABLE_KEY_TEMPLATE } from './s3-keys.js';
+import { METADATA_FILENAME } from './hash-tracker.js';
+import { DEFAULT_EXTRACTION_RULES, type ExtractionRules } from './speech-rules.js';
+import type { PronunciationConfig } from './lexicon.js';
+import { DEFAULT_PROSODY, type ProsodyOptions } from './prosody.js';
+import type { LocaleConfig } from './locales.js';
+import type { AudioConfig } from './audio-formats.js';
+import { DEFAULT_POST_PROCESSING, type PostProcessOptions } from './post-process.js';
+import { ConfigError } from './errors.js';
+import { DEFAULT_PRICES, type BudgetOptions, type OverBudgetAction } from './estimate.js';
+import { inferReportFormat, type ReportOptions } from './report.js';
 
 /**
  * Speaker config from YAML file (no secrets)
  */
 interface SpeakerConfig {
+  provider?: string; // fish (default), openai, or command
   voices?: Record<string, string>; // Map of voice ID to voice name
+  defaultLocale?: string; // Language of the top-level voices
+  locales?: Record<
+    string,
+    {
+      path?: string; // Path prefix of the locale's pages (default: "<locale>/")
+      voices?: Record<string, string>; // Map of voice ID to voice name
+    }
+  >;
+  openai?: {
+    baseUrl?: string;
+    model?: string;
+  };
+  command?: {
+    run?: string;
+    markup?: SpeechMarkup; // ssml when the command reads SSML
+  };
+  chunking?: {
+    maxChars?: number; // Character budget per TTS request
+  };
+  audio?: AudioConfig; // Output format, bitrate and fallback encodings
+  postProcessing?: Partial<PostProcessOptions>; // Loudness, silence trimming and intro/outro clips
+  pricing?: Partial<Record<TTSProviderName, number>>; // USD per million characters
+  budget?: Partial<BudgetOptions>; // Limits on characters and cost per run
+  concurrency?: number; // Files and voices processed in parallel
+  maxFailures?: number; // Stop starting files after this many have failed
+  rateLimits?: Record<string, RateLimitOptions>; // Per-provider request limits
+  cache?: {
+    dir?: string; // Local chunk cache directory, relative to the docs directory
+    s3Prefix?: string; // Shared chunk cache prefix in the S3 bucket
+  };
+  s3?: {
+    keyTemplate?: string; // Object key layout for uploaded audio
+    immutable?: boolean; // Content-hash keys with long-lived Cache-Control
+  };
+  output?: {
+    mode?: string; // mdx (default) or manifest
+    manifest?: string; // Manifest file, relative to the docs directory
+  };
   component?: {
     import?: string;
     name?: string;
   };
+  extraction?: Partial<ExtractionRules>; // How code, tables, lists and components are spoken
+  pronunciations?: PronunciationConfig; // Lexicon for product names and acronyms
+  prosody?: Partial<ProsodyOptions>; // SSML emphasis and pauses
 }
 
 /**
@@ -41,9 +96,30 @@ async function loadSpeakerConfig(directory: string): Promise<SpeakerConfig> {
  */
 export interface ResolvedConfig {
   // Generation specific
+  provider: TTSProviderName;
   fishApiKey?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  ttsCommand?: string;
+  ttsCommandMarkup: SpeechMarkup;
+  maxChunkChars: number;
+  audio: AudioConfig;
+  postProcessing: PostProcessOptions | null; // null when not configured
+  pricePerMillion: number; // Selected provider's price in USD per million characters
+  budget: BudgetOptions;
+  cacheDir?: string;
+  cacheS3Prefix?: string;
+  concurrency: number;
+  maxFailures?: number; // Unlimited when not set
+  rateLimit?: RateLimitOptions; // Limits for the selected provider
   voiceIds?: string[];
   voiceNames?: string[];
+  defaultLocale?: string;
+  locales: LocaleConfig[];
+  extractionRules: ExtractionRules;
+  pronunciations: PronunciationConfig;
+  prosody: ProsodyOptions;
 
   // Required
   s3Bucket: string;
@@ -53,9 +129,14 @@ export interface ResolvedConfig {
   s3SecretAccessKey: string;
   s3PublicUrl: string;
   s3PathPrefix: string;
+  s3KeyTemplate: string;
+  s3Immutable: boolean;
+  outputMode: OutputMode;
+  manifestPath: string; // Relative to the docs directory
   componentImport: string;
   componentName: string;
   pattern: string;
+  report?: ReportOptions; // Run report, from --report
   force: boolean;
   dryRun: boolean;
   verbose: boolean;
@@ -64,10 +145,13 @@ export interface ResolvedConfig {
 /**
  * Resolve configuration from CLI options, environment variables, and YAML
  * Priority: CLI flags > Environment variables > YAML config > Defaults
+ * @param requireS3 - Fail when S3 settings are missing; commands that never touch S3
+ * turn this off and get empty S3 fields instead
  */
 export async function resolveConfig(
   options: GenerateOptions,
-  directory: string
+  directory: string,
+  { requireS3 = true }: { requireS3?: boolean } = {}
 ): Promise<ResolvedConfig> {
   // Load YAML config
   const yamlConfig = await loadSpeakerConfig(directory);
@@ -88,6 +172,12 @@ export async function resolveConfig(
     voiceNames = Object.values(yamlConfig.voices);
   }
 
+  // Chunk cache is disabled with --no-cache (commander sets cache: false)
+  const cacheDir =
+    options.cache === false ? undefined : options.cacheDir || yamlConfig.cache?.dir;
+
+  const immutable = options.immutable || yamlConfig.s3?.immutable || false;
+
   // Resolve all config values with priority: CLI > env
   const fishApiKey = options.apiKey || process.env.FISH_API_KEY;
   const s3Bucket = options.s3Bucket || process.env.S3_BUCKET;
@@ -95,38 +185,109 @@ export async function resolveConfig(
   const s3SecretAccessKey = options.s3SecretAccessKey || process.env.S3_SECRET_ACCESS_KEY;
   const s3PublicUrl = options.s3PublicUrl || process.env.S3_PUBLIC_URL;
 
-  // Validate only S3 fields (always required)
+  // Validate only S3 fields (required by every command that uses S3)
   const missing: string[] = [];
   if (!s3Bucket) missing.push('S3_BUCKET (--s3-bucket or env var)');
   if (!s3AccessKeyId) missing.push('S3_ACCESS_KEY_ID (--s3-access-key-id or env var)');
   if (!s3SecretAccessKey) missing.push('S3_SECRET_ACCESS_KEY (--s3-secret-access-key or env var)');
   if (!s3PublicUrl) missing.push('S3_PUBLIC_URL (--s3-public-url or env var)');
 
-  if (missing.length > 0) {
-    throw new Error(
+  if (requireS3 && missing.length > 0) {
+    throw new ConfigError(
       `Missing required configuration:\n  - ${missing.join('\n  - ')}\n\nSet these via CLI flags or environment variables.`
     );
   }
 
+  const provider = (options.provider ||
+    process.env.TTS_PROVIDER ||
+    yamlConfig.provider ||
+    'fish') as TTSProviderName;
+
   return {
+    // Provider selection (validated per command)
+    provider,
+    rateLimit: yamlConfig.rateLimits?.[provider],
+    concurrency: options.concurrency ?? yamlConfig.concurrency ?? 1,
+    maxFailures: options.failFast ? 1 : options.maxFailures ?? yamlConfig.maxFailures,
+
     // Optional fields
     fishApiKey,
+    openaiApiKey: options.openaiApiKey || process.env.OPENAI_API_KEY,
+    openaiBaseUrl:
+      options.openaiBaseUrl ||
+      process.env.OPENAI_BASE_URL ||
+      yamlConfig.openai?.baseUrl ||
+      'https://api.openai.com/v1',
+    openaiModel: options.openaiModel || yamlConfig.openai?.model || 'tts-1',
+    ttsCommand: options.ttsCommand || process.env.TTS_COMMAND || yamlConfig.command?.run,
+    ttsCommandMarkup: yamlConfig.command?.markup ?? 'none',
+    maxChunkChars:
+      options.maxChunkChars || yamlConfig.chunking?.maxChars || DEFAULT_MAX_CHUNK_CHARS,
+    audio: {
+      ...yamlConfig.audio,
+      ...(options.audioFormat && { format: options.audioFormat as AudioFormat }),
+      ...(options.audioBitrate && { bitrate: options.audioBitrate }),
+    },
+    postProcessing: yamlConfig.postProcessing
+      ? { ...DEFAULT_POST_PROCESSING, ...yamlConfig.postProcessing }
+      : null,
+    pricePerMillion: yamlConfig.pricing?.[provider] ?? DEFAULT_PRICES[provider] ?? 0,
+    budget: {
+      maxCharacters: options.maxCharacters ?? yamlConfig.budget?.maxCharacters,
+      maxCost: options.maxCost ?? yamlConfig.budget?.maxCost,
+      overBudget: (options.overBudget || yamlConfig.budget?.overBudget || 'abort') as OverBudgetAction,
+    },
+    cacheDir: cacheDir ? path.resolve(directory, cacheDir) : undefined,
+    cacheS3Prefix:
+      options.cache === false ? undefined : options.cacheS3Prefix || yamlConfig.cache?.s3Prefix,
     voiceIds,
     voiceNames,
+    defaultLocale: yamlConfig.defaultLocale,
+    locales: Object.entries(yamlConfig.locales ?? {}).map(([code, locale]) => ({
+      code,
+      pathPrefix: `${(locale?.path ?? code).replace(/^\.?\/+|\/+$/g, '')}/`,
+      voiceIds: Object.keys(locale?.voices ?? {}),
+      voiceNames: Object.values(locale?.voices ?? {}),
+    })),
+    extractionRules: {
+      ...DEFAULT_EXTRACTION_RULES,
+      ...yamlConfig.extraction,
+      // Component lead-ins extend the defaults rather than replacing them
+      components: {
+        ...DEFAULT_EXTRACTION_RULES.components,
+        ...yamlConfig.extraction?.components,
+      },
+    },
+    pronunciations: yamlConfig.pronunciations || {},
+    prosody: { ...DEFAULT_PROSODY, ...yamlConfig.prosody },
 
-    // Always required S3 fields
-    s3AccessKeyId: s3AccessKeyId!,
-    s3SecretAccessKey: s3SecretAccessKey!,
-    s3Bucket: s3Bucket!,
-    s3PublicUrl: s3PublicUrl!,
+    // S3 fields, required unless S3 is not used
+    s3AccessKeyId: s3AccessKeyId ?? '',
+    s3SecretAccessKey: s3SecretAccessKey ?? '',
+    s3Bucket: s3Bucket ?? '',
+    s3PublicUrl: s3PublicUrl ?? '',
     s3Region: options.s3Region || process.env.S3_REGION || 'us-east-1',
     s3Endpoint: options.s3Endpoint || process.env.S3_ENDPOINT,
     s3PathPrefix: options.s3PathPrefix || 'audio',
+    s3KeyTemplate:
+      options.s3KeyTemplate ||
+      process.env.S3_KEY_TEMPLATE ||
+      yamlConfig.s3?.keyTemplate ||
+      (immutable ? IMMUTABLE_KEY_TEMPLATE : DEFAULT_KEY_TEMPLATE),
+    s3Immutable: immutable,
+
+    // Output mode
+    outputMode: (options.output || yamlConfig.output?.mode || 'mdx') as OutputMode,
+    manifestPath: options.manifest || yamlConfig.output?.manifest || METADATA_FILENAME,
 
     // Component/pattern config
     componentImport: options.componentImport || yamlConfig.component?.import || '/snippets/audio-transcript.jsx',
     componentName: options.componentName || yamlConfig.component?.name || 'AudioTranscript',
     pattern: options.pattern || '**/*.mdx',
+    // Report paths are relative to the working directory, like other CI outputs
+    report: options.report
+      ? { file: path.resolve(options.report), format: inferReportFormat(options.report, options.reportFormat) }
+      : undefined,
     force: options.force || false,
     dryRun: options.dryRun || false,
     verbose: options.verbose || false,
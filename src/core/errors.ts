@@ -0,0 +1,55 @@
+/**
+ * Errors and Exit Codes
+ * How a command's outcome is reported to the shell or CI job running it
+ */
+
+import type { ExitCode } from '../types/index.js';
+
+/**
+ * Exit codes shared by every command
+ */
+export const EXIT_CODES = {
+  success: 0, // Everything done; skipped and deferred pages included
+  failed: 1, // Some files failed, or the run stopped on an unexpected error
+  configError: 2, // Invalid options or configuration; nothing was done
+  overBudget: 3, // Over budget with overBudget: abort; nothing was synthesized
+  outdated: 4, // check found pages whose narration needs generating
+} as const satisfies Record<string, ExitCode>;
+
+/**
+ * An error that ends a command with a specific exit code
+ */
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: ExitCode
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Missing or invalid options or configuration
+ */
+export class ConfigError extends CommandError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.configError);
+  }
+}
+
+/**
+ * A run over its character or cost budget, with overBudget: abort
+ */
+export class BudgetExceededError extends CommandError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.overBudget);
+  }
+}
+
+/**
+ * Exit code for an error that stopped a command
+ */
+export function getExitCode(error: unknown): ExitCode {
+  return error instanceof CommandError ? error.exitCode : EXIT_CODES.failed;
+}
@@ -0,0 +1,169 @@
+/**
+ * Cost Estimation
+ * Characters a run will send to the provider, what they cost and the budget they must fit
+ */
+
+import type { TTSProviderName } from '../types/index.js';
+
+/**
+ * List prices in USD per million characters, used unless `pricing:` overrides them
+ * Fish Audio and OpenAI's tts-1 both list $15; the command provider runs locally
+ */
+export const DEFAULT_PRICES: Record<TTSProviderName, number> = {
+  fish: 15,
+  openai: 15,
+  command: 0,
+};
+
+/**
+ * What to do when a run is over budget: fail before synthesizing anything,
+ * or generate the pages that fit and leave the rest for the next run
+ */
+export type OverBudgetAction = 'abort' | 'truncate';
+
+export const OVER_BUDGET_ACTIONS: readonly OverBudgetAction[] = ['abort', 'truncate'];
+
+/**
+ * Limits for one run
+ */
+export interface BudgetOptions {
+  maxCharacters?: number;
+  maxCost?: number; // USD
+  overBudget: OverBudgetAction;
+}
+
+/**
+ * Estimated usage of one page to be generated
+ */
+export interface PageEstimate {
+  file: string;
+  voices: number;
+  characters: number;
+  cost: number; // USD
+}
+
+/**
+ * Estimated usage of a run
+ */
+export interface RunEstimate {
+  pages: PageEstimate[]; // Pages to be generated, in run order
+  characters: number;
+  cost: number; // USD
+  pricePerMillion: number; // USD per million characters
+}
+
+/**
+ * Pages of a run split by the budget
+ */
+export interface BudgetCheck {
+  exceeded: string[]; // Limits the whole run goes over (empty when it fits)
+  within: PageEstimate[]; // Pages that fit, in run order
+  deferred: PageEstimate[]; // Pages left out when the run is truncated
+}
+
+/**
+ * Cost of some characters at a price per million
+ */
+function costOf(characters: number, pricePerMillion: number): number {
+  return (characters * pricePerMillion) / 1_000_000;
+}
+
+/**
+ * Format a cost in USD for display
+ */
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Estimate a run from the pages it will generate
+ * @param pages - Pages to be generated with their voices and character counts
+ * @param pricePerMillion - Provider price in USD per million characters
+ */
+export function estimateRun(
+  pages: Array<{ file: string; voiceIds: string[]; characters: number }>,
+  pricePerMillion: number
+): RunEstimate {
+  const estimates = pages.map((page) => ({
+    file: page.file,
+    voices: page.voiceIds.length,
+    characters: page.characters,
+    cost: costOf(page.characters, pricePerMillion),
+  }));
+  const characters = estimates.reduce((sum, page) => sum + page.characters, 0);
+
+  return { pages: estimates, characters, cost: costOf(characters, pricePerMillion), pricePerMillion };
+}
+
+/**
+ * One-line summary of a run's estimate
+ */
+export function summarizeEstimate(estimate: RunEstimate): string {
+  return (
+    `${estimate.pages.length} page(s) to generate: ${estimate.characters.toLocaleString('en-US')} characters, ` +
+    `~${formatCost(estimate.cost)} at ${formatCost(estimate.pricePerMillion)} per million`
+  );
+}
+
+/**
+ * Check a run against its budget
+ *
+ * Pages are taken in order until the next one would go over a limit, so a
+ * truncated run generates a prefix of its pages and the next run, which skips
+ * them as unchanged, picks up where it stopped.
+ */
+export function checkBudget(estimate: RunEstimate, budget: BudgetOptions): BudgetCheck {
+  const exceeded: string[] = [];
+  if (budget.maxCharacters !== undefined && estimate.characters > budget.maxCharacters) {
+    exceeded.push(
+      `${estimate.characters.toLocaleString('en-US')} characters is over the limit of ${budget.maxCharacters.toLocaleString('en-US')}`
+    );
+  }
+  if (budget.maxCost !== undefined && estimate.cost > budget.maxCost) {
+    exceeded.push(`${formatCost(estimate.cost)} is over the limit of ${formatCost(budget.maxCost)}`);
+  }
+
+  const within: PageEstimate[] = [];
+  let characters = 0;
+  for (const page of estimate.pages) {
+    characters += page.characters;
+    const fits =
+      (budget.maxCharacters === undefined || characters <= budget.maxCharacters) &&
+      (budget.maxCost === undefined || costOf(characters, estimate.pricePerMillion) <= budget.maxCost);
+    if (!fits) break;
+    within.push(page);
+  }
+
+  return { exceeded, within, deferred: estimate.pages.slice(within.length) };
+}
+
+/**
+ * Check the price and budget config
+ * @returns List of problems (empty when valid)
+ */
+export function validateBudget(budget: BudgetOptions, pricePerMillion: number): string[] {
+  const errors: string[] = [];
+
+  if (typeof pricePerMillion !== 'number' || !Number.isFinite(pricePerMillion) || pricePerMillion < 0) {
+    errors.push(`pricing must be a non-negative price in USD per million characters (got ${pricePerMillion})`);
+  }
+  if (
+    budget.maxCharacters !== undefined &&
+    (!Number.isInteger(budget.maxCharacters) || budget.maxCharacters < 0)
+  ) {
+    errors.push(`Max characters must be a non-negative integer (got ${budget.maxCharacters})`);
+  }
+  if (
+    budget.maxCost !== undefined &&
+    (typeof budget.maxCost !== 'number' || !Number.isFinite(budget.maxCost) || budget.maxCost < 0)
+  ) {
+    errors.push(`Max cost must be a non-negative amount in USD (got ${budget.maxCost})`);
+  }
+  if (!OVER_BUDGET_ACTIONS.includes(budget.overBudget)) {
+    errors.push(
+      `budget.overBudget must be one of: ${OVER_BUDGET_ACTIONS.join(', ')} (got "${budget.overBudget}")`
+    );
+  }
+
+  return errors;
+}
@@ -13,8 +13,14 @@ import remarkStringify from 'remark-stringify';
 import remarkMdxRemoveEsm from 'remark-mdx-remove-esm';
 import remarkUnlink from 'remark-unlink';
 import { visit, SKIP } from 'unist-util-visit';
+import { toString } from 'mdast-util-to-string';
+import slugify from '@sindresorhus/slugify';
 import type { Node } from 'unist';
+import type { Heading } from 'mdast';
 import matter from 'gray-matter';
+import { remarkSpeechRules, DEFAULT_EXTRACTION_RULES, type ExtractionRules } from './speech-rules.js';
+import { remarkSpeechMarkers, findSkippedRanges } from './speech-markers.js';
+import { remarkProsodyMarks } from './prosody.js';
 
 /**
  * Custom remark plugin to remove MDX JSX components
@@ -39,14 +45,32 @@ function remarkRemoveJSX() {
 }
 
 /**
- * Extract clean text from MDX file for TTS
- * @param mdxContent - Raw MDX file content
- * @returns Cleaned text suitable for TTS
+ * A part of a page narrated as one chapter
  */
-export async function extractCleanText(mdxContent: string): Promise<string> {
-  // Remove frontmatter using gray-matter
-  const { content } = matter(mdxContent);
+export interface TextSection {
+  title: string | null; // Heading text, null for the text before the first section heading
+  anchor: string | null; // Heading anchor, as generated for the rendered page
+  text: string; // Clean text, starting with the heading (with prosody marks when requested)
+}
+
+/**
+ * Heading depths that start a new section
+ */
+const SECTION_DEPTHS = [2, 3];
 
+/**
+ * Deepest heading level the docs site gives an anchor
+ */
+const MAX_ANCHOR_DEPTH = 4;
+
+/**
+ * Convert MDX content without frontmatter into clean text
+ */
+async function toCleanText(
+  content: string,
+  rules: ExtractionRules,
+  prosody = false
+): Promise<string> {
   // Process with remark pipeline
   const processor = unified()
     .use(remarkParse)
@@ -54,7 +78,10 @@ export async function extractCleanText(mdxContent: string): Promise<string> {
     .use(remarkMdx) // Parse MDX (JSX, imports, etc.)
     .use(remarkFrontmatter)
     .use(remarkMdxRemoveEsm) // Remove import/export statements
-    .use(remarkRemoveJSX) // Remove JSX components
+    .use(remarkSpeechMarkers) // Apply skip regions and spoken rewrites
+    .use(remarkSpeechRules, rules) // Make code, tables, lists and callouts speakable
+    .use(remarkRemoveJSX) // Remove remaining JSX components
+    .use(prosody ? [remarkProsodyMarks] : []) // Mark emphasis and pauses for SSML
     .use(remarkUnlink) // Remove links/images (keeps text)
     .use(stripMarkdown) // Convert to plain text
     .use(remarkStringify);
@@ -70,11 +97,149 @@ export async function extractCleanText(mdxContent: string): Promise<string> {
   cleanedText = cleanedText.replace(/,(\s*,)+/g, ',');
   cleanedText = cleanedText.replace(/:\s*,+\s*/g, ': ');
   cleanedText = cleanedText.replace(/:\s*\./g, '.');
+  cleanedText = cleanedText.replace(/([^\s]) {2,}/g, '$1 '); // Gaps left by removed inline components
   cleanedText = cleanedText.replace(/\n{3,}/g, '\n\n');
 
   return cleanedText.trim();
 }
 
+/**
+ * Build a heading anchor the way Mintlify renders it: slugify the percent-encoded
+ * title, then decode it and drop the punctuation and emoji its Heading component strips
+ * Repeated headings get -2, -3, ... suffixes in page order
+ */
+function createSlugger(): (title: string) => string {
+  const seen = new Map<string, number>();
+
+  return (title) => {
+    const encoded = encodeURIComponent(title.toLowerCase().trim().replace(/\s+/g, '-'));
+    const base = /%[0-9A-F]{2}/.test(encoded)
+      ? slugify(encoded, { decamelize: false, preserveCharacters: ['%', '_'], lowercase: false })
+      : slugify(encoded, { decamelize: false, preserveCharacters: ['_'] });
+
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    let id = base;
+    if (count > 0) {
+      let suffix = count + 1;
+      while (seen.has(`${base}-${suffix}`)) suffix++;
+      id = `${base}-${suffix}`;
+      seen.set(id, 1);
+    }
+
+    return decodeURIComponent(id)
+      .replace(/[?,;:!'"()[\]{}]/g, '')
+      .replace(/\p{Emoji_Modifier}|\p{Emoji_Modifier_Base}|\p{Emoji_Presentation}|\p{Extended_Pictographic}|[\u200D\uFE0E\uFE0F]/gu, '');
+  };
+}
+
+/**
+ * Get a heading's text as written in the source, before speech rules rewrite it
+ */
+function getHeadingTitle(heading: Heading): string {
+  return toString(heading, { includeImageAlt: false, includeHtml: false }).trim();
+}
+
+/**
+ * Check whether a section matches an exclude selector
+ * "#anchor" matches the heading anchor, anything else the heading text (case-insensitive)
+ */
+function matchesSelector(selector: string, title: string, anchor: string): boolean {
+  return selector.startsWith('#')
+    ? selector.slice(1) === anchor
+    : selector.trim().toLowerCase() === title.toLowerCase();
+}
+
+/**
+ * Options for extracting sections
+ */
+export interface ExtractOptions {
+  rules?: ExtractionRules; // How code, tables, lists and components are spoken
+  exclude?: string[]; // Selectors of sections to drop, with their subsections ("#anchor" or heading text)
+  prosody?: boolean; // Keep emphasis and pauses as prosody marks in the text
+}
+
+/**
+ * Extract clean text from MDX file for TTS, split at H2/H3 headings
+ * Sections without any text are dropped
+ * @param mdxContent - Raw MDX file content
+ * @param options - Extraction rules, excluded sections and prosody marks
+ * @returns Sections in page order
+ */
+export async function extractSections(
+  mdxContent: string,
+  options: ExtractOptions = {}
+): Promise<TextSection[]> {
+  const { rules = DEFAULT_EXTRACTION_RULES, exclude = [], prosody = false } = options;
+
+  // Remove frontmatter using gray-matter
+  const { content } = matter(mdxContent);
+
+  // Split the source at top-level section headings
+  const ast = unified().use(remarkParse).use(remarkGfm).use(remarkMdx).parse(content);
+  // Headings inside skipped regions stay within the section before them
+  const skipped = findSkippedRanges(ast);
+  const allHeadings = ast.children.filter(
+    (node): node is Heading => node.type === 'heading' && SECTION_DEPTHS.includes(node.depth)
+  );
+  const isSkipped = (node: Heading) =>
+    skipped.some(([start, end]) => node.position!.start.offset! >= start && node.position!.start.offset! < end);
+  const headings = allHeadings.filter((node) => !isSkipped(node));
+  const boundaries = headings.map((node) => node.position!.start.offset!);
+
+  // Anchors are counted for every heading on the page, in the order the docs site numbers them
+  const slug = createSlugger();
+  const anchors = new Map<Heading, string>();
+  visit(ast, 'heading', (node) => {
+    if (node.depth <= MAX_ANCHOR_DEPTH) {
+      anchors.set(node, slug(getHeadingTitle(node)));
+    }
+  });
+
+  const sections: TextSection[] = [];
+  let excludedDepth: number | null = null; // Depth of the excluded heading whose subsections are skipped
+
+  for (const [index, start] of [0, ...boundaries].entries()) {
+    const end = boundaries[index] ?? content.length;
+    const text = await toCleanText(content.slice(start, end), rules, prosody);
+    const heading = headings[index - 1];
+    const title = heading ? getHeadingTitle(heading) : null;
+    const anchor = heading ? anchors.get(heading)! : null;
+
+    const depth = heading?.depth;
+    if (depth !== undefined && excludedDepth !== null && depth <= excludedDepth) {
+      excludedDepth = null;
+    }
+    if (
+      depth !== undefined &&
+      excludedDepth === null &&
+      exclude.some((selector) => matchesSelector(selector, title!, anchor!))
+    ) {
+      excludedDepth = depth;
+    }
+
+    if (text && excludedDepth === null) {
+      sections.push({ title, anchor, text });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Extract clean text from MDX file for TTS
+ * @param mdxContent - Raw MDX file content
+ * @param rules - How code, tables, lists and components are spoken
+ * @returns Cleaned text suitable for TTS
+ */
+export async function extractCleanText(
+  mdxContent: string,
+  rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+): Promise<string> {
+  const sections = await extractSections(mdxContent, { rules });
+  return sections.map((section) => section.text).join('\n\n');
+}
+
 /**
  * Find the end position of frontmatter in MDX content
  * @param content - MDX file content
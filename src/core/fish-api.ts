@@ -5,11 +5,14 @@
 
 import { FishAudioClient as FishAudioSDK } from 'fish-audio';
 import pRetry from 'p-retry';
+import type { AudioEncoding, FishAudioRequest, TTSProvider } from '../types/index.js';
 
 /**
  * Fish Audio Client
  */
-export class FishAudioClient {
+export class FishAudioClient implements TTSProvider {
+  readonly name = 'fish' as const;
+  readonly markup = 'none' as const;
   private sdk: FishAudioSDK;
 
   constructor(apiKey: string) {
@@ -17,18 +20,33 @@ export class FishAudioClient {
   }
 
   /**
-   * Generate TTS audio as MP3
+   * Generate TTS audio
    * @param text - Text to convert to speech
    * @param voiceId - Fish Audio voice reference ID
-   * @returns Audio buffer (MP3)
+   * @param encoding - MP3 or Opus, with optional bitrate and sample rate
+   * @param onRetry - Called with a message when a failed request is retried (default: console.warn)
+   * @returns Audio buffer in the requested format
    */
-  async generateTTS(text: string, voiceId: string): Promise<Buffer> {
+  async generateTTS(
+    text: string,
+    voiceId: string,
+    encoding: AudioEncoding = { format: 'mp3' },
+    onRetry: (message: string) => void = (message) => console.warn(message)
+  ): Promise<Buffer> {
+    const request: FishAudioRequest = {
+      text,
+      reference_id: voiceId,
+      format: encoding.format === 'opus' ? 'opus' : 'mp3',
+      ...(encoding.sampleRate !== undefined && { sample_rate: encoding.sampleRate }),
+      ...(encoding.bitrate !== undefined &&
+        (encoding.format === 'opus'
+          ? { opus_bitrate: encoding.bitrate as FishAudioRequest['opus_bitrate'] }
+          : { mp3_bitrate: encoding.bitrate as FishAudioRequest['mp3_bitrate'] })),
+    };
+
     return pRetry(
       async () => {
-        const audio = await this.sdk.textToSpeech.convert({
-          text,
-          reference_id: voiceId,
-        });
+        const audio = await this.sdk.textToSpeech.convert(request);
 
         // Convert Response to Buffer
         const buffer = Buffer.from(await new Response(audio).arrayBuffer());
@@ -36,34 +54,12 @@ export class FishAudioClient {
       },
       {
         retries: 3,
-        onFailedAttempt: (error) => {
-          console.warn(
-            `TTS attempt ${error.attemptNumber} failed. ${error.retriesLeft} retries left.`
-          );
+        onFailedAttempt: ({ error, attemptNumber, retriesLeft }) => {
+          onRetry(`TTS attempt ${attemptNumber} failed (${error.message}). ${retriesLeft} retries left.`);
         },
       }
     );
   }
-
-  /**
-   * Generate TTS for multiple voices in parallel
-   * @param text - Text to convert to speech
-   * @param voiceIds - Array of voice IDs
-   * @returns Map of voice ID to audio buffer
-   */
-  async generateMultipleVoices(
-    text: string,
-    voiceIds: string[]
-  ): Promise<Map<string, Buffer>> {
-    const results = await Promise.all(
-      voiceIds.map(async (voiceId) => {
-        const buffer = await this.generateTTS(text, voiceId);
-        return { voiceId, buffer };
-      })
-    );
-
-    return new Map(results.map((r) => [r.voiceId, r.buffer]));
-  }
 }
 
 /**
@@ -6,9 +6,9 @@
 import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
-import type { MetadataFile, AudioMetadata } from '../types/index.js';
+import type { MetadataFile, AudioMetadata, Voice } from '../types/index.js';
 
-const METADATA_FILENAME = '.audio-metadata.json';
+export const METADATA_FILENAME = '.audio-metadata.json';
 
 /**
  * Generate SHA-256 hash of content
@@ -19,13 +19,31 @@ export function generateHash(content: string): string {
   return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
 }
 
+/**
+ * Generate the content hash of the text each voice speaks
+ * When every voice speaks the same text, this equals the hash of that text
+ * @param texts - Voice ID and spoken text pairs, in voice order
+ * @returns Hex-encoded hash string
+ */
+export function generateSpeechHash(texts: Array<[voiceId: string, text: string]>): string {
+  const distinct = new Set(texts.map(([, text]) => text));
+  if (distinct.size <= 1) {
+    return generateHash(texts[0]?.[1] ?? '');
+  }
+  return generateHash(texts.map(([voiceId, text]) => `${voiceId}\n${text}`).join('\n\n'));
+}
+
 /**
  * Load metadata file from directory
  * @param directory - Directory containing metadata file
+ * @param filename - Metadata file name, relative to directory
  * @returns Metadata object or empty object if file doesn't exist
  */
-export async function loadMetadata(directory: string): Promise<MetadataFile> {
-  const metadataPath = path.join(directory, METADATA_FILENAME);
+export async function loadMetadata(
+  directory: string,
+  filename: string = METADATA_FILENAME
+): Promise<MetadataFile> {
+  const metadataPath = path.join(directory, filename);
 
   try {
     const content = await fs.readFile(metadataPath, 'utf-8');
@@ -41,15 +59,31 @@ export async function loadMetadata(directory: string): Promise<MetadataFile> {
 
 /**
  * Save metadata file to directory
+ * Entries are written in sorted order so the file diffs cleanly
  * @param directory - Directory to save metadata file
  * @param metadata - Metadata object to save
+ * @param filename - Metadata file name, relative to directory
  */
 export async function saveMetadata(
   directory: string,
-  metadata: MetadataFile
+  metadata: MetadataFile,
+  filename: string = METADATA_FILENAME
 ): Promise<void> {
-  const metadataPath = path.join(directory, METADATA_FILENAME);
-  await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+  const metadataPath = path.join(directory, filename);
+  await fs.writeFile(metadataPath, serializeMetadata(metadata), 'utf-8');
+}
+
+/**
+ * Serialize metadata as stable, pretty-printed JSON
+ * @param metadata - Metadata object
+ * @returns JSON string with entries sorted by file path
+ */
+export function serializeMetadata(metadata: MetadataFile): string {
+  const sorted: MetadataFile = {};
+  for (const filePath of Object.keys(metadata).sort()) {
+    sorted[filePath] = metadata[filePath]!;
+  }
+  return JSON.stringify(sorted, null, 2) + '\n';
 }
 
 /**
@@ -89,12 +123,20 @@ export function updateMetadata(
   metadata: MetadataFile,
   filePath: string,
   hash: string,
-  voices: Array<{ id: string; name: string; url: string }>
+  voices: Voice[]
 ): void {
   metadata[filePath] = {
     hash,
     lastUpdated: new Date().toISOString(),
-    voices: voices.map(v => ({ id: v.id, name: v.name, url: v.url })),
+    voices: voices.map(v => ({
+      id: v.id,
+      name: v.name,
+      url: v.url,
+      transcriptUrl: v.transcriptUrl,
+      chapters: v.chapters,
+      duration: v.duration,
+      sources: v.sources,
+    })),
   };
 }
 
@@ -1,6 +1,7 @@
 /**
  * MDX Component Injector
- * Injects audio player components into MDX files using AST manipulation
+ * Injects, updates and removes audio player components using position-accurate
+ * edits derived from the MDX AST, leaving the rest of the file byte-for-byte intact
  */
 
 import { unified } from 'unified';
@@ -8,9 +9,7 @@ import remarkParse from 'remark-parse';
 import remarkMdx from 'remark-mdx';
 import remarkFrontmatter from 'remark-frontmatter';
 import remarkGfm from 'remark-gfm';
-import remarkStringify from 'remark-stringify';
-import { visit, SKIP } from 'unist-util-visit';
-import type { Root, Node } from 'mdast';
+import type { Root, RootContent } from 'mdast';
 import type { Voice } from '../types/index.js';
 
 /**
@@ -43,7 +42,7 @@ export async function extractExistingAudioData(
     // Look for MDX comments with hash {/* speak-mintlify-hash: abc123 */}
     if (node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') {
       const value = node.value || '';
-      const hashMatch = value.match(/\/\*\s*speak-mintlify-hash:\s*([a-f0-9]+)\s*\*\//);
+      const hashMatch = value.match(/^\s*\/\*\s*speak-mintlify-hash:\s*([a-f0-9]+)\s*\*\/\s*$/);
       if (hashMatch) {
         foundHash = hashMatch[1]!;
       }
@@ -98,222 +97,445 @@ export async function extractExistingAudioData(
 }
 
 /**
- * Check if MDX content already has the audio component
+ * Regex matching the hash comment inside an MDX expression
  */
-export function hasAudioComponent(
-  content: string,
-  componentName: string
-): boolean {
-  const componentRegex = new RegExp(`<${componentName}[^>]*`, 'g');
-  return componentRegex.test(content);
-}
+const HASH_COMMENT_REGEX = /^\s*\/\*\s*speak-mintlify-hash:\s*[a-f0-9]*\s*\*\/\s*$/;
 
 /**
- * Find the position to insert import and component using AST
- * Returns { importPos, componentPos } - line numbers where to insert
+ * A replacement of the original content between two offsets
  */
-async function findInsertionPoints(content: string): Promise<{ importPos: number; componentPos: number }> {
-  const ast = await parseMDX(content);
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
 
-  let frontmatterEndLine = 0;
-  let lastImportEndLine = 0;
-  let firstContentLine = 0;
+/**
+ * Nodes in a page that belong to the audio component
+ */
+interface AudioNodes {
+  components: Array<{ node: any; parent: any }>; // Every occurrence, in document order
+  hashComments: Array<{ node: any; parent: any }>;
+  imports: Array<{ declaration: any; specifier: any }>; // Imports of the component
+  lastEsmEnd: number | null; // End offset of the last import/export block
+  frontmatterEnd: number | null;
+}
 
-  function walkTree(node: any) {
-    // Find frontmatter end
+/**
+ * Collect component occurrences, hash comments and imports from the AST
+ */
+function findAudioNodes(ast: Root, componentName: string): AudioNodes {
+  const result: AudioNodes = {
+    components: [],
+    hashComments: [],
+    imports: [],
+    lastEsmEnd: null,
+    frontmatterEnd: null,
+  };
+
+  function walk(node: any, parent: any) {
     if (node.type === 'yaml' || node.type === 'toml') {
-      if (node.position?.end?.line) {
-        frontmatterEndLine = node.position.end.line;
-      }
+      result.frontmatterEnd = node.position.end.offset;
     }
 
-    // Find import/export statements (mdxjsEsm nodes)
     if (node.type === 'mdxjsEsm') {
-      if (node.position?.end?.line) {
-        lastImportEndLine = Math.max(lastImportEndLine, node.position.end.line);
+      result.lastEsmEnd = node.position.end.offset;
+      for (const declaration of node.data?.estree?.body ?? []) {
+        if (declaration.type !== 'ImportDeclaration') continue;
+        for (const specifier of declaration.specifiers) {
+          if (specifier.local?.name === componentName) {
+            result.imports.push({ declaration, specifier });
+          }
+        }
       }
     }
 
-    // Find first actual content node (heading, paragraph, or MDX component)
     if (
-      !firstContentLine &&
-      (node.type === 'heading' || node.type === 'paragraph' || node.type === 'mdxJsxFlowElement') &&
-      node.position?.start?.line
+      (node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression') &&
+      HASH_COMMENT_REGEX.test(node.value || '')
     ) {
-      firstContentLine = node.position.start.line;
+      result.hashComments.push({ node, parent });
     }
 
-    // Recursively visit children
-    if (node.children && Array.isArray(node.children)) {
-      for (const child of node.children) {
-        walkTree(child);
-      }
+    if (
+      (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') &&
+      node.name === componentName
+    ) {
+      result.components.push({ node, parent });
+      return; // Nothing inside the component belongs to the page
+    }
+
+    for (const child of node.children ?? []) {
+      walk(child, node);
     }
   }
 
-  walkTree(ast);
+  walk(ast, null);
+  return result;
+}
 
-  // Import position: after last import, or after frontmatter
-  const importPos = lastImportEndLine > 0 ? lastImportEndLine : frontmatterEndLine;
+/**
+ * Get the start offset of the line containing an offset
+ */
+function lineStart(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1;
+}
 
-  // Component position: after all imports, before first content
-  const componentPos = firstContentLine > 0 ? firstContentLine - 1 : importPos;
+/**
+ * Get the offset just past the newline ending the line containing an offset
+ */
+function nextLineStart(content: string, offset: number): number {
+  const newline = content.indexOf('\n', offset);
+  return newline === -1 ? content.length : newline + 1;
+}
 
-  return { importPos, componentPos };
+/**
+ * Check whether the line starting at an offset is blank
+ */
+function isBlankLine(content: string, start: number): boolean {
+  return content.slice(start, nextLineStart(content, start)).trim() === '';
 }
 
 /**
- * Inject audio component into MDX content
+ * Build deletion edits for a set of ranges
+ *
+ * Ranges that occupy whole lines are widened to those lines and merged with
+ * adjacent ones; when a merged block sat between two blank lines, one of them
+ * is removed too so no double blank line is left behind.
  */
-export async function injectAudioComponent(
-  mdxContent: string,
-  voices: Voice[],
-  hash: string,
-  options: {
-    componentImport?: string;
-    componentName?: string;
-  } = {}
-): Promise<string> {
-  const {
-    componentImport = '/snippets/audio-transcript.jsx',
-    componentName = 'AudioTranscript',
-  } = options;
+function removalEdits(content: string, ranges: Array<[number, number]>): TextEdit[] {
+  const inline: TextEdit[] = [];
+  const blocks: Array<[number, number]> = [];
+
+  for (const [start, end] of ranges) {
+    const from = lineStart(content, start);
+    const to = nextLineStart(content, end);
+    const ownsLines =
+      content.slice(from, start).trim() === '' && content.slice(end, to).trim() === '';
+
+    if (ownsLines) {
+      blocks.push([from, to]);
+    } else {
+      inline.push({ start, end, text: '' });
+    }
+  }
 
-  const lines = mdxContent.split('\n');
-
-  // Check if import already exists
-  const importStatement = `import { ${componentName} } from '${componentImport}';`;
-  const hasImport = lines.some(line => line.includes(`import { ${componentName} }`));
-
-  // Check if component already exists
-  if (hasAudioComponent(mdxContent, componentName)) {
-    // Check if component is correctly placed (not nested in another component)
-    // by looking for it at the top level after imports
-    const lines = mdxContent.split('\n');
-    let inOtherComponent = false;
-    let componentStart = -1;
-    let componentEnd = -1;
-    let hashLine = -1;
-    let lastImportLine = -1;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]!.trim();
-
-      // Track imports
-      if (line.startsWith('import ')) {
-        lastImportLine = i;
-      }
+  // Merge whole-line blocks that touch or overlap
+  blocks.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const block of blocks) {
+    const last = merged[merged.length - 1];
+    if (last && block[0] <= last[1]) {
+      last[1] = Math.max(last[1], block[1]);
+    } else {
+      merged.push([...block]);
+    }
+  }
 
-      // Track if we're inside another component
-      if (line.match(/^<[A-Z]\w+/) && !line.includes(`<${componentName}`)) {
-        inOtherComponent = true;
-      }
-      if (inOtherComponent && line.match(/^<\/[A-Z]\w+/)) {
-        inOtherComponent = false;
-      }
+  const edits = merged.map(([from, to]): TextEdit => {
+    const previousLine = from > 0 ? lineStart(content, from - 1) : -1;
+    const blankBefore = previousLine >= 0 && isBlankLine(content, previousLine);
+    const blankAfter = to >= content.length || isBlankLine(content, to);
 
-      // Find hash comment
-      if (line.includes('speak-mintlify-hash:')) {
-        hashLine = i;
-      }
+    return { start: blankBefore && blankAfter ? previousLine : from, end: to, text: '' };
+  });
 
-      // Find component start
-      if (lines[i]!.includes(`<${componentName}`)) {
-        componentStart = i;
-      }
+  return [...edits, ...inline];
+}
 
-      // Find component end
-      if (componentStart >= 0 && lines[i]!.includes('/>')) {
-        componentEnd = i;
-        break;
-      }
+/**
+ * Build the edit that drops one component import (a whole statement or one specifier)
+ */
+function importRemovalEdits(
+  content: string,
+  imports: Array<{ declaration: any; specifier: any }>
+): TextEdit[] {
+  const statements: Array<[number, number]> = [];
+  const edits: TextEdit[] = [];
+
+  for (const { declaration, specifier } of imports) {
+    if (declaration.specifiers.length === 1) {
+      statements.push([declaration.start, declaration.end]);
+      continue;
     }
 
-    // If component is nested, remove it and re-insert at correct position
-    if (componentStart >= 0 && componentEnd >= 0) {
-      // Remove old hash and component
-      if (hashLine >= 0 && hashLine < componentStart) {
-        lines.splice(hashLine, componentEnd - hashLine + 1);
-      } else {
-        lines.splice(componentStart, componentEnd - componentStart + 1);
-      }
+    const named = declaration.specifiers.filter((s: any) => s.type === 'ImportSpecifier');
+    if (specifier.type === 'ImportSpecifier' && named.length === 1) {
+      // `import Default, { Component } from` → `import Default from`
+      const braces = content.slice(specifier.start).indexOf('}') + specifier.start + 1;
+      const comma = content.lastIndexOf(',', specifier.start);
+      edits.push({ start: comma, end: braces, text: '' });
+      continue;
+    }
 
-      // Re-insert at correct position (after imports)
-      const insertPos = lastImportLine + 1;
-      const voicesFormatted = JSON.stringify(voices, null, 2)
-        .split('\n')
-        .map((line, idx) => (idx === 0 ? line : '  ' + line))
-        .join('\n');
+    // Drop the specifier together with one adjoining comma
+    const after = /^\s*,\s*/.exec(content.slice(specifier.end));
+    if (after) {
+      edits.push({ start: specifier.start, end: specifier.end + after[0].length, text: '' });
+    } else {
+      const before = /\s*,\s*$/.exec(content.slice(0, specifier.start))!;
+      edits.push({ start: specifier.start - before[0].length, end: specifier.end, text: '' });
+    }
+  }
+
+  return [...removalEdits(content, statements), ...edits];
+}
 
-      const newHashComment = `{/* speak-mintlify-hash: ${hash} */}`;
-      const newComponent = `<${componentName} voices={${voicesFormatted}} />`;
+/**
+ * Apply non-overlapping edits to the original content
+ * Edits are applied back to front; at equal offsets deletions go before insertions
+ */
+function applyEdits(content: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort(
+    (a, b) => b.start - a.start || b.end - b.start - (a.end - a.start)
+  );
 
-      lines.splice(insertPos, 0, '', newHashComment, newComponent);
+  let result = content;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
 
-      return lines.join('\n');
-    }
+/**
+ * Build the edit inserting the component import after existing imports or frontmatter
+ */
+function importInsertionEdit(nodes: AudioNodes, importStatement: string): TextEdit {
+  if (nodes.lastEsmEnd !== null) {
+    return { start: nodes.lastEsmEnd, end: nodes.lastEsmEnd, text: `\n${importStatement}` };
+  }
+  if (nodes.frontmatterEnd !== null) {
+    return { start: nodes.frontmatterEnd, end: nodes.frontmatterEnd, text: `\n\n${importStatement}` };
+  }
+  return { start: 0, end: 0, text: `${importStatement}\n\n` };
+}
+
+/**
+ * Build the edit inserting a block before the first content node of the page
+ * @param skip - Root children that are being removed and must not anchor the block
+ */
+function blockInsertionEdit(
+  content: string,
+  ast: Root,
+  block: string,
+  skip: Set<RootContent>
+): TextEdit {
+  const first = ast.children.find(
+    (node) =>
+      node.type !== 'yaml' &&
+      (node.type as string) !== 'toml' &&
+      node.type !== 'mdxjsEsm' &&
+      !skip.has(node)
+  );
+
+  if (first?.position) {
+    const start = first.position.start.offset!;
+    return { start, end: start, text: `${block}\n\n` };
   }
 
-  // Find insertion points using AST
-  const { importPos, componentPos } = await findInsertionPoints(mdxContent);
+  // Page has no content: append after everything else
+  const separator = content === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+  return { start: content.length, end: content.length, text: `${separator}${block}\n` };
+}
 
-  // Format voices with proper indentation
+/**
+ * Format the component with its voices prop
+ */
+function formatComponent(componentName: string, voices: Voice[]): string {
   const voicesFormatted = JSON.stringify(voices, null, 2)
     .split('\n')
     .map((line, idx) => (idx === 0 ? line : '  ' + line))
     .join('\n');
 
-  const hashComment = `{/* speak-mintlify-hash: ${hash} */}`;
-  const componentCode = `<${componentName} voices={${voicesFormatted}} />`;
+  return `<${componentName} voices={${voicesFormatted}} />`;
+}
 
-  // Insert import if not exists
-  if (!hasImport) {
-    lines.splice(importPos, 0, importStatement);
+/**
+ * Check whether a component element has a voices prop
+ */
+function hasVoicesProp(node: any): boolean {
+  return (node.attributes ?? []).some(
+    (attribute: any) => attribute.type === 'mdxJsxAttribute' && attribute.name === 'voices'
+  );
+}
+
+/**
+ * Insert or update the audio component in a page
+ *
+ * The first top-level component is updated in place; any other occurrence
+ * (nested or duplicated) and stray hash comments are removed. Without a
+ * top-level component, one is inserted before the first content node.
+ */
+async function upsertComponent(
+  mdxContent: string,
+  component: string,
+  hashComment: string | null,
+  options: {
+    componentImport: string;
+    componentName: string;
+    replaceExisting: (node: any) => boolean; // Whether to rewrite the kept component
   }
+): Promise<string> {
+  const { componentImport, componentName } = options;
+  const ast = await parseMDX(mdxContent);
+  const nodes = findAudioNodes(ast, componentName);
+  const edits: TextEdit[] = [];
+
+  const kept = nodes.components.find(({ parent }) => parent === ast);
+  const keptIndex = kept ? ast.children.indexOf(kept.node) : -1;
+  const previous = keptIndex > 0 ? ast.children[keptIndex - 1] : undefined;
+  const keptHash = nodes.hashComments.find(({ node }) => node === previous);
+
+  // Remove stray components and hash comments
+  const removed = [
+    ...nodes.components.filter((entry) => entry !== kept),
+    ...nodes.hashComments.filter((entry) => entry !== keptHash || !hashComment),
+  ];
+  edits.push(
+    ...removalEdits(
+      mdxContent,
+      removed.map(({ node }) => [node.position.start.offset, node.position.end.offset])
+    )
+  );
 
-  // Insert component (adjust position if we added import)
-  const adjustedComponentPos = hasImport ? componentPos : componentPos + 1;
+  if (kept) {
+    // Update in place
+    const start = kept.node.position.start.offset;
+    if (options.replaceExisting(kept.node)) {
+      edits.push({ start, end: kept.node.position.end.offset, text: component });
+    }
+    if (hashComment && keptHash) {
+      const hashNode = keptHash.node;
+      edits.push({
+        start: hashNode.position.start.offset,
+        end: hashNode.position.end.offset,
+        text: hashComment,
+      });
+    } else if (hashComment) {
+      edits.push({ start, end: start, text: `${hashComment}\n` });
+    }
+  } else {
+    const block = hashComment ? `${hashComment}\n${component}` : component;
+    const skip = new Set<RootContent>(removed.map(({ node }) => node));
+    edits.push(blockInsertionEdit(mdxContent, ast, block, skip));
+  }
 
-  // Add blank line before component if needed
-  if (lines[adjustedComponentPos - 1]?.trim() !== '') {
-    lines.splice(adjustedComponentPos, 0, '');
+  if (nodes.imports.length === 0) {
+    edits.push(
+      importInsertionEdit(nodes, `import { ${componentName} } from '${componentImport}';`)
+    );
   }
 
-  // Insert hash comment and component
-  lines.splice(adjustedComponentPos, 0, hashComment);
-  lines.splice(adjustedComponentPos + 1, 0, componentCode);
+  return applyEdits(mdxContent, edits);
+}
 
-  // Add blank line after component if needed
-  if (lines[adjustedComponentPos + 2]?.trim() !== '') {
-    lines.splice(adjustedComponentPos + 2, 0, '');
-  }
+/**
+ * Check if MDX content already has the audio component
+ */
+export function hasAudioComponent(
+  content: string,
+  componentName: string
+): boolean {
+  const componentRegex = new RegExp(`<${componentName}[\\s/>]`);
+  return componentRegex.test(content);
+}
 
-  return lines.join('\n');
+/**
+ * Inject audio component into MDX content
+ * Updates an existing component and hash in place; running it again with the
+ * same voices and hash returns the content unchanged
+ */
+export async function injectAudioComponent(
+  mdxContent: string,
+  voices: Voice[],
+  hash: string,
+  options: {
+    componentImport?: string;
+    componentName?: string;
+  } = {}
+): Promise<string> {
+  const {
+    componentImport = '/snippets/audio-transcript.jsx',
+    componentName = 'AudioTranscript',
+  } = options;
+
+  return upsertComponent(
+    mdxContent,
+    formatComponent(componentName, voices),
+    `{/* speak-mintlify-hash: ${hash} */}`,
+    { componentImport, componentName, replaceExisting: () => true }
+  );
+}
+
+/**
+ * Inject a manifest-driven audio component into MDX content
+ * The component looks up its voices in the manifest at runtime, so an existing
+ * top-level component is left as it is, unless it still has an inline voices
+ * prop (from mdx mode) that the player would prefer over the manifest
+ */
+export async function injectManifestComponent(
+  mdxContent: string,
+  manifestUrl: string,
+  options: {
+    componentImport?: string;
+    componentName?: string;
+  } = {}
+): Promise<string> {
+  const {
+    componentImport = '/snippets/audio-transcript.jsx',
+    componentName = 'AudioTranscript',
+  } = options;
+
+  return upsertComponent(
+    mdxContent,
+    `<${componentName} manifest=${JSON.stringify(manifestUrl)} />`,
+    null,
+    { componentImport, componentName, replaceExisting: hasVoicesProp }
+  );
+}
+
+/**
+ * Remove the hash comment, keeping the component and its voices
+ * The next generate run sees no recorded hash and regenerates the page,
+ * while the page stays playable until then
+ * @param mdxContent - MDX content
+ * @param componentName - Name of the audio component
+ * @returns MDX content without the hash comment
+ */
+export async function clearAudioHash(
+  mdxContent: string,
+  componentName: string = 'AudioTranscript'
+): Promise<string> {
+  const ast = await parseMDX(mdxContent);
+  const nodes = findAudioNodes(ast, componentName);
+
+  const ranges = nodes.hashComments.map(
+    ({ node }): [number, number] => [node.position.start.offset, node.position.end.offset]
+  );
+
+  return applyEdits(mdxContent, removalEdits(mdxContent, ranges));
 }
 
 /**
  * Remove audio component from MDX content
+ * Removes every occurrence of the component, its import and the hash comment
  * @param mdxContent - MDX content
  * @param componentName - Name of the component to remove
  * @returns MDX content without audio component
  */
-export function removeAudioComponent(
+export async function removeAudioComponent(
   mdxContent: string,
   componentName: string = 'AudioTranscript'
-): string {
-  // Remove import statement
-  const importRegex = new RegExp(
-    `import\\s+\\{\\s*${componentName}\\s*\\}\\s+from\\s+['"][^'"]+['"];?\\s*`,
-    'g'
-  );
-  let cleaned = mdxContent.replace(importRegex, '');
+): Promise<string> {
+  const ast = await parseMDX(mdxContent);
+  const nodes = findAudioNodes(ast, componentName);
 
-  // Remove component usage
-  const componentRegex = new RegExp(
-    `<${componentName}\\s+voices=\\{[^}]+\\}\\s*\\/>\\s*`,
-    'g'
+  const ranges = [...nodes.components, ...nodes.hashComments].map(
+    ({ node }): [number, number] => [node.position.start.offset, node.position.end.offset]
   );
-  cleaned = cleaned.replace(componentRegex, '');
 
-  return cleaned;
+  return applyEdits(mdxContent, [
+    ...removalEdits(mdxContent, ranges),
+    ...importRemovalEdits(mdxContent, nodes.imports),
+  ]);
 }
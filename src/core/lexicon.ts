@@ -0,0 +1,128 @@
+/**
+ * Pronunciation Lexicon
+ * Rewrites product names, acronyms and other tricky terms before synthesis
+ */
+
+/**
+ * A regex rewrite, e.g. { match: '\\bv(\\d+)\\b', replace: 'version $1' }
+ */
+export interface PronunciationPattern {
+  match: string;
+  replace: string;
+  flags?: string; // Regex flags; "g" is always added
+}
+
+/**
+ * Substitutions applied to spoken text
+ */
+export interface PronunciationRules {
+  terms?: Record<string, string>; // Whole-word, case-sensitive replacements
+  patterns?: PronunciationPattern[]; // Applied in order, before terms
+}
+
+/**
+ * The `pronunciations:` section of speaker-config.yaml
+ * Per-language rules override the global ones; per-voice rules override both
+ */
+export interface PronunciationConfig extends PronunciationRules {
+  languages?: Record<string, PronunciationRules>;
+  voices?: Record<string, PronunciationRules>;
+}
+
+/**
+ * Escape a string for use inside a regex
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex flags for a pattern, always including "g"
+ */
+function patternFlags(pattern: PronunciationPattern): string {
+  return [...new Set(`g${pattern.flags ?? ''}`)].join('');
+}
+
+/**
+ * Compile the rules that apply to one voice and language into a text transform
+ * @param config - Pronunciation config
+ * @param target - Voice ID and page language (e.g. "es"), if known
+ * @returns Function rewriting text for synthesis (identity when no rules apply)
+ */
+export function compileLexicon(
+  config: PronunciationConfig,
+  target: { voiceId: string; language?: string }
+): (text: string) => string {
+  const layers = [
+    target.voiceId ? config.voices?.[target.voiceId] : undefined,
+    target.language ? config.languages?.[target.language] : undefined,
+    config,
+  ].filter((layer): layer is PronunciationRules => !!layer);
+
+  // Most specific patterns run first; for terms the most specific layer wins
+  const patterns = layers
+    .flatMap((layer) => layer.patterns ?? [])
+    .map((pattern) => ({ regex: new RegExp(pattern.match, patternFlags(pattern)), replace: pattern.replace }));
+  const terms: Record<string, string> = Object.assign(
+    {},
+    ...layers.map((layer) => layer.terms ?? {}).reverse()
+  );
+
+  // One pass over all terms so a replacement is never rewritten again; longest terms first
+  const names = Object.keys(terms).sort((a, b) => b.length - a.length);
+  const termRegex =
+    names.length > 0
+      ? new RegExp(`(?<![\\p{L}\\p{N}_])(?:${names.map(escapeRegex).join('|')})(?![\\p{L}\\p{N}_])`, 'gu')
+      : null;
+
+  if (patterns.length === 0 && !termRegex) {
+    return (text) => text;
+  }
+
+  return (text) => {
+    let result = text;
+    for (const { regex, replace } of patterns) {
+      result = result.replace(regex, replace);
+    }
+    return termRegex ? result.replace(termRegex, (term) => terms[term]!) : result;
+  };
+}
+
+/**
+ * Check every regex in the pronunciation config
+ * @returns List of problems (empty when valid)
+ */
+export function validatePronunciations(config: PronunciationConfig): string[] {
+  const errors: string[] = [];
+  const scopes: Array<[string, PronunciationRules]> = [
+    ['pronunciations', config],
+    ...Object.entries(config.languages ?? {}).map(
+      ([language, rules]): [string, PronunciationRules] => [`pronunciations.languages.${language}`, rules]
+    ),
+    ...Object.entries(config.voices ?? {}).map(
+      ([voiceId, rules]): [string, PronunciationRules] => [`pronunciations.voices.${voiceId}`, rules]
+    ),
+  ];
+
+  for (const [scope, rules] of scopes) {
+    for (const [term, replacement] of Object.entries(rules.terms ?? {})) {
+      if (typeof replacement !== 'string') {
+        errors.push(`${scope}.terms.${term} must be a string`);
+      }
+    }
+
+    for (const [index, pattern] of (rules.patterns ?? []).entries()) {
+      if (typeof pattern?.match !== 'string' || typeof pattern.replace !== 'string') {
+        errors.push(`${scope}.patterns[${index}] needs string "match" and "replace" fields`);
+        continue;
+      }
+      try {
+        new RegExp(pattern.match, patternFlags(pattern));
+      } catch (error: any) {
+        errors.push(`${scope}.patterns[${index}]: ${error.message}`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,173 @@
+/**
+ * Locales
+ * Maps pages to per-locale voice sets by frontmatter `lang` or path prefix
+ */
+
+/**
+ * A locale entry in the `locales:` section of speaker-config.yaml
+ */
+export interface LocaleConfig {
+  code: string; // e.g. "es" or "zh-CN"
+  pathPrefix: string; // Pages under this directory belong to the locale, e.g. "es/"
+  voiceIds: string[];
+  voiceNames: string[];
+}
+
+/**
+ * The locale and voices a page is narrated with
+ */
+export interface PageLocale {
+  locale?: string; // Locale code; the default locale (if set) for pages without one
+  language?: string; // Language of the page: its lang, locale or the default locale
+  voiceIds: string[];
+  voiceNames: string[];
+  warnings: string[]; // Mismatches between the page's language and its voices
+}
+
+/**
+ * Configuration needed to resolve page locales
+ */
+interface LocaleSettings {
+  locales: LocaleConfig[];
+  defaultLocale?: string; // Language of the top-level voices
+  voiceIds?: string[];
+  voiceNames?: string[];
+}
+
+/**
+ * Languages recognizable from their script alone
+ */
+const SCRIPT_LANGUAGES: Array<{ language: string; regex: RegExp }> = [
+  { language: 'ja', regex: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'ko', regex: /\p{Script=Hangul}/gu },
+  { language: 'zh', regex: /\p{Script=Han}/gu },
+  { language: 'ru', regex: /\p{Script=Cyrillic}/gu },
+  { language: 'ar', regex: /\p{Script=Arabic}/gu },
+  { language: 'he', regex: /\p{Script=Hebrew}/gu },
+  { language: 'el', regex: /\p{Script=Greek}/gu },
+  { language: 'th', regex: /\p{Script=Thai}/gu },
+  { language: 'hi', regex: /\p{Script=Devanagari}/gu },
+];
+
+/**
+ * Primary language subtag ("zh-CN" → "zh")
+ */
+function primaryLanguage(code: string): string {
+  return code.split(/[-_]/)[0]!.toLowerCase();
+}
+
+/**
+ * Guess the language of a text from its script
+ * Only scripts used by one language (or, for Han without kana, Chinese) are recognized;
+ * Latin-script text returns null
+ * @param text - Extracted page text
+ * @returns Language code, or null when unknown
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  // Japanese mixes kana with Han, so a little kana is enough
+  const kana = text.match(SCRIPT_LANGUAGES[0]!.regex)?.length ?? 0;
+  if (kana / letters > 0.1) return 'ja';
+
+  for (const { language, regex } of SCRIPT_LANGUAGES.slice(1)) {
+    const count = text.match(regex)?.length ?? 0;
+    if (count / letters > 0.5) return language;
+  }
+
+  return null;
+}
+
+/**
+ * Find the configured locale for a language code, matching "es-MX" to "es"
+ */
+function findLocale(locales: LocaleConfig[], code: string): LocaleConfig | undefined {
+  return (
+    locales.find((locale) => locale.code.toLowerCase() === code.toLowerCase()) ??
+    locales.find((locale) => primaryLanguage(locale.code) === primaryLanguage(code))
+  );
+}
+
+/**
+ * Resolve the locale and voices of a page
+ * Frontmatter `lang` takes precedence over the path prefix; pages matching
+ * neither use the top-level voices
+ * @param file - MDX path relative to the docs directory
+ * @param frontmatter - Parsed frontmatter
+ * @param settings - Configured locales and default voices
+ * @param text - Extracted text, to check the page's language against its voices
+ * @returns Locale, voices and any warnings
+ */
+export function resolvePageLocale(
+  file: string,
+  frontmatter: Record<string, any>,
+  settings: LocaleSettings,
+  text?: string
+): PageLocale {
+  const warnings: string[] = [];
+  const normalized = file.replace(/\\/g, '/').replace(/^\.?\//, '');
+  const byPath = [...settings.locales]
+    .sort((a, b) => b.pathPrefix.length - a.pathPrefix.length)
+    .find((locale) => normalized.startsWith(locale.pathPrefix));
+
+  let locale = byPath;
+  let language = byPath?.code ?? settings.defaultLocale;
+
+  if (typeof frontmatter.lang === 'string' && frontmatter.lang.trim()) {
+    const lang = frontmatter.lang.trim();
+    const byLang = findLocale(settings.locales, lang);
+    const isDefault =
+      !!settings.defaultLocale && primaryLanguage(settings.defaultLocale) === primaryLanguage(lang);
+
+    if (byPath && byPath !== byLang) {
+      warnings.push(`lang "${lang}" doesn't match the ${byPath.code} locale of its path`);
+    }
+    if (byLang || isDefault) {
+      locale = byLang;
+      language = byLang?.code ?? settings.defaultLocale;
+    } else {
+      warnings.push(`No voices configured for lang "${lang}"`);
+      language = lang;
+    }
+  }
+
+  const voiceIds = locale?.voiceIds ?? settings.voiceIds ?? [];
+  const voiceNames = locale?.voiceNames ?? settings.voiceNames ?? [];
+
+  const detected = text ? detectLanguage(text) : null;
+  if (detected && (!language || primaryLanguage(language) !== detected)) {
+    warnings.push(
+      `Text looks like "${detected}" but is narrated with ${locale ? `${locale.code} voices` : 'the default voices'}`
+    );
+  }
+
+  return {
+    locale: locale?.code ?? settings.defaultLocale,
+    language,
+    voiceIds,
+    voiceNames,
+    warnings,
+  };
+}
+
+/**
+ * Check the locale config
+ * @returns List of problems (empty when valid)
+ */
+export function validateLocales(locales: LocaleConfig[]): string[] {
+  const errors: string[] = [];
+  const prefixes = new Set<string>();
+
+  for (const locale of locales) {
+    if (locale.voiceIds.length === 0) {
+      errors.push(`locales.${locale.code} must have at least one voice`);
+    }
+    if (prefixes.has(locale.pathPrefix)) {
+      errors.push(`locales.${locale.code} shares path "${locale.pathPrefix}" with another locale`);
+    }
+    prefixes.add(locale.pathPrefix);
+  }
+
+  return errors;
+}
@@ -0,0 +1,144 @@
+/**
+ * Loudness Measurement
+ * Integrated loudness (LUFS) per ITU-R BS.1770-4 with K-weighting and gating
+ */
+
+/**
+ * Gating block length and step, in seconds
+ */
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolutely gated loudness
+
+/**
+ * Biquad filter coefficients (a0 normalized to 1)
+ */
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting filters for a sample rate: a high shelf modelling the head,
+ * then a high pass (the RLB curve)
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf, +4 dB above ~1.7 kHz
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: high pass at ~38 Hz
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Run a signal through a biquad (direct form I)
+ */
+function applyBiquad(input: Float32Array, f: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]!;
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+
+  return output;
+}
+
+/**
+ * Convert a mean square (summed over channels) to LUFS
+ */
+function toLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * Measure the integrated loudness of a signal
+ * Signals shorter than one gating block are measured as a single block
+ * @param channels - Samples per channel (mono or stereo, -1 to 1)
+ * @param sampleRate - Sample rate in Hz
+ * @returns Loudness in LUFS, or -Infinity for silence
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return -Infinity;
+
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const weighted = channels.map((channel) => applyBiquad(applyBiquad(channel, shelf), highPass));
+
+  const blockLength = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+  const step = Math.round(STEP_SECONDS * sampleRate);
+
+  // Running sums of squares make each overlapping block's mean square O(1)
+  const energy = new Float64Array(length + 1);
+  for (const channel of weighted) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += channel[i]! * channel[i]!;
+      energy[i + 1] = energy[i + 1]! + sum;
+    }
+  }
+
+  // Mean square of each block, summed over channels (all weighted 1.0)
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    blocks.push((energy[start + blockLength]! - energy[start]!) / blockLength);
+  }
+
+  const gated = (threshold: number) => blocks.filter((power) => toLufs(power) > threshold);
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+  const absolute = gated(ABSOLUTE_GATE);
+  if (absolute.length === 0) return -Infinity;
+
+  const relative = gated(toLufs(mean(absolute)) + RELATIVE_GATE).filter(
+    (power) => toLufs(power) > ABSOLUTE_GATE
+  );
+  return toLufs(mean(relative));
+}
+
+/**
+ * Highest absolute sample value across channels
+ */
+export function samplePeak(channels: Float32Array[]): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (const sample of channel) {
+      const value = Math.abs(sample);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
@@ -0,0 +1,244 @@
+/**
+ * Ogg Opus Audio Utilities
+ * Page-level parsing and stitching of Ogg Opus streams without decoding
+ */
+
+/**
+ * Opus granule positions always count 48 kHz samples
+ */
+const OPUS_GRANULE_RATE = 48000;
+
+/**
+ * Ogg page header flags
+ */
+const FLAG_CONTINUED = 0x01;
+const FLAG_EOS = 0x04;
+
+/**
+ * Parsed Ogg page
+ */
+export interface OggPage {
+  offset: number;
+  length: number; // Header, segment table and body
+  flags: number;
+  granule: bigint; // -1 when no packet ends on the page
+  serial: number;
+  sequence: number;
+  segments: number[]; // Lacing values
+  bodyOffset: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 used by Ogg (polynomial 0x04c11db7, unreflected, zero initial value)
+ */
+export function oggCrc(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let r = i << 24;
+      for (let j = 0; j < 8; j++) {
+        r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+      }
+      crcTable[i] = r >>> 0;
+    }
+  }
+
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]!) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Parse an Ogg page at the given offset
+ * @returns Page or null if the bytes are not a complete page
+ */
+function parsePage(buffer: Buffer, offset: number): OggPage | null {
+  if (offset + 27 > buffer.length || buffer.toString('latin1', offset, offset + 4) !== 'OggS') {
+    return null;
+  }
+  if (buffer[offset + 4] !== 0) return null;
+
+  const count = buffer[offset + 26]!;
+  if (offset + 27 + count > buffer.length) return null;
+
+  const segments = [...buffer.subarray(offset + 27, offset + 27 + count)];
+  const bodyOffset = offset + 27 + count;
+  const length = bodyOffset - offset + segments.reduce((sum, size) => sum + size, 0);
+  if (offset + length > buffer.length) return null;
+
+  return {
+    offset,
+    length,
+    flags: buffer[offset + 5]!,
+    granule: buffer.readBigInt64LE(offset + 6),
+    serial: buffer.readUInt32LE(offset + 14),
+    sequence: buffer.readUInt32LE(offset + 18),
+    segments,
+    bodyOffset,
+  };
+}
+
+/**
+ * Parse all pages of the first logical stream in an Ogg buffer
+ * @param buffer - Ogg file contents
+ * @returns Pages in stream order
+ */
+export function parseOggPages(buffer: Buffer): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= buffer.length) {
+    const page = parsePage(buffer, offset);
+
+    if (page) {
+      if (pages.length === 0 || page.serial === pages[0]!.serial) {
+        pages.push(page);
+      }
+      offset += page.length;
+    } else {
+      offset++;
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * An Ogg Opus stream split into its header pages and audio pages
+ */
+interface OpusStream {
+  headers: OggPage[]; // OpusHead and OpusTags
+  audio: OggPage[];
+  preSkip: number; // Samples the decoder discards at the start
+}
+
+/**
+ * Split an Ogg Opus stream into header and audio pages
+ * @returns Stream, or null if the buffer does not start with an OpusHead page
+ */
+function parseOpusStream(buffer: Buffer): OpusStream | null {
+  const pages = parseOggPages(buffer);
+  const head = pages[0];
+
+  if (!head || buffer.toString('latin1', head.bodyOffset, head.bodyOffset + 8) !== 'OpusHead') {
+    return null;
+  }
+
+  // OpusTags starts on the second page and ends on the first page where a packet ends
+  let tagsEnd = 1;
+  while (tagsEnd < pages.length && pages[tagsEnd]!.segments.at(-1) === 255) {
+    tagsEnd++;
+  }
+
+  return {
+    headers: pages.slice(0, tagsEnd + 1),
+    audio: pages.slice(tagsEnd + 1),
+    preSkip: buffer.readUInt16LE(head.bodyOffset + 10),
+  };
+}
+
+/**
+ * Last granule position of a stream's audio
+ */
+function finalGranule(stream: OpusStream): bigint {
+  for (let i = stream.audio.length - 1; i >= 0; i--) {
+    if (stream.audio[i]!.granule >= 0n) return stream.audio[i]!.granule;
+  }
+  return 0n;
+}
+
+/**
+ * Calculate the playback duration of an Ogg Opus buffer
+ * @param buffer - Ogg Opus file contents
+ * @returns Duration in seconds
+ */
+export function getOpusDuration(buffer: Buffer): number {
+  const stream = parseOpusStream(buffer);
+  if (!stream) return 0;
+
+  return Math.max(0, Number(finalGranule(stream)) - stream.preSkip) / OPUS_GRANULE_RATE;
+}
+
+/**
+ * Copy a page with a new serial, sequence, granule and flags, recomputing its CRC
+ */
+function rewritePage(
+  buffer: Buffer,
+  page: OggPage,
+  fields: { serial: number; sequence: number; granule: bigint; flags: number }
+): Buffer {
+  const copy = Buffer.from(buffer.subarray(page.offset, page.offset + page.length));
+
+  copy[5] = fields.flags;
+  copy.writeBigInt64LE(fields.granule, 6);
+  copy.writeUInt32LE(fields.serial, 14);
+  copy.writeUInt32LE(fields.sequence, 18);
+  copy.writeUInt32LE(0, 22);
+  copy.writeUInt32LE(oggCrc(copy), 22);
+
+  return copy;
+}
+
+/**
+ * Concatenate Ogg Opus buffers into a single logical stream
+ *
+ * The first segment's headers are kept and every segment's audio pages are
+ * renumbered into its stream. Granule positions continue from the previous
+ * segment; the pre-skip of later segments is played rather than discarded,
+ * adding a few milliseconds of encoder priming at each join.
+ *
+ * @param buffers - Ogg Opus segments in playback order
+ * @returns Combined Ogg Opus buffer
+ */
+export function concatOpus(buffers: Buffer[]): Buffer {
+  if (buffers.length === 1) {
+    return buffers[0]!;
+  }
+
+  const streams = buffers.map((buffer, index) => {
+    const stream = parseOpusStream(buffer);
+    if (!stream) {
+      throw new Error(`Audio segment ${index + 1} is not a valid Ogg Opus stream`);
+    }
+    return stream;
+  });
+
+  const serial = streams[0]!.headers[0]!.serial;
+  const total = streams.reduce((sum, stream) => sum + stream.audio.length, 0);
+  const parts: Buffer[] = [];
+  let sequence = 0;
+  let base = 0n;
+  let written = 0;
+
+  for (const page of streams[0]!.headers) {
+    parts.push(
+      rewritePage(buffers[0]!, page, {
+        serial,
+        sequence: sequence++,
+        granule: page.granule,
+        flags: page.flags & ~FLAG_EOS,
+      })
+    );
+  }
+
+  for (const [index, stream] of streams.entries()) {
+    for (const page of stream.audio) {
+      written++;
+      parts.push(
+        rewritePage(buffers[index]!, page, {
+          serial,
+          sequence: sequence++,
+          granule: page.granule < 0n ? page.granule : base + page.granule,
+          flags: (page.flags & FLAG_CONTINUED) | (written === total ? FLAG_EOS : 0),
+        })
+      );
+    }
+    base += finalGranule(stream);
+  }
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,68 @@
+/**
+ * OpenAI-compatible TTS Client
+ * Works with any server exposing POST /audio/speech (OpenAI, Kokoro, LocalAI, etc.)
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import pRetry from 'p-retry';
+import type { AudioEncoding, OpenAITTSConfig, TTSProvider } from '../types/index.js';
+
+/**
+ * OpenAI-compatible speech endpoint client
+ */
+export class OpenAITTSClient implements TTSProvider {
+  readonly name = 'openai' as const;
+  readonly markup = 'none' as const;
+  private http: AxiosInstance;
+  private model: string;
+
+  constructor(config: OpenAITTSConfig) {
+    this.model = config.model;
+    this.http = axios.create({
+      baseURL: config.baseUrl.replace(/\/$/, ''),
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      responseType: 'arraybuffer',
+    });
+  }
+
+  /**
+   * Generate TTS audio
+   * @param text - Text to convert to speech
+   * @param voiceId - Voice name understood by the endpoint (e.g. "alloy")
+   * @param encoding - MP3, Opus or AAC; the endpoint picks bitrate and sample rate
+   * @param onRetry - Called with a message when a failed request is retried (default: console.warn)
+   * @returns Audio buffer in the requested format
+   */
+  async generateTTS(
+    text: string,
+    voiceId: string,
+    encoding: AudioEncoding = { format: 'mp3' },
+    onRetry: (message: string) => void = (message) => console.warn(message)
+  ): Promise<Buffer> {
+    return pRetry(
+      async () => {
+        const response = await this.http.post('/audio/speech', {
+          model: this.model,
+          input: text,
+          voice: voiceId,
+          response_format: encoding.format,
+        });
+
+        return Buffer.from(response.data);
+      },
+      {
+        retries: 3,
+        onFailedAttempt: ({ error, attemptNumber, retriesLeft }) => {
+          onRetry(`TTS attempt ${attemptNumber} failed (${error.message}). ${retriesLeft} retries left.`);
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Create an OpenAI-compatible TTS client instance
+ */
+export function createOpenAITTSClient(config: OpenAITTSConfig): OpenAITTSClient {
+  return new OpenAITTSClient(config);
+}
@@ -0,0 +1,128 @@
+/**
+ * Console Output
+ * Per-file progress reporting that stays readable when files run concurrently
+ */
+
+import ora, { type Ora } from 'ora';
+import chalk from 'chalk';
+import * as Diff from 'diff';
+
+/**
+ * Progress reporter for a single file
+ */
+export interface FileReporter {
+  update(text: string): void;
+  log(line: string): void;
+  succeed(text: string): void;
+  info(text: string): void;
+  warn(text: string): void;
+  fail(text: string): void;
+}
+
+/**
+ * Reporter backed by a live spinner, used when files are processed one at a time
+ */
+export function createSpinnerReporter(text: string): FileReporter {
+  const spinner = ora(text).start();
+
+  return {
+    update: (text) => {
+      spinner.text = text;
+    },
+    log: (line) => {
+      const wasSpinning = spinner.isSpinning;
+      spinner.stop();
+      console.log(line);
+      if (wasSpinning) spinner.start();
+    },
+    succeed: (text) => spinner.succeed(text),
+    info: (text) => spinner.info(text),
+    warn: (text) => spinner.warn(text),
+    fail: (text) => spinner.fail(text),
+  };
+}
+
+/**
+ * Render a unified diff of a file change for dry-run output
+ */
+export function reportDiff(reporter: FileReporter, file: string, before: string, after: string): void {
+  const diff = Diff.createPatch(file, before, after, '', '');
+  const diffLines = diff.split('\n').slice(4); // Skip header lines
+
+  reporter.log(chalk.gray('\n  Changes that would be made:'));
+  for (const line of diffLines) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      reporter.log(chalk.green('  ' + line));
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      reporter.log(chalk.red('  ' + line));
+    } else if (line.startsWith('@@')) {
+      reporter.log(chalk.cyan('  ' + line));
+    }
+  }
+  reporter.log('');
+}
+
+/**
+ * Buffers each file's output and prints it in file order
+ *
+ * A file's lines are held until the file is complete and every file before it
+ * has been printed, so output never interleaves. A single spinner shows overall
+ * progress in the meantime.
+ */
+export class OrderedOutput {
+  private buffers: string[][];
+  private completed: boolean[];
+  private printed = 0;
+  private done = 0;
+  private spinner: Ora;
+
+  constructor(
+    private total: number,
+    private label: string
+  ) {
+    this.buffers = Array.from({ length: total }, () => []);
+    this.completed = new Array<boolean>(total).fill(false);
+    this.spinner = ora(this.progressText()).start();
+  }
+
+  private progressText(): string {
+    return `${this.label} (${this.done}/${this.total})...`;
+  }
+
+  /**
+   * Create a reporter that writes into the buffer for one file
+   */
+  reporter(index: number): FileReporter {
+    const buffer = this.buffers[index]!;
+
+    return {
+      update: () => {},
+      log: (line) => buffer.push(line),
+      succeed: (text) => buffer.push(`${chalk.green('✔')} ${text}`),
+      info: (text) => buffer.push(`${chalk.blue('ℹ')} ${text}`),
+      warn: (text) => buffer.push(`${chalk.yellow('⚠')} ${text}`),
+      fail: (text) => buffer.push(`${chalk.red('✖')} ${text}`),
+    };
+  }
+
+  /**
+   * Mark a file as complete and flush every file that is now in order
+   */
+  complete(index: number): void {
+    this.completed[index] = true;
+    this.done++;
+
+    this.spinner.stop();
+    while (this.printed < this.total && this.completed[this.printed]) {
+      for (const line of this.buffers[this.printed]!) {
+        console.log(line);
+      }
+      this.buffers[this.printed] = [];
+      this.printed++;
+    }
+
+    if (this.done < this.total) {
+      this.spinner.start(this.progressText());
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Page Options
+ * Per-page narration controls read from the `speak` frontmatter key
+ */
+
+/**
+ * Narration settings for one page
+ */
+export interface PageOptions {
+  enabled: boolean; // false when the page opts out with `speak: false`
+  voices: string[] | null; // Voice IDs replacing the configured list, null to use the config
+  intro: string | null; // Text spoken before the page content
+  exclude: string[]; // Section selectors ("#anchor" or heading text) to leave out
+}
+
+/**
+ * Build the spoken intro from the page title and description
+ */
+function formatIntro(frontmatter: Record<string, any>): string | null {
+  const parts = [frontmatter.title, frontmatter.description]
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    .map((part) => {
+      const text = part.trim();
+      return /[.!?]$/.test(text) ? text : `${text}.`;
+    });
+
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+/**
+ * Read narration settings from page frontmatter
+ *
+ * ```yaml
+ * speak: false          # opt out
+ * speak:
+ *   voices: [alloy]     # override the voice list
+ *   intro: true         # speak title and description first (or a string to speak instead)
+ *   exclude: ['#changelog', Troubleshooting]
+ * ```
+ * @param frontmatter - Parsed frontmatter
+ * @returns Page options
+ * @throws Error listing every invalid setting
+ */
+export function getPageOptions(frontmatter: Record<string, any>): PageOptions {
+  const speak = frontmatter.speak;
+  const options: PageOptions = { enabled: true, voices: null, intro: null, exclude: [] };
+
+  if (speak === undefined || speak === null || speak === true) {
+    return options;
+  }
+  if (speak === false) {
+    return { ...options, enabled: false };
+  }
+  if (typeof speak !== 'object' || Array.isArray(speak)) {
+    throw new Error('Invalid frontmatter:\n  - speak must be false or a map of narration settings');
+  }
+
+  const errors: string[] = [];
+
+  if (speak.voices !== undefined) {
+    const voices = typeof speak.voices === 'string' ? speak.voices.split(',') : speak.voices;
+    if (
+      !Array.isArray(voices) ||
+      voices.length === 0 ||
+      !voices.every((voice) => typeof voice === 'string' && voice.trim() !== '')
+    ) {
+      errors.push('speak.voices must be a non-empty list of voice IDs');
+    } else {
+      options.voices = voices.map((voice: string) => voice.trim());
+    }
+  }
+
+  if (typeof speak.intro === 'string') {
+    options.intro = speak.intro.trim() || null;
+  } else if (speak.intro === true) {
+    options.intro = formatIntro(frontmatter);
+  } else if (speak.intro !== undefined && speak.intro !== false) {
+    errors.push('speak.intro must be true, false or the text to speak');
+  }
+
+  if (speak.exclude !== undefined) {
+    const exclude = typeof speak.exclude === 'string' ? [speak.exclude] : speak.exclude;
+    if (!Array.isArray(exclude) || !exclude.every((selector) => typeof selector === 'string')) {
+      errors.push('speak.exclude must be a list of "#anchor" or heading selectors');
+    } else {
+      options.exclude = exclude;
+    }
+  }
+
+  for (const key of Object.keys(speak)) {
+    if (!['voices', 'intro', 'exclude'].includes(key)) {
+      errors.push(`Unknown setting speak.${key}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid frontmatter:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return options;
+}
@@ -0,0 +1,254 @@
+/**
+ * Page Planning
+ * Works out what a run will do with each page before anything is synthesized
+ */
+
+import path from 'path';
+import type { AudioEncoding, MetadataFile, PageChange, SpeechMarkup, Voice } from '../types/index.js';
+import type { ResolvedConfig } from './config.js';
+import { extractFrontmatter, extractSections, type TextSection } from './extractor.js';
+import { compileLexicon } from './lexicon.js';
+import { getPageOptions } from './page-options.js';
+import { resolvePageLocale, type PageLocale } from './locales.js';
+import { renderSSML, stripProsodyMarks } from './prosody.js';
+import { generateHash, generateSpeechHash } from './hash-tracker.js';
+import { extractExistingAudioData, hasAudioComponent } from './injector.js';
+import { getVoiceEncodings, isDefaultEncoding } from './audio-formats.js';
+import type { AudioPostProcessor } from './post-process.js';
+import { readFile } from './utils.js';
+
+/**
+ * Run-wide inputs to planning
+ */
+export interface PlanContext {
+  config: ResolvedConfig;
+  markup: SpeechMarkup; // Markup the provider accepts
+  postProcessor?: AudioPostProcessor;
+  manifest?: MetadataFile; // Loaded in manifest output mode
+}
+
+/**
+ * Audio recorded for a page by an earlier run
+ */
+export interface ExistingAudio {
+  hash: string | null;
+  voiceIds: string[];
+  voices: Voice[];
+}
+
+/**
+ * A page with narration to keep or generate
+ */
+export interface NarratedPage {
+  file: string;
+  content: string;
+  status: 'unchanged' | 'changed';
+  sections: TextSection[];
+  cleanText: string; // Section texts joined, with prosody marks when the provider takes SSML
+  warnings: string[]; // Locale resolution warnings
+  locale?: string;
+  voiceIds: string[];
+  voiceNames: string[];
+  voiceEncodings: AudioEncoding[][]; // Per voice, primary first
+  lexicons: Array<(text: string) => string>; // Per voice
+  render?: (text: string) => string; // SSML rendering, when the provider takes it
+  hash: string;
+  existing: ExistingAudio | null;
+  characters: number; // Characters sent to the provider, over all voices and encodings
+}
+
+/**
+ * What a run will do with one page
+ */
+export type PagePlan =
+  | { file: string; status: 'disabled'; narrated: boolean } // Narration turned off in frontmatter; narrated when audio from an earlier run remains
+  | { file: string; status: 'empty' } // No extractable text
+  | { file: string; status: 'failed'; error: string } // Couldn't be read or extracted
+  | NarratedPage;
+
+/**
+ * Look up the recorded hash and voices for a page
+ * Reads the manifest in manifest mode, otherwise the component in the MDX itself
+ */
+async function getExistingAudioData(
+  file: string,
+  content: string,
+  context: PlanContext
+): Promise<ExistingAudio | null> {
+  if (context.manifest) {
+    const entry = context.manifest[file];
+    return entry
+      ? { hash: entry.hash, voiceIds: entry.voices.map((v) => v.id), voices: entry.voices }
+      : null;
+  }
+
+  return extractExistingAudioData(content, context.config.componentName);
+}
+
+/**
+ * Display name of a voice: from the page's locale, then any configured voice list,
+ * falling back to the ID for voices only named in frontmatter
+ */
+function findVoiceName(config: ResolvedConfig, pageLocale: PageLocale, voiceId: string): string {
+  const lists = [
+    { ids: pageLocale.voiceIds, names: pageLocale.voiceNames },
+    { ids: config.voiceIds ?? [], names: config.voiceNames ?? [] },
+    ...config.locales.map((locale) => ({ ids: locale.voiceIds, names: locale.voiceNames })),
+  ];
+
+  for (const { ids, names } of lists) {
+    const index = ids.indexOf(voiceId);
+    if (index >= 0) {
+      return names[index] || `Voice ${index + 1}`;
+    }
+  }
+
+  return voiceId;
+}
+
+/**
+ * Plan one page: extract its text, hash what each voice will speak and
+ * compare with the recorded hash
+ * @param file - Page path relative to the docs directory
+ * @param content - Page content
+ * @param context - Run-wide inputs
+ * @returns The page's plan; with --force every narrated page is changed
+ */
+export async function planPage(file: string, content: string, context: PlanContext): Promise<PagePlan> {
+  const { config } = context;
+
+  // Frontmatter can opt the page out or adjust its narration
+  const frontmatter = extractFrontmatter(content);
+  const pageOptions = getPageOptions(frontmatter);
+  if (!pageOptions.enabled) {
+    const narrated =
+      hasAudioComponent(content, config.componentName) ||
+      (await getExistingAudioData(file, content, context)) !== null;
+    return { file, status: 'disabled', narrated };
+  }
+
+  // Prosody marks are only kept for providers that can receive SSML
+  const prosody = config.prosody.enabled && context.markup === 'ssml';
+  const sections = await extractSections(content, {
+    rules: config.extractionRules,
+    exclude: pageOptions.exclude,
+    prosody,
+  });
+  if (pageOptions.intro) {
+    // The intro joins the untitled opening section, or becomes one
+    if (sections[0]?.title === null) {
+      sections[0].text = `${pageOptions.intro}\n\n${sections[0].text}`;
+    } else {
+      sections.unshift({ title: null, anchor: null, text: pageOptions.intro });
+    }
+  }
+  const cleanText = sections.map((section) => section.text).join('\n\n');
+
+  if (!stripProsodyMarks(cleanText).trim()) {
+    return { file, status: 'empty' };
+  }
+
+  // Voices come from the page's frontmatter, its locale or the top-level config
+  const pageLocale = resolvePageLocale(file, frontmatter, config, stripProsodyMarks(cleanText));
+  const voiceIds = pageOptions.voices ?? pageLocale.voiceIds;
+
+  // Each voice speaks the text through its own pronunciation lexicon; hash what is spoken,
+  // including any SSML structure
+  const lexicons = voiceIds.map((voiceId) =>
+    compileLexicon(config.pronunciations, { voiceId, language: pageLocale.language })
+  );
+  const render = prosody ? (text: string) => renderSSML(text, config.prosody) : undefined;
+  const spokenTexts = voiceIds.map((voiceId, i): [string, string] => {
+    const spoken = lexicons[i]!(cleanText);
+    return [voiceId, render ? render(spoken) : spoken];
+  });
+  const speechHash = generateSpeechHash(spokenTexts);
+
+  // Changing a voice's encodings or the post-processing regenerates the page;
+  // plain MP3 without processing keeps the text hash
+  const voiceEncodings = voiceIds.map((voiceId) => getVoiceEncodings(config.audio, voiceId));
+  const audioSettings = [
+    ...(voiceEncodings.every((encodings) => encodings.length === 1 && isDefaultEncoding(encodings[0]!))
+      ? []
+      : [voiceEncodings]),
+    ...(context.postProcessor ? [context.postProcessor.settings] : []),
+  ];
+  const hash =
+    audioSettings.length === 0
+      ? speechHash
+      : generateHash([speechHash, ...audioSettings.map((settings) => JSON.stringify(settings))].join('\n'));
+
+  // Skip when the recorded hash and voice IDs match (never under --force)
+  const existing = !config.force ? await getExistingAudioData(file, content, context) : null;
+  const unchanged =
+    existing !== null &&
+    existing.hash === hash &&
+    existing.voiceIds.length === voiceIds.length &&
+    voiceIds.every((id) => existing.voiceIds.includes(id));
+
+  return {
+    file,
+    content,
+    status: unchanged ? 'unchanged' : 'changed',
+    sections,
+    cleanText,
+    warnings: pageLocale.warnings,
+    locale: pageLocale.locale,
+    voiceIds,
+    voiceNames: voiceIds.map((voiceId) => findVoiceName(config, pageLocale, voiceId)),
+    voiceEncodings,
+    lexicons,
+    render,
+    hash,
+    existing,
+    // Every encoding is synthesized from the full text
+    characters: spokenTexts.reduce((sum, [, text], i) => sum + text.length * voiceEncodings[i]!.length, 0),
+  };
+}
+
+/**
+ * Plan pages in order
+ * A page that can't be read or extracted is planned as failed, without stopping the others
+ * @param directory - Docs directory
+ * @param files - Page paths relative to the docs directory
+ * @param context - Run-wide inputs
+ * @param onPage - Called before each page is planned, for progress output
+ */
+export async function planPages(
+  directory: string,
+  files: string[],
+  context: PlanContext,
+  onPage?: (file: string) => void
+): Promise<PagePlan[]> {
+  const plans: PagePlan[] = [];
+
+  for (const file of files) {
+    onPage?.(file);
+    try {
+      plans.push(await planPage(file, await readFile(path.join(directory, file)), context));
+    } catch (error: any) {
+      plans.push({ file, status: 'failed', error: error.message });
+    }
+  }
+
+  return plans;
+}
+
+/**
+ * Pages a run will synthesize
+ */
+export function getChangedPages(plans: PagePlan[]): NarratedPage[] {
+  return plans.filter((plan): plan is NarratedPage => plan.status === 'changed');
+}
+
+/**
+ * Tell why a changed page needs generating, from what an earlier run recorded
+ */
+export function getPageChange(page: NarratedPage): Exclude<PageChange, 'disabled'> {
+  const { existing, voiceIds } = page;
+  if (!existing) return 'missing';
+
+  const sameVoices =
+    existing.voiceIds.length === voiceIds.length && voiceIds.every((id) => existing.voiceIds.includes(id));
+  return sameVoices ? 'stale' : 'voices';
+}
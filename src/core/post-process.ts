@@ -0,0 +1,319 @@
+/**
+ * Audio Post-Processing
+ * Decodes synthesized MP3 to even out loudness, trim silence and add intro/outro clips
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { MPEGDecoder } from 'mpg123-decoder';
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { parseMp3Frames } from './audio.js';
+import { generateHash } from './hash-tracker.js';
+import { measureLoudness, samplePeak } from './loudness.js';
+import type { TimedSegment } from './transcript.js';
+
+/**
+ * The `postProcessing:` section of speaker-config.yaml
+ */
+export interface PostProcessOptions {
+  loudness?: number; // Target integrated loudness in LUFS; levels are left alone when unset
+  peak: number; // Ceiling for sample peaks after gain, in dBFS
+  trimSilence: boolean; // Trim silence from the start and end of each voice's audio
+  silenceThreshold: number; // Level below which audio counts as silence, in dBFS
+  intro?: string; // MP3 clip played before the narration, relative to the docs directory
+  outro?: string; // MP3 clip played after the narration
+}
+
+export const DEFAULT_POST_PROCESSING: PostProcessOptions = {
+  peak: -1,
+  trimSilence: false,
+  silenceThreshold: -50,
+};
+
+/**
+ * Silence kept before the first and after the last sound when trimming, in seconds
+ */
+const SILENCE_PADDING = 0.05;
+
+/**
+ * Decoded audio
+ */
+interface PcmAudio {
+  channels: Float32Array[]; // Samples per channel, -1 to 1
+  sampleRate: number;
+}
+
+/**
+ * Processed audio with timings moved to match it
+ */
+export interface ProcessedAudio {
+  audio: Buffer;
+  segments: TimedSegment[];
+  sectionStarts: number[];
+}
+
+/**
+ * Convert decibels to a linear factor
+ */
+function fromDb(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Decode an MP3 buffer to PCM
+ * @throws Error if the buffer holds no MP3 frames
+ */
+async function decodeMp3(buffer: Buffer, name: string): Promise<PcmAudio> {
+  const frames = parseMp3Frames(buffer);
+  if (frames.length === 0) {
+    throw new Error(`${name} is not a valid MP3 stream`);
+  }
+
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+  try {
+    const decoded = decoder.decode(new Uint8Array(buffer));
+    // The decoder always outputs stereo; keep the stream's own channel count
+    return {
+      channels: decoded.channelData.slice(0, frames[0]!.channels).map((channel) => channel.slice()),
+      sampleRate: decoded.sampleRate,
+    };
+  } finally {
+    decoder.free();
+  }
+}
+
+/**
+ * Encode PCM as constant bitrate MP3
+ */
+function encodeMp3(pcm: PcmAudio, bitrate: number): Buffer {
+  const encoder = new Mp3Encoder(pcm.channels.length, pcm.sampleRate, bitrate);
+  const toInt16 = (channel: Float32Array) =>
+    Int16Array.from(channel, (sample) => Math.round(Math.max(-1, Math.min(1, sample)) * 32767));
+  const [left, right] = pcm.channels.map(toInt16);
+
+  return Buffer.concat([Buffer.from(encoder.encodeBuffer(left!, right)), Buffer.from(encoder.flush())]);
+}
+
+/**
+ * Match a clip to the narration's sample rate (linear interpolation) and channel count
+ */
+function conform(clip: PcmAudio, sampleRate: number, channelCount: number): Float32Array[] {
+  const ratio = clip.sampleRate / sampleRate;
+  const length = Math.floor((clip.channels[0]?.length ?? 0) / ratio);
+
+  let channels = clip.channels.map((channel) => {
+    if (ratio === 1) return channel;
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = channel[Math.min(index + 1, channel.length - 1)]!;
+      output[i] = channel[index]! + (next - channel[index]!) * (position - index);
+    }
+    return output;
+  });
+
+  if (channels.length > channelCount) {
+    // Downmix stereo to mono
+    channels = [channels[0]!.map((sample, i) => (sample + channels[1]![i]!) / 2)];
+  } else if (channels.length < channelCount) {
+    channels = [channels[0]!, channels[0]!];
+  }
+
+  return channels;
+}
+
+/**
+ * Scale each chunk to the target loudness, limited so peaks stay under the ceiling
+ * Chunks too quiet to measure get the page's gain
+ */
+function normalizeChunks(pcm: PcmAudio, boundaries: number[], options: PostProcessOptions): void {
+  const pageLoudness = measureLoudness(pcm.channels, pcm.sampleRate);
+  if (options.loudness === undefined || !Number.isFinite(pageLoudness)) return;
+
+  const ceiling = fromDb(options.peak);
+
+  for (let i = 0; i + 1 < boundaries.length; i++) {
+    const chunk = pcm.channels.map((channel) => channel.subarray(boundaries[i], boundaries[i + 1]));
+    const loudness = measureLoudness(chunk, pcm.sampleRate);
+    let gain = fromDb(options.loudness - (Number.isFinite(loudness) ? loudness : pageLoudness));
+
+    const peak = samplePeak(chunk) * gain;
+    if (peak > ceiling) {
+      gain *= ceiling / peak;
+    }
+
+    for (const channel of chunk) {
+      for (let j = 0; j < channel.length; j++) {
+        channel[j] = channel[j]! * gain;
+      }
+    }
+  }
+}
+
+/**
+ * Find the sounding part of the audio, with a little padding on each side
+ * @returns [start, end) sample offsets; the whole audio when it is all silence
+ */
+function findSound(pcm: PcmAudio, threshold: number): [number, number] {
+  const length = pcm.channels[0]?.length ?? 0;
+  const level = fromDb(threshold);
+  const isSound = (i: number) => pcm.channels.some((channel) => Math.abs(channel[i]!) > level);
+
+  let first = 0;
+  while (first < length && !isSound(first)) first++;
+  if (first === length) return [0, length];
+
+  let last = length - 1;
+  while (last > first && !isSound(last)) last--;
+
+  const padding = Math.round(SILENCE_PADDING * pcm.sampleRate);
+  return [Math.max(0, first - padding), Math.min(length, last + 1 + padding)];
+}
+
+/**
+ * Post-processor for one run, holding the decoded intro and outro clips
+ */
+export class AudioPostProcessor {
+  constructor(
+    private options: PostProcessOptions,
+    private clips: { intro?: PcmAudio; outro?: PcmAudio },
+    readonly settings: Record<string, unknown>
+  ) {}
+
+  /**
+   * Process a voice's stitched MP3
+   *
+   * Loudness is evened out chunk by chunk, so sections synthesized at different
+   * levels match. Trimming and the intro shift every timing; segments and
+   * section starts are moved to match, so transcripts and chapters stay in sync.
+   *
+   * @param audio - Stitched MP3
+   * @param timing - Chunk durations and section offsets of the stitched audio
+   * @returns Processed MP3 at the input's bitrate, with adjusted timings
+   */
+  async process(
+    audio: Buffer,
+    timing: { segments: TimedSegment[]; sectionStarts: number[] }
+  ): Promise<ProcessedAudio> {
+    const pcm = await decodeMp3(audio, 'Synthesized audio');
+    const { sampleRate } = pcm;
+    const length = pcm.channels[0]!.length;
+
+    // Chunk boundaries in samples, from the measured chunk durations
+    let elapsed = 0;
+    const boundaries = [0];
+    for (const segment of timing.segments) {
+      elapsed += segment.duration;
+      boundaries.push(Math.min(length, Math.round(elapsed * sampleRate)));
+    }
+    boundaries[boundaries.length - 1] = length;
+
+    normalizeChunks(pcm, boundaries, this.options);
+
+    const [start, end] = this.options.trimSilence
+      ? findSound(pcm, this.options.silenceThreshold)
+      : [0, length];
+    const intro = this.clips.intro ? conform(this.clips.intro, sampleRate, pcm.channels.length) : null;
+    const outro = this.clips.outro ? conform(this.clips.outro, sampleRate, pcm.channels.length) : null;
+
+    const channels = pcm.channels.map((channel, c) => {
+      const parts = [intro?.[c], channel.subarray(start, end), outro?.[c]].filter(
+        (part): part is Float32Array => !!part
+      );
+      const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+      let offset = 0;
+      for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+      }
+      return output;
+    });
+
+    // Move timings: trimmed audio is cut from the segments it belonged to, the intro comes first
+    const trimStart = start / sampleRate;
+    const trimEnd = end / sampleRate;
+    const introDuration = intro ? intro[0]!.length / sampleRate : 0;
+    const outroDuration = outro ? outro[0]!.length / sampleRate : 0;
+
+    let segmentStart = 0;
+    const segments = timing.segments.map((segment) => {
+      const segmentEnd = segmentStart + segment.duration;
+      const duration = Math.max(0, Math.min(segmentEnd, trimEnd) - Math.max(segmentStart, trimStart));
+      segmentStart = segmentEnd;
+      return { ...segment, duration };
+    });
+
+    return {
+      audio: encodeMp3({ channels, sampleRate }, parseMp3Frames(audio)[0]!.bitrate),
+      segments: [
+        ...(introDuration > 0 ? [{ text: '', duration: introDuration }] : []),
+        ...segments,
+        ...(outroDuration > 0 ? [{ text: '', duration: outroDuration }] : []),
+      ],
+      sectionStarts: timing.sectionStarts.map(
+        (sectionStart) => introDuration + Math.min(Math.max(sectionStart - trimStart, 0), trimEnd - trimStart)
+      ),
+    };
+  }
+}
+
+/**
+ * Create the post-processor for a run, loading its intro and outro clips
+ * @param options - Post-processing options
+ * @param directory - Docs directory that clip paths are relative to
+ * @returns Post-processor whose settings (options and clip contents) belong in page hashes
+ */
+export async function createPostProcessor(
+  options: PostProcessOptions,
+  directory: string
+): Promise<AudioPostProcessor> {
+  const clips: { intro?: PcmAudio; outro?: PcmAudio } = {};
+  const settings: Record<string, unknown> = { ...options };
+
+  for (const name of ['intro', 'outro'] as const) {
+    const file = options[name];
+    if (!file) continue;
+
+    const buffer = await fs.readFile(path.resolve(directory, file));
+    clips[name] = await decodeMp3(buffer, `postProcessing.${name} (${file})`);
+    // Replacing the clip's contents regenerates every page, like changing its path
+    settings[name] = { file, hash: generateHash(buffer.toString('base64')) };
+  }
+
+  return new AudioPostProcessor(options, clips, settings);
+}
+
+/**
+ * Check the post-processing config
+ * @returns List of problems (empty when valid)
+ */
+export function validatePostProcessing(options: PostProcessOptions): string[] {
+  const errors: string[] = [];
+  const ranges: Array<[keyof PostProcessOptions, number, number, string]> = [
+    ['loudness', -70, 0, 'LUFS'],
+    ['peak', -20, 0, 'dBFS'],
+    ['silenceThreshold', -100, 0, 'dBFS'],
+  ];
+
+  for (const [key, min, max, unit] of ranges) {
+    const value = options[key];
+    if (value === undefined && key === 'loudness') continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      errors.push(`postProcessing.${key} must be a number of ${unit} between ${min} and ${max}`);
+    }
+  }
+
+  if (typeof options.trimSilence !== 'boolean') {
+    errors.push('postProcessing.trimSilence must be true or false');
+  }
+
+  for (const key of ['intro', 'outro'] as const) {
+    if (options[key] !== undefined && (typeof options[key] !== 'string' || !options[key])) {
+      errors.push(`postProcessing.${key} must be the path of an MP3 file`);
+    }
+  }
+
+  return errors;
+}
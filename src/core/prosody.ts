@@ -0,0 +1,141 @@
+/**
+ * Prosody
+ * Keeps headings, emphasis and list structure through extraction as inline marks,
+ * and renders them as SSML for providers that accept markup
+ */
+
+import { visit } from 'unist-util-visit';
+import type { Node } from 'unist';
+import type { SpeechMarkup } from '../types/index.js';
+
+/**
+ * All supported provider markups
+ */
+export const SPEECH_MARKUPS: readonly SpeechMarkup[] = ['none', 'ssml'];
+
+/**
+ * The `prosody:` section of speaker-config.yaml
+ */
+export interface ProsodyOptions {
+  enabled: boolean; // Send SSML to providers that accept it
+  headingPause: number; // Pause after headings, in milliseconds
+  listPause: number; // Pause after list items, in milliseconds
+}
+
+export const DEFAULT_PROSODY: ProsodyOptions = {
+  enabled: false,
+  headingPause: 750,
+  listPause: 300,
+};
+
+/**
+ * Marks placed in extracted text (Unicode private use characters)
+ * They are single non-space characters, so chunking never splits one and
+ * whole-word lexicon terms still match next to them
+ */
+const MARKS = {
+  emphasisStart: '\uE000',
+  emphasisEnd: '\uE001',
+  headingPause: '\uE002',
+  listPause: '\uE003',
+};
+
+const MARKS_REGEX = /[\uE000-\uE003]/g;
+
+/**
+ * Remark plugin marking emphasis, headings and list items
+ * Must run before markdown is stripped
+ */
+export function remarkProsodyMarks() {
+  return (tree: Node) => {
+    visit(tree, (node: any) => {
+      if ((node.type === 'emphasis' || node.type === 'strong') && node.children.length > 0) {
+        node.children.unshift({ type: 'text', value: MARKS.emphasisStart });
+        node.children.push({ type: 'text', value: MARKS.emphasisEnd });
+      } else if (node.type === 'heading' && node.children.length > 0) {
+        node.children.push({ type: 'text', value: MARKS.headingPause });
+      } else if (node.type === 'listItem') {
+        // The pause follows the item's own text, before any nested list
+        const first = node.children?.[0];
+        if (first?.type === 'paragraph') {
+          first.children.push({ type: 'text', value: MARKS.listPause });
+        }
+      }
+    });
+  };
+}
+
+/**
+ * Remove prosody marks, leaving the plain text
+ */
+export function stripProsodyMarks(text: string): string {
+  return text.replace(MARKS_REGEX, '');
+}
+
+/**
+ * Escape text for use in SSML
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Render one paragraph of marked text as SSML
+ * Emphasis is balanced within the paragraph, since a chunk may start or end
+ * part way through an emphasized span
+ */
+function renderParagraph(paragraph: string, prosody: ProsodyOptions): string {
+  let open = false;
+  let needsOpening = false;
+
+  const body = escapeXml(paragraph).replace(MARKS_REGEX, (mark) => {
+    switch (mark) {
+      case MARKS.emphasisStart:
+        if (open) return '';
+        open = true;
+        return '<emphasis>';
+      case MARKS.emphasisEnd:
+        if (!open) needsOpening = true;
+        open = false;
+        return '</emphasis>';
+      case MARKS.headingPause:
+        return `<break time="${prosody.headingPause}ms"/>`;
+      default:
+        return `<break time="${prosody.listPause}ms"/>`;
+    }
+  });
+
+  return `<p>${needsOpening ? '<emphasis>' : ''}${body}${open ? '</emphasis>' : ''}</p>`;
+}
+
+/**
+ * Render a chunk of marked text as an SSML document
+ * @param text - Chunk of extracted text with prosody marks
+ * @param prosody - Pause lengths
+ * @returns SSML with one <p> per paragraph
+ */
+export function renderSSML(text: string, prosody: ProsodyOptions = DEFAULT_PROSODY): string {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => stripProsodyMarks(paragraph).trim() !== '');
+
+  return `<speak>${paragraphs.map((paragraph) => renderParagraph(paragraph, prosody)).join('')}</speak>`;
+}
+
+/**
+ * Check the prosody config
+ * @returns List of problems (empty when valid)
+ */
+export function validateProsody(prosody: ProsodyOptions): string[] {
+  const errors: string[] = [];
+
+  for (const key of ['headingPause', 'listPause'] as const) {
+    const value = prosody[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10000) {
+      errors.push(`prosody.${key} must be a number of milliseconds between 0 and 10000`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,303 @@
+/**
+ * Run Reports
+ * Machine-readable summaries of generate and cleanup runs for CI: JSON, JUnit XML and Markdown
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ProcessingResult } from '../types/index.js';
+
+export type ReportFormat = 'json' | 'junit' | 'markdown';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'junit', 'markdown'];
+
+/**
+ * Where to write a report and in which format
+ */
+export interface ReportOptions {
+  file: string; // Absolute path
+  format: ReportFormat;
+}
+
+/**
+ * Outcome of one page in a generate run
+ */
+export interface FileReport {
+  file: string;
+  status: 'generated' | 'skipped' | 'failed';
+  reason?: string; // Why the page was skipped
+  error?: string; // Why the page failed
+  warnings?: string[]; // Provider retries
+  voices: string[]; // Voice IDs
+  characters: number; // Characters sent to the provider (cached chunks excluded)
+  bytesUploaded: number; // Audio and transcripts
+  durationMs: number;
+}
+
+/**
+ * Report of a generate run
+ */
+export interface GenerateReport {
+  command: 'generate';
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  dryRun: boolean;
+  summary: {
+    generated: number;
+    skipped: number;
+    failed: number;
+    characters: number;
+    bytesUploaded: number;
+  };
+  files: FileReport[];
+}
+
+/**
+ * Report of a cleanup run
+ */
+export interface CleanupReport {
+  command: 'cleanup';
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  dryRun: boolean;
+  summary: {
+    scanned: number; // MDX files
+    referenced: number; // Audio and transcript keys referenced by pages
+    total: number; // Keys under the audio prefix
+    orphaned: number;
+    deleted: number;
+  };
+  orphanedKeys: string[];
+  deletedKeys: string[]; // Empty in dry-run mode
+}
+
+export type RunReport = GenerateReport | CleanupReport;
+
+/**
+ * Pick the report format from an explicit option or the file's extension
+ * The GitHub step summary is Markdown; anything unrecognized is JSON
+ */
+export function inferReportFormat(file: string, format?: string): ReportFormat {
+  if (format) return format as ReportFormat;
+
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.xml') return 'junit';
+  if (ext === '.md' || ext === '.markdown') return 'markdown';
+  if (process.env.GITHUB_STEP_SUMMARY && path.resolve(file) === path.resolve(process.env.GITHUB_STEP_SUMMARY)) {
+    return 'markdown';
+  }
+  return 'json';
+}
+
+/**
+ * Check the report format
+ * @returns List of problems (empty when valid)
+ */
+export function validateReportOptions(report: ReportOptions | undefined): string[] {
+  if (report && !REPORT_FORMATS.includes(report.format)) {
+    return [`Report format must be one of: ${REPORT_FORMATS.join(', ')} (got "${report.format}")`];
+  }
+  return [];
+}
+
+/**
+ * Build the report of a generate run from its per-file results
+ */
+export function buildGenerateReport(
+  results: ProcessingResult[],
+  run: { startedAt: Date; durationMs: number; dryRun: boolean }
+): GenerateReport {
+  const files: FileReport[] = results.map((result) => ({
+    file: result.file,
+    status: !result.success ? 'failed' : result.skipped ? 'skipped' : 'generated',
+    ...(result.reason && { reason: result.reason }),
+    ...(result.error && { error: result.error }),
+    ...(result.warnings && { warnings: result.warnings }),
+    voices: result.voices.map((voice) => voice.id),
+    characters: result.characters ?? 0,
+    bytesUploaded: result.bytesUploaded ?? 0,
+    durationMs: result.durationMs ?? 0,
+  }));
+
+  return {
+    command: 'generate',
+    startedAt: run.startedAt.toISOString(),
+    durationMs: run.durationMs,
+    dryRun: run.dryRun,
+    summary: {
+      generated: files.filter((file) => file.status === 'generated').length,
+      skipped: files.filter((file) => file.status === 'skipped').length,
+      failed: files.filter((file) => file.status === 'failed').length,
+      characters: files.reduce((sum, file) => sum + file.characters, 0),
+      bytesUploaded: files.reduce((sum, file) => sum + file.bytesUploaded, 0),
+    },
+    files,
+  };
+}
+
+/**
+ * Format a byte count for people
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format milliseconds as seconds
+ */
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Escape text for XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * JUnit XML: one test case per page (generate) or orphaned key (cleanup),
+ * so CI dashboards list failures and skips
+ */
+function formatJUnit(report: RunReport): string {
+  const cases =
+    report.command === 'generate'
+      ? report.files.map((file) => {
+          const details = `voices: ${file.voices.join(', ') || 'none'}; characters: ${file.characters}; bytes uploaded: ${file.bytesUploaded}`;
+          const outcome =
+            file.status === 'failed'
+              ? `      <failure message="${escapeXml(file.error ?? 'Failed')}">${escapeXml(file.error ?? '')}</failure>\n`
+              : file.status === 'skipped'
+                ? `      <skipped message="${escapeXml(file.reason ?? 'Skipped')}"/>\n`
+                : '';
+          return (
+            `    <testcase classname="speak-mintlify.generate" name="${escapeXml(file.file)}" time="${(file.durationMs / 1000).toFixed(3)}">\n` +
+            outcome +
+            `      <system-out>${escapeXml(details)}</system-out>\n` +
+            (file.warnings ? `      <system-err>${escapeXml(file.warnings.join('\n'))}</system-err>\n` : '') +
+            '    </testcase>'
+          );
+        })
+      : report.orphanedKeys.map((key) => {
+          const outcome = report.deletedKeys.includes(key) ? '' : '      <skipped message="Dry run"/>\n';
+          return outcome
+            ? `    <testcase classname="speak-mintlify.cleanup" name="${escapeXml(key)}">\n${outcome}    </testcase>`
+            : `    <testcase classname="speak-mintlify.cleanup" name="${escapeXml(key)}"/>`;
+        });
+
+  const failures = report.command === 'generate' ? report.summary.failed : 0;
+  const skipped =
+    report.command === 'generate'
+      ? report.summary.skipped
+      : report.summary.orphaned - report.summary.deleted;
+  const attributes =
+    `name="speak-mintlify ${report.command}" tests="${cases.length}" failures="${failures}" ` +
+    `skipped="${skipped}" time="${(report.durationMs / 1000).toFixed(3)}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attributes}>`,
+    `  <testsuite ${attributes} timestamp="${report.startedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Markdown for a GitHub step summary or PR comment
+ */
+function formatMarkdown(report: RunReport): string {
+  const title = `## speak-mintlify ${report.command}${report.dryRun ? ' (dry run)' : ''}`;
+
+  if (report.command === 'cleanup') {
+    const { summary } = report;
+    const lines = [
+      title,
+      '',
+      `**${summary.deleted} deleted**, ${summary.orphaned} orphaned of ${summary.total} file(s) · ` +
+        `${summary.referenced} referenced by ${summary.scanned} page(s) · ${formatSeconds(report.durationMs)}`,
+    ];
+    if (report.orphanedKeys.length > 0) {
+      lines.push('', `**${report.dryRun ? 'Would delete' : 'Deleted'}:**`, '');
+      for (const key of report.orphanedKeys) {
+        lines.push(`- \`${key}\``);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  const { summary } = report;
+  const status: Record<FileReport['status'], string> = {
+    generated: '✅ Generated',
+    skipped: '⏭️ Skipped',
+    failed: '❌ Failed',
+  };
+  const lines = [
+    title,
+    '',
+    `**${summary.generated} generated**, ${summary.skipped} skipped, ${summary.failed} failed · ` +
+      `${summary.characters.toLocaleString('en-US')} characters · ${formatBytes(summary.bytesUploaded)} uploaded · ` +
+      formatSeconds(report.durationMs),
+    '',
+    '| File | Status | Voices | Characters | Uploaded | Time |',
+    '|------|--------|--------|-----------:|---------:|-----:|',
+  ];
+  for (const file of report.files) {
+    const detail = [file.error ?? file.reason, ...(file.warnings ?? []).map((warning) => `⚠️ ${warning}`)]
+      .filter(Boolean)
+      .join('; ');
+    lines.push(
+      `| \`${escapeCell(file.file)}\` | ${status[file.status]}${detail ? `: ${escapeCell(detail)}` : ''} | ` +
+        `${file.voices.join(', ')} | ${file.characters.toLocaleString('en-US')} | ${formatBytes(file.bytesUploaded)} | ` +
+        `${formatSeconds(file.durationMs)} |`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a report in a format
+ */
+export function formatReport(report: RunReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    case 'junit':
+      return formatJUnit(report);
+    case 'markdown':
+      return formatMarkdown(report);
+  }
+}
+
+/**
+ * Write a report, creating its directory
+ * The GitHub step summary is appended to, as GitHub expects, so steps can share it
+ */
+export async function writeReport(report: RunReport, options: ReportOptions): Promise<void> {
+  const content = formatReport(report, options.format);
+  const stepSummary = process.env.GITHUB_STEP_SUMMARY;
+
+  await fs.mkdir(path.dirname(options.file), { recursive: true });
+  if (stepSummary && path.resolve(stepSummary) === options.file) {
+    await fs.appendFile(options.file, content, 'utf-8');
+  } else {
+    await fs.writeFile(options.file, content, 'utf-8');
+  }
+}
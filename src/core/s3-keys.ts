@@ -0,0 +1,121 @@
+/**
+ * S3 Key Templates
+ * Single implementation of how audio object keys are derived from pages
+ */
+
+/**
+ * Default key layout: full page path, so pages never share a key
+ */
+export const DEFAULT_KEY_TEMPLATE = '{prefix}/{path}/{voice}.{ext}';
+
+/**
+ * Default key layout for immutable uploads: a new content hash means a new URL
+ */
+export const IMMUTABLE_KEY_TEMPLATE = '{prefix}/{path}/{hash}/{voice}.{ext}';
+
+/**
+ * Cache-Control header for content-addressed objects that never change
+ */
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Build the S3 key of the published manifest (manifest output mode)
+ * @param prefix - Audio path prefix
+ * @returns S3 object key
+ */
+export function getManifestKey(prefix: string): string {
+  return `${prefix.replace(/\/$/, '')}/manifest.json`;
+}
+
+/**
+ * Key layout used before key templates existed (last two path segments)
+ */
+export const LEGACY_KEY_TEMPLATE = '{prefix}/{slug}/{voice}.{ext}';
+
+const PLACEHOLDERS = ['prefix', 'path', 'slug', 'hash', 'voice', 'ext', 'locale'] as const;
+
+/**
+ * Values available to a key template
+ */
+export interface AudioKeyParams {
+  prefix: string;
+  filePath: string; // MDX path relative to the docs directory
+  voiceId: string;
+  hash?: string; // Content hash, required by templates using {hash}
+  ext?: string;
+  locale?: string; // Page locale, required by templates using {locale}
+}
+
+/**
+ * Convert an MDX path into a key path ("guides/api/intro.mdx" → "guides/api/intro")
+ */
+function pagePath(filePath: string): string {
+  return filePath
+    .replace(/\\/g, '/')
+    .replace(/^\.?\//, '')
+    .replace(/\.mdx?$/, '');
+}
+
+/**
+ * Legacy slug from the last two path segments ("guides/api/intro.mdx" → "api-intro")
+ */
+function legacySlug(filePath: string): string {
+  return pagePath(filePath).split('/').slice(-2).join('-').toLowerCase();
+}
+
+/**
+ * Check a key template for unknown placeholders and missing required parts
+ * @param template - Key template
+ * @returns List of problems (empty when valid)
+ */
+export function validateKeyTemplate(template: string): string[] {
+  const errors: string[] = [];
+  const used = [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]!);
+
+  for (const name of used) {
+    if (!(PLACEHOLDERS as readonly string[]).includes(name)) {
+      errors.push(`Unknown placeholder {${name}} in key template "${template}"`);
+    }
+  }
+
+  if (!template.startsWith('{prefix}/')) {
+    errors.push(`Key template "${template}" must start with {prefix}/ so cleanup can find its objects`);
+  }
+  if (!used.includes('voice')) {
+    errors.push(`Key template "${template}" must include {voice}`);
+  }
+  if (!used.includes('ext')) {
+    errors.push(`Key template "${template}" must include {ext} so audio and transcripts get separate keys`);
+  }
+  if (!used.some((name) => name === 'path' || name === 'slug' || name === 'hash')) {
+    errors.push(`Key template "${template}" must include {path}, {slug} or {hash}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Build an S3 key from a template
+ * @param template - Key template, e.g. "{prefix}/{path}/{voice}.{ext}"
+ * @param params - Page, voice and prefix values
+ * @returns S3 object key
+ */
+export function buildAudioKey(template: string, params: AudioKeyParams): string {
+  const values: Record<(typeof PLACEHOLDERS)[number], string | undefined> = {
+    prefix: params.prefix.replace(/\/$/, ''),
+    path: pagePath(params.filePath),
+    slug: legacySlug(params.filePath),
+    hash: params.hash,
+    voice: params.voiceId,
+    ext: params.ext || 'mp3',
+    locale: params.locale,
+  };
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name as keyof typeof values];
+    if (value === undefined) {
+      throw new Error(`Key template placeholder ${placeholder} has no value for ${params.filePath}`);
+    }
+    return value;
+  });
+}
@@ -6,10 +6,21 @@
 import {
   S3Client,
   PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CopyObjectCommand,
+  NoSuchKey,
   ListObjectsV2Command,
   DeleteObjectsCommand,
 } from '@aws-sdk/client-s3';
-import type { S3Config } from '../types/index.js';
+import type { AudioFormat, S3Config } from '../types/index.js';
+import { buildAudioKey, DEFAULT_KEY_TEMPLATE, type AudioKeyParams } from './s3-keys.js';
+import { getAudioContentType, getAudioExtension } from './audio-formats.js';
+
+/**
+ * Page values used by key templates besides the path and voice
+ */
+export type PageKeyOptions = Pick<AudioKeyParams, 'hash' | 'ext' | 'locale'>;
 
 /**
  * S3 Uploader for audio files
@@ -33,67 +44,189 @@ export class S3Uploader {
   }
 
   /**
-   * Generate S3 key (path) for audio file
+   * Generate S3 key (path) for audio file using the configured key template
    * @param filePath - Original MDX file path
    * @param voiceId - Voice ID
+   * @param options - Content hash and locale (required by templates using them) and extension (default: mp3)
    * @returns S3 object key
    */
-  private generateKey(filePath: string, voiceId: string): string {
-    // Generate slug from file path
-    // Example: "developer-guide/getting-started/introduction.mdx"
-    // → "getting-started-introduction"
-    const slug = filePath
-      .replace(/\.mdx$/, '')
-      .split('/')
-      .slice(-2)
-      .join('-')
-      .toLowerCase();
+  generateKey(filePath: string, voiceId: string, options: PageKeyOptions = {}): string {
+    return buildAudioKey(this.config.keyTemplate || DEFAULT_KEY_TEMPLATE, {
+      prefix: this.config.pathPrefix || 'audio',
+      filePath,
+      voiceId,
+      ...options,
+    });
+  }
 
-    const prefix = this.config.pathPrefix || 'audio';
-    return `${prefix}/${slug}/${voiceId}.mp3`;
+  /**
+   * Get the public URL for an S3 key
+   * @param key - S3 object key
+   * @returns Public URL
+   */
+  getPublicUrl(key: string): string {
+    const publicUrl = this.config.publicUrl.replace(/\/$/, '');
+    return `${publicUrl}/${key}`;
   }
 
   /**
    * Upload audio file to S3
-   * @param audioBuffer - MP3 audio buffer
+   * @param audioBuffer - Audio buffer
    * @param filePath - Original MDX file path
    * @param voiceId - Voice ID
+   * @param options - Content hash and locale (required by templates using them) and audio format (default: mp3)
    * @returns Public URL to the uploaded file
    */
   async uploadAudio(
     audioBuffer: Buffer,
     filePath: string,
-    voiceId: string
+    voiceId: string,
+    options: Omit<PageKeyOptions, 'ext'> & { format?: AudioFormat } = {}
   ): Promise<string> {
-    const key = this.generateKey(filePath, voiceId);
+    const { format = 'mp3', ...keyOptions } = options;
+    const key = this.generateKey(filePath, voiceId, { ...keyOptions, ext: getAudioExtension(format) });
+
+    await this.uploadObject(key, audioBuffer, getAudioContentType(format), this.config.cacheControl);
+
+    return this.getPublicUrl(key);
+  }
 
+  /**
+   * Upload a WebVTT transcript next to a voice's audio
+   * @param vtt - WebVTT file contents
+   * @param filePath - Original MDX file path
+   * @param voiceId - Voice ID
+   * @param options - Content hash and locale (required by templates using them)
+   * @returns Public URL to the uploaded file
+   */
+  async uploadTranscript(
+    vtt: string,
+    filePath: string,
+    voiceId: string,
+    options: PageKeyOptions = {}
+  ): Promise<string> {
+    const key = this.generateKey(filePath, voiceId, { ...options, ext: 'vtt' });
+
+    await this.uploadObject(key, Buffer.from(vtt, 'utf-8'), 'text/vtt', this.config.cacheControl);
+
+    return this.getPublicUrl(key);
+  }
+
+  /**
+   * Upload an object under an explicit key
+   * @param key - S3 object key
+   * @param body - Object contents
+   * @param contentType - MIME type
+   * @param cacheControl - Optional Cache-Control header
+   */
+  async uploadObject(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    cacheControl?: string
+  ): Promise<void> {
     const command = new PutObjectCommand({
       Bucket: this.config.bucket,
       Key: key,
-      Body: audioBuffer,
-      ContentType: 'audio/mpeg',
+      Body: body,
+      ContentType: contentType,
+      CacheControl: cacheControl,
     });
 
     await this.client.send(command);
+  }
 
-    // Return public URL
-    const publicUrl = this.config.publicUrl.replace(/\/$/, '');
-    return `${publicUrl}/${key}`;
+  /**
+   * Download an object
+   * @param key - S3 object key
+   * @returns Object contents, or null if the key does not exist
+   */
+  async downloadObject(key: string): Promise<Buffer | null> {
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    });
+
+    try {
+      const response = await this.client.send(command);
+      if (!response.Body) {
+        return null;
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look up an object's size and content type without downloading it
+   * @param key - S3 object key
+   * @returns Size in bytes and content type, or null if the key does not exist
+   */
+  async headObject(key: string): Promise<{ size: number; contentType?: string } | null> {
+    const command = new HeadObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    });
+
+    try {
+      const response = await this.client.send(command);
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+    } catch (error: any) {
+      // HEAD responses have no body, so a missing key surfaces as a bare 404
+      if (error instanceof NoSuchKey || error?.name === 'NotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an audio or transcript object within the bucket
+   * Applies the configured Cache-Control header to the copy when one is set
+   * @param sourceKey - Existing S3 object key
+   * @param destinationKey - New S3 object key
+   * @param contentType - MIME type of the object (default: audio/mpeg)
+   */
+  async copyObject(
+    sourceKey: string,
+    destinationKey: string,
+    contentType: string = 'audio/mpeg'
+  ): Promise<void> {
+    const encodedSource = sourceKey.split('/').map(encodeURIComponent).join('/');
+
+    const command = new CopyObjectCommand({
+      Bucket: this.config.bucket,
+      CopySource: `${this.config.bucket}/${encodedSource}`,
+      Key: destinationKey,
+      ...(this.config.cacheControl && {
+        MetadataDirective: 'REPLACE',
+        ContentType: contentType,
+        CacheControl: this.config.cacheControl,
+      }),
+    });
+
+    await this.client.send(command);
   }
 
   /**
    * Upload multiple audio files for different voices
    * @param audioMap - Map of voice ID to audio buffer
    * @param filePath - Original MDX file path
+   * @param hash - Content hash (required by templates using {hash})
    * @returns Map of voice ID to public URL
    */
   async uploadMultipleVoices(
     audioMap: Map<string, Buffer>,
-    filePath: string
+    filePath: string,
+    hash?: string
   ): Promise<Map<string, string>> {
     const results = await Promise.all(
       Array.from(audioMap.entries()).map(async ([voiceId, buffer]) => {
-        const url = await this.uploadAudio(buffer, filePath, voiceId);
+        const url = await this.uploadAudio(buffer, filePath, voiceId, { hash });
         return { voiceId, url };
       })
     );
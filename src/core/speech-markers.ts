@@ -0,0 +1,134 @@
+/**
+ * Speech Markers
+ * Author-placed markers that hide content from narration or give it a spoken rewrite:
+ * "speak-skip-start" and "speak-skip-end" MDX comments enclose content that isn't narrated,
+ * a "speak: ..." comment is narrated but not shown, and <Speak text="..."> narrates its
+ * text in place of its content
+ */
+
+import { visit } from 'unist-util-visit';
+import type { Node } from 'unist';
+
+/**
+ * Name of the component giving its content alternative spoken text
+ */
+export const SPEAK_COMPONENT = 'Speak';
+
+/**
+ * A marker found in an MDX comment
+ */
+export type SpeechMarker =
+  | { type: 'skip-start' }
+  | { type: 'skip-end' }
+  | { type: 'text'; text: string };
+
+/**
+ * Regex matching a speech marker comment inside an MDX expression
+ * The injector's hash comment ("speak-mintlify-hash: ...") is not a marker
+ */
+const MARKER_REGEX = /^\s*\/\*\s*(?:speak-skip-(start|end)|speak:([\s\S]*?))\s*\*\/\s*$/;
+
+/**
+ * Parse the value of an MDX expression as a speech marker
+ * @returns The marker, or null for any other expression
+ */
+export function parseSpeechMarker(value: string): SpeechMarker | null {
+  const match = value.match(MARKER_REGEX);
+  if (!match) return null;
+  if (match[1]) return { type: match[1] === 'start' ? 'skip-start' : 'skip-end' };
+  return { type: 'text', text: match[2]!.trim().replace(/\s+/g, ' ') };
+}
+
+/**
+ * Get the marker held by a node, if it is a marker comment
+ */
+function nodeMarker(node: any): SpeechMarker | null {
+  return node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression'
+    ? parseSpeechMarker(node.value ?? '')
+    : null;
+}
+
+/**
+ * Create the node speaking a text, at flow or inline level
+ */
+function spokenNode(text: string, flow: boolean): any {
+  const value = { type: 'text', value: text };
+  return flow ? { type: 'paragraph', children: [value] } : value;
+}
+
+/**
+ * Find top-level skipped regions of a parsed page
+ * A start marker without an end skips to the end of the page
+ * @returns [start, end) source offsets
+ */
+export function findSkippedRanges(tree: { children: any[] }): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let start: number | null = null;
+
+  for (const node of tree.children) {
+    const marker = nodeMarker(node);
+    if (marker?.type === 'skip-start' && start === null) {
+      start = node.position.start.offset;
+    } else if (marker?.type === 'skip-end' && start !== null) {
+      ranges.push([start, node.position.end.offset]);
+      start = null;
+    }
+  }
+
+  if (start !== null) {
+    ranges.push([start, Infinity]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Apply skip regions and spoken text among the children of one node
+ * Regions don't cross parents: a start marker without an end skips to the end
+ * of its parent, and an end marker without a start is ignored
+ */
+function applyMarkers(children: any[]): any[] {
+  const result: any[] = [];
+  let skipping = false;
+
+  for (const child of children) {
+    const marker = nodeMarker(child);
+
+    if (marker?.type === 'skip-start') {
+      skipping = true;
+    } else if (marker?.type === 'skip-end') {
+      skipping = false;
+    } else if (skipping) {
+      continue;
+    } else if (marker?.type === 'text') {
+      if (marker.text) result.push(spokenNode(marker.text, child.type === 'mdxFlowExpression'));
+    } else if (
+      (child.type === 'mdxJsxFlowElement' || child.type === 'mdxJsxTextElement') &&
+      child.name === SPEAK_COMPONENT
+    ) {
+      // Speak the text attribute instead of the content; no text hides the content
+      const attribute = child.attributes?.find((attr: any) => attr.name === 'text');
+      const text = typeof attribute?.value === 'string' ? attribute.value.trim() : '';
+      if (text) result.push(spokenNode(text, child.type === 'mdxJsxFlowElement'));
+    } else {
+      result.push(child);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remark plugin applying speech markers
+ * Must run before other speech rules so marked content is never rewritten
+ */
+export function remarkSpeechMarkers() {
+  return (tree: Node) => {
+    // Children are rewritten before they are visited, so nested markers apply too
+    visit(tree, (node: any) => {
+      if (Array.isArray(node.children)) {
+        node.children = applyMarkers(node.children);
+      }
+    });
+  };
+}
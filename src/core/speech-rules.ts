@@ -0,0 +1,249 @@
+/**
+ * Speech Rules
+ * Rewrites mdast nodes that don't read well aloud (code, tables, lists and
+ * Mintlify components) into plain prose before markdown is stripped
+ */
+
+import { visit, SKIP } from 'unist-util-visit';
+import type { Node } from 'unist';
+import type { Paragraph, Table } from 'mdast';
+
+/**
+ * How each kind of node is turned into speech
+ */
+export interface ExtractionRules {
+  codeBlocks: 'summarize' | 'skip'; // "A TypeScript code example follows." or nothing
+  inlineCode: 'expand' | 'plain'; // Speak symbols ("dash dash help") or read as-is
+  tables: 'rows' | 'skip'; // Read row by row with column headers, or drop
+  orderedLists: 'numbered' | 'plain'; // Keep item numbers, or read items only
+  components: Record<string, string | false>; // Lead-in per component name; false drops it
+}
+
+/**
+ * Lead-ins for Mintlify components whose content should be read
+ * {title} (or any other attribute) and {n} (position among siblings) are substituted
+ * Components not listed here are dropped along with their content
+ */
+export const DEFAULT_COMPONENT_LEAD_INS: Record<string, string | false> = {
+  Note: 'Note:',
+  Info: 'Info:',
+  Tip: 'Tip:',
+  Warning: 'Warning:',
+  Check: '',
+  Steps: '',
+  Step: 'Step {n}: {title}.',
+  Tabs: '',
+  Tab: '{title}:',
+  AccordionGroup: '',
+  Accordion: '{title}.',
+  Expandable: '',
+};
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+  codeBlocks: 'summarize',
+  inlineCode: 'expand',
+  tables: 'rows',
+  orderedLists: 'numbered',
+  components: DEFAULT_COMPONENT_LEAD_INS,
+};
+
+/**
+ * Spoken names of code block languages
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  typescript: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  yaml: 'YAML',
+  yml: 'YAML',
+  bash: 'shell',
+  sh: 'shell',
+  shell: 'shell',
+  zsh: 'shell',
+  py: 'Python',
+  python: 'Python',
+  go: 'Go',
+  rb: 'Ruby',
+  rs: 'Rust',
+  html: 'HTML',
+  css: 'CSS',
+  sql: 'SQL',
+  mdx: 'MDX',
+  md: 'Markdown',
+};
+
+/**
+ * Spoken names of symbols in inline code
+ */
+const SYMBOL_NAMES: Record<string, string> = {
+  '.': 'dot',
+  '/': 'slash',
+  '\\': 'backslash',
+  _: 'underscore',
+  '@': 'at',
+  '#': 'hash',
+  '=': 'equals',
+  '*': 'star',
+  '~': 'tilde',
+  '|': 'pipe',
+  '&': 'and',
+  '$': 'dollar',
+  '%': 'percent',
+  '+': 'plus',
+  '<': 'less than',
+  '>': 'greater than',
+};
+
+/**
+ * Spell out symbols in inline code so they are spoken
+ * Leading dashes of flags are spoken; hyphens and dots inside words only when
+ * they separate parts ("speaker-config.yaml" → "speaker-config dot yaml")
+ */
+export function expandSymbols(code: string): string {
+  return code
+    .replace(/(^|\s)(-{1,2})(?=\w)/g, (_, space: string, dashes: string) =>
+      `${space}${dashes.length === 2 ? 'dash dash ' : 'dash '}`
+    )
+    .replace(/[./\\_@#=*~|&$%+<>]/g, (symbol, offset: number, text: string) => {
+      // A trailing period ends the sentence rather than being part of the code
+      if (symbol === '.' && offset === text.length - 1) return symbol;
+      return ` ${SYMBOL_NAMES[symbol]} `;
+    })
+    .replace(/[(){}[\]`'";,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Concatenate the text content of a node
+ */
+function nodeText(node: any): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'inlineCode') return node.value;
+  return (node.children ?? []).map(nodeText).join('');
+}
+
+/**
+ * Create a paragraph node holding plain text
+ */
+function paragraph(text: string): Paragraph {
+  return { type: 'paragraph', children: [{ type: 'text', value: text }] };
+}
+
+/**
+ * Substitute {attribute} and {n} placeholders in a component lead-in
+ */
+function formatLeadIn(template: string, node: any, n: number): string {
+  return template
+    .replace(/\{(\w+)\}/g, (_, name: string) => {
+      if (name === 'n') return String(n);
+      const attribute = node.attributes?.find((attr: any) => attr.name === name);
+      return typeof attribute?.value === 'string' ? attribute.value : '';
+    })
+    .replace(/\s+([.:])/g, '$1')
+    .replace(/:\./g, '.') // "Step 1: ." without a title
+    .replace(/^[\s.:]+|\s+$/g, '');
+}
+
+/**
+ * Read a table row by row: "Option: --pattern; Default: false."
+ */
+function tableToParagraphs(table: Table): Paragraph[] {
+  const [header, ...rows] = table.children;
+  const headers = header ? header.children.map(nodeText) : [];
+
+  return rows.map((row) => {
+    const cells = row.children.map((cell, index) => {
+      const value = nodeText(cell).trim();
+      return headers[index] ? `${headers[index]}: ${value}` : value;
+    });
+    return paragraph(`${cells.filter(Boolean).join('; ')}.`);
+  });
+}
+
+/**
+ * Remark plugin applying extraction rules
+ * Must run before JSX is removed and markdown is stripped
+ */
+export function remarkSpeechRules(rules: ExtractionRules = DEFAULT_EXTRACTION_RULES) {
+  return (tree: Node) => {
+    // Inline code first, so table cells and lead-ins see the spoken form
+    visit(tree, 'inlineCode', (node: any) => {
+      if (rules.inlineCode === 'expand') {
+        node.type = 'text';
+        node.value = expandSymbols(node.value);
+      }
+    });
+
+    // Number components among their same-name siblings before any are unwrapped
+    visit(tree, (node: any) => {
+      const counts = new Map<string, number>();
+      for (const child of node.children ?? []) {
+        if (child.type === 'mdxJsxFlowElement' || child.type === 'mdxJsxTextElement') {
+          const n = (counts.get(child.name) ?? 0) + 1;
+          counts.set(child.name, n);
+          child.data = { ...child.data, speechIndex: n };
+        }
+      }
+    });
+
+    visit(tree, (node: any, index, parent: any) => {
+      if (!parent || typeof index !== 'number') return;
+
+      if (node.type === 'code') {
+        const language = node.lang ? LANGUAGE_NAMES[node.lang.toLowerCase()] ?? node.lang : null;
+        const summary = language ? `A ${language} code example follows.` : 'A code example follows.';
+        const replacement = rules.codeBlocks === 'summarize' ? [paragraph(summary)] : [];
+        parent.children.splice(index, 1, ...replacement);
+        return [SKIP, index + replacement.length];
+      }
+
+      if (node.type === 'table') {
+        const replacement = rules.tables === 'rows' ? tableToParagraphs(node) : [];
+        parent.children.splice(index, 1, ...replacement);
+        return [SKIP, index + replacement.length];
+      }
+
+      if (node.type === 'list' && node.ordered && rules.orderedLists === 'numbered') {
+        node.children.forEach((item: any, position: number) => {
+          const first = item.children?.[0];
+          const number = `${(node.start ?? 1) + position}. `;
+          if (first?.type === 'paragraph') {
+            first.children.unshift({ type: 'text', value: number });
+          } else {
+            item.children.unshift(paragraph(number.trim()));
+          }
+        });
+        return;
+      }
+
+      if (
+        (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') &&
+        node.name &&
+        typeof rules.components[node.name] === 'string'
+      ) {
+        // Unwrap the component, introducing its content with the lead-in
+        const leadIn = formatLeadIn(rules.components[node.name] as string, node, node.data.speechIndex);
+        const children = [...node.children];
+
+        if (leadIn) {
+          const first = children[0];
+          if (node.type === 'mdxJsxTextElement') {
+            children.unshift({ type: 'text', value: `${leadIn} ` });
+          } else if (first?.type === 'paragraph' && !leadIn.endsWith('.')) {
+            first.children.unshift({ type: 'text', value: `${leadIn} ` });
+          } else {
+            children.unshift(paragraph(leadIn));
+          }
+        }
+
+        parent.children.splice(index, 1, ...children);
+        return [SKIP, index]; // Visit the unwrapped content, which may hold more components
+      }
+    });
+  };
+}
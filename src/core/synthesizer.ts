@@ -0,0 +1,128 @@
+/**
+ * Page Synthesizer
+ * Synthesizes page text chunk by chunk and stitches the audio together
+ */
+
+import type { AudioEncoding, TTSProvider } from '../types/index.js';
+import { splitIntoChunks, DEFAULT_MAX_CHUNK_CHARS } from './chunker.js';
+import { DEFAULT_ENCODING, concatAudio, getAudioDuration, isDefaultEncoding } from './audio-formats.js';
+import type { TimedSegment } from './transcript.js';
+import { chunkCacheKey, type ChunkCache } from './chunk-cache.js';
+import { stripProsodyMarks } from './prosody.js';
+
+/**
+ * Options for synthesizing a page
+ */
+export interface SynthesizeOptions {
+  maxChunkChars?: number;
+  cache?: ChunkCache;
+  params?: Record<string, unknown>; // Synthesis parameters included in cache keys
+  pronounce?: (text: string) => string; // Pronunciation lexicon applied to each chunk
+  render?: (text: string) => string; // Markup rendering of each chunk (e.g. SSML), after the lexicon
+  encoding?: AudioEncoding; // Output format (default: MP3)
+  onChunk?: (index: number, total: number) => void;
+  onRetry?: (message: string) => void; // Provider retry messages, for per-file output
+}
+
+/**
+ * Result of synthesizing a page
+ */
+export interface SynthesisResult {
+  audio: Buffer;
+  segments: TimedSegment[]; // Each chunk's text and audio duration, in order
+  sectionStarts: number[]; // Offset of each section in the audio, in seconds
+  chunks: number;
+  cachedChunks: number;
+  synthesizedChars: number;
+}
+
+/**
+ * Synthesize text of any length into a single audio stream
+ * @see synthesizeSections
+ */
+export async function synthesizeText(
+  provider: TTSProvider,
+  text: string,
+  voiceId: string,
+  options: SynthesizeOptions = {}
+): Promise<SynthesisResult> {
+  return synthesizeSections(provider, [text], voiceId, options);
+}
+
+/**
+ * Synthesize page sections into a single audio stream
+ *
+ * Chunks are requested one at a time, so provider retries apply to each chunk
+ * rather than to the whole page. With a cache, every paragraph becomes its own
+ * chunk so that an edit only invalidates the paragraphs it touches. Chunks never
+ * span two sections, so each section starts on a chunk boundary at a known offset.
+ *
+ * @param provider - TTS provider
+ * @param sections - Clean text of each section, in order
+ * @param voiceId - Voice ID
+ * @param options - Chunking, cache, encoding and progress options
+ * @returns Combined audio buffer, chunk timings and statistics
+ */
+export async function synthesizeSections(
+  provider: TTSProvider,
+  sections: string[],
+  voiceId: string,
+  options: SynthesizeOptions = {}
+): Promise<SynthesisResult> {
+  const { cache, encoding = DEFAULT_ENCODING } = options;
+  // MP3 chunks keep the cache keys they had before encodings were configurable
+  const params = isDefaultEncoding(encoding) ? options.params ?? {} : { ...options.params, encoding };
+  const sectionChunks = sections.map((section) =>
+    splitIntoChunks(section, options.maxChunkChars ?? DEFAULT_MAX_CHUNK_CHARS, {
+      packParagraphs: !cache,
+    })
+  );
+  const total = sectionChunks.reduce((sum, chunks) => sum + chunks.length, 0);
+
+  const buffers: Buffer[] = [];
+  const segments: TimedSegment[] = [];
+  const sectionStarts: number[] = [];
+  let offset = 0;
+  let cachedChunks = 0;
+  let synthesizedChars = 0;
+
+  for (const chunks of sectionChunks) {
+    sectionStarts.push(offset);
+
+    for (const chunk of chunks) {
+      options.onChunk?.(buffers.length, total);
+
+      // Segments keep the written text for transcripts; the provider gets the spoken form
+      const spoken = options.pronounce ? options.pronounce(chunk) : chunk;
+      const input = options.render ? options.render(spoken) : spoken;
+      const key = cache ? chunkCacheKey(input, voiceId, params) : null;
+      const cached = key ? await cache!.get(key, encoding.format) : null;
+
+      let audio: Buffer;
+      if (cached) {
+        audio = cached;
+        cachedChunks++;
+      } else {
+        audio = await provider.generateTTS(input, voiceId, encoding, options.onRetry);
+        synthesizedChars += input.length;
+        if (key) {
+          await cache!.put(key, audio, encoding.format);
+        }
+      }
+
+      const duration = getAudioDuration(audio, encoding.format);
+      buffers.push(audio);
+      segments.push({ text: stripProsodyMarks(chunk), duration });
+      offset += duration;
+    }
+  }
+
+  return {
+    audio: concatAudio(buffers, encoding.format),
+    segments,
+    sectionStarts,
+    chunks: total,
+    cachedChunks,
+    synthesizedChars,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Transcript Timings
+ * Builds sentence-level timing tracks for synthesized audio
+ */
+
+import { splitSentences } from './chunker.js';
+
+/**
+ * A spoken sentence and when it is heard, in seconds from the start of the audio
+ */
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A synthesized chunk of text and the duration of its audio
+ */
+export interface TimedSegment {
+  text: string;
+  duration: number;
+}
+
+/**
+ * Estimate sentence timings from the durations of synthesized chunks
+ *
+ * Chunk boundaries are exact since each chunk's audio is measured. Within a
+ * chunk, its duration is shared between sentences in proportion to their length.
+ *
+ * @param segments - Chunks in playback order
+ * @returns Cues covering the whole audio without gaps
+ */
+export function buildTranscriptCues(segments: TimedSegment[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let offset = 0;
+
+  for (const segment of segments) {
+    const sentences = segment.text
+      .split(/\n\s*\n/)
+      .flatMap((paragraph) => splitSentences(paragraph.replace(/\s+/g, ' ')));
+    const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+
+    let elapsed = 0;
+    for (const sentence of sentences) {
+      const start = offset + (segment.duration * elapsed) / totalChars;
+      elapsed += sentence.length;
+      const end = offset + (segment.duration * elapsed) / totalChars;
+      cues.push({ start, end, text: sentence });
+    }
+
+    offset += segment.duration;
+  }
+
+  return cues;
+}
+
+/**
+ * Format seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+function formatTimestamp(seconds: number): string {
+  const millis = Math.round(seconds * 1000);
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor((millis % 3_600_000) / 60_000);
+  const secs = Math.floor((millis % 60_000) / 1000);
+
+  return (
+    [hours, minutes, secs].map((part) => part.toString().padStart(2, '0')).join(':') +
+    `.${(millis % 1000).toString().padStart(3, '0')}`
+  );
+}
+
+/**
+ * Serialize cues as a WebVTT file
+ */
+export function formatWebVTT(cues: TranscriptCue[]): string {
+  const blocks = cues.map(
+    (cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n` +
+      cue.text.replace(/-->/g, '→') // Cue text must not contain the timing arrow
+  );
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * End time of the last cue in a WebVTT file
+ * @returns Seconds, or 0 when the file has no cues
+ */
+export function getWebVTTEnd(vtt: string): number {
+  const timing = /(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})[ \t]+-->[ \t]+(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/g;
+  let end = 0;
+
+  for (const match of vtt.matchAll(timing)) {
+    const [hours = '0', minutes, seconds, millis] = match.slice(5);
+    end = Math.max(end, Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000);
+  }
+
+  return end;
+}
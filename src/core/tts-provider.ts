@@ -0,0 +1,80 @@
+/**
+ * TTS Provider Factory
+ * Selects the synthesis backend configured for a run
+ */
+
+import type { SpeechMarkup, TTSProvider, TTSProviderName } from '../types/index.js';
+import type { ResolvedConfig } from './config.js';
+import { createFishAudioClient } from './fish-api.js';
+import { createOpenAITTSClient } from './openai-api.js';
+import { createCommandTTSClient } from './command-tts.js';
+import type { RateLimiter } from './concurrency.js';
+
+/**
+ * All supported provider names
+ */
+export const TTS_PROVIDERS: readonly TTSProviderName[] = ['fish', 'openai', 'command'];
+
+/**
+ * Check if a string names a supported provider
+ */
+export function isTTSProviderName(name: string): name is TTSProviderName {
+  return (TTS_PROVIDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Create the TTS provider selected in the resolved configuration
+ * Expects the configuration to have passed validateGenerateConfig
+ */
+export function createTTSProvider(config: ResolvedConfig): TTSProvider {
+  switch (config.provider) {
+    case 'fish':
+      return createFishAudioClient(config.fishApiKey!);
+    case 'openai':
+      return createOpenAITTSClient({
+        baseUrl: config.openaiBaseUrl,
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+      });
+    case 'command':
+      return createCommandTTSClient({ command: config.ttsCommand!, markup: config.ttsCommandMarkup });
+  }
+}
+
+/**
+ * Markup the configured provider accepts, without creating it
+ * Matches the `markup` of the provider createTTSProvider returns
+ */
+export function getProviderMarkup(config: ResolvedConfig): SpeechMarkup {
+  return config.provider === 'command' ? config.ttsCommandMarkup : 'none';
+}
+
+/**
+ * Wrap a provider so every request goes through a rate limiter
+ * @param provider - TTS provider
+ * @param limiter - Limiter shared by all requests in the run
+ * @returns Provider with the same name and rate-limited requests
+ */
+export function withRateLimit(provider: TTSProvider, limiter: RateLimiter): TTSProvider {
+  return {
+    name: provider.name,
+    markup: provider.markup,
+    generateTTS: (text, voiceId, encoding, onRetry) =>
+      limiter.schedule(() => provider.generateTTS(text, voiceId, encoding, onRetry)),
+  };
+}
+
+/**
+ * Get the provider settings that affect synthesized audio
+ * Used to scope cached chunks so a model or command change is never served stale audio
+ */
+export function getSynthesisParams(config: ResolvedConfig): Record<string, unknown> {
+  switch (config.provider) {
+    case 'fish':
+      return { provider: 'fish' };
+    case 'openai':
+      return { provider: 'openai', baseUrl: config.openaiBaseUrl, model: config.openaiModel };
+    case 'command':
+      return { provider: 'command', command: config.ttsCommand };
+  }
+}
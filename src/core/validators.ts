@@ -4,17 +4,192 @@
  */
 
 import type { ResolvedConfig } from './config.js';
+import { TTS_PROVIDERS, isTTSProviderName } from './tts-provider.js';
+import { validateKeyTemplate } from './s3-keys.js';
+import { validatePronunciations } from './lexicon.js';
+import { SPEECH_MARKUPS, validateProsody } from './prosody.js';
+import { validateLocales } from './locales.js';
+import { getVoiceEncodings, validateAudioConfig } from './audio-formats.js';
+import { validatePostProcessing } from './post-process.js';
+import { validateBudget } from './estimate.js';
+import { validateReportOptions } from './report.js';
+import { ConfigError } from './errors.js';
 
 /**
- * Validate configuration for generate command
- * Throws if required fields are missing or invalid
+ * Immutable uploads are only safe when every content change produces a new key
  */
-export function validateGenerateConfig(config: ResolvedConfig): void {
+function validateImmutableKeys(config: ResolvedConfig): string[] {
+  if (config.s3Immutable && !config.s3KeyTemplate.includes('{hash}')) {
+    return [`Key template "${config.s3KeyTemplate}" must include {hash} when --immutable is set`];
+  }
+  return [];
+}
+
+/**
+ * Pages without a locale need a default locale for {locale} in keys
+ */
+function validateLocaleKeys(config: ResolvedConfig): string[] {
+  if (config.s3KeyTemplate.includes('{locale}') && !config.defaultLocale) {
+    return [`Key template "${config.s3KeyTemplate}" uses {locale}, so defaultLocale must be set in speaker-config.yaml`];
+  }
+  return [];
+}
+
+/**
+ * Post-processing decodes and re-encodes MP3, so every voice must be MP3 only
+ */
+function validatePostProcessingFormats(config: ResolvedConfig): string[] {
+  if (!config.postProcessing) return [];
+
+  const voices = ['', ...Object.keys(config.audio.voices ?? {})];
+  const formats = voices.flatMap((voiceId) =>
+    getVoiceEncodings(config.audio, voiceId).map((encoding) => encoding?.format)
+  );
+  if (formats.some((format) => format !== 'mp3')) {
+    return ['postProcessing only supports MP3 audio without fallback encodings'];
+  }
+  return [];
+}
+
+/**
+ * Output mode must be one of the supported modes
+ */
+function validateOutputMode(config: ResolvedConfig): string[] {
+  if (config.outputMode !== 'mdx' && config.outputMode !== 'manifest') {
+    return [`Unknown output mode "${config.outputMode}" (expected one of: mdx, manifest)`];
+  }
+  return [];
+}
+
+/**
+ * Extraction rules from YAML must use known values
+ */
+function validateExtractionRules(config: ResolvedConfig): string[] {
   const errors: string[] = [];
+  const allowed: Record<string, string[]> = {
+    codeBlocks: ['summarize', 'skip'],
+    inlineCode: ['expand', 'plain'],
+    tables: ['rows', 'skip'],
+    orderedLists: ['numbered', 'plain'],
+  };
+
+  for (const [rule, values] of Object.entries(allowed)) {
+    const value = config.extractionRules[rule as keyof typeof config.extractionRules];
+    if (!values.includes(value as string)) {
+      errors.push(`Unknown extraction.${rule} "${value}" (expected one of: ${values.join(', ')})`);
+    }
+  }
+
+  for (const [name, leadIn] of Object.entries(config.extractionRules.components ?? {})) {
+    if (typeof leadIn !== 'string' && leadIn !== false) {
+      errors.push(`extraction.components.${name} must be a lead-in string or false`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The selected provider must have its key, endpoint or command
+ */
+function validateProviderCredentials(config: ResolvedConfig): string[] {
+  if (config.provider === 'fish' && !config.fishApiKey) {
+    return ['FISH_API_KEY (--api-key or env var)'];
+  } else if (
+    config.provider === 'openai' &&
+    !config.openaiApiKey &&
+    URL.canParse(config.openaiBaseUrl) &&
+    new URL(config.openaiBaseUrl).hostname === 'api.openai.com'
+  ) {
+    // Self-hosted endpoints may not need a key, the public API always does
+    return ['OPENAI_API_KEY (--openai-api-key or env var), required for api.openai.com'];
+  } else if (config.provider === 'command' && !config.ttsCommand) {
+    return ['TTS command (--tts-command, TTS_COMMAND env var, or speaker-config.yaml)'];
+  }
+  return [];
+}
+
+/**
+ * Check everything a generate run depends on
+ * @param requireCredentials - Whether provider credentials must be set (not needed to estimate a run)
+ */
+function validateRunConfig(config: ResolvedConfig, requireCredentials: boolean): string[] {
+  const errors: string[] = [];
+
+  // Check provider and its credentials
+  if (!isTTSProviderName(config.provider)) {
+    errors.push(
+      `Unknown provider "${config.provider}" (expected one of: ${TTS_PROVIDERS.join(', ')})`
+    );
+  } else if (requireCredentials) {
+    errors.push(...validateProviderCredentials(config));
+  }
+
+  if (!SPEECH_MARKUPS.includes(config.ttsCommandMarkup)) {
+    errors.push(
+      `command.markup must be one of: ${SPEECH_MARKUPS.join(', ')} (got "${config.ttsCommandMarkup}")`
+    );
+  }
+
+  // Check output encodings against what the provider can produce
+  if (isTTSProviderName(config.provider)) {
+    errors.push(...validateAudioConfig(config.audio, config.provider));
+  }
+
+  // Check post-processing settings
+  if (config.postProcessing) {
+    errors.push(...validatePostProcessing(config.postProcessing), ...validatePostProcessingFormats(config));
+  }
+
+  // Check chunk budget
+  if (!Number.isInteger(config.maxChunkChars) || config.maxChunkChars <= 0) {
+    errors.push(`Max chunk characters must be a positive integer (got ${config.maxChunkChars})`);
+  }
+
+  // Check S3 key template
+  errors.push(
+    ...validateImmutableKeys(config),
+    ...validateLocaleKeys(config),
+    ...validateKeyTemplate(config.s3KeyTemplate)
+  );
+
+  // Check per-locale voices
+  errors.push(...validateLocales(config.locales));
+
+  // Check output mode and run report
+  errors.push(...validateOutputMode(config), ...validateReportOptions(config.report));
+
+  // Check extraction rules, pronunciation lexicon and prosody
+  errors.push(
+    ...validateExtractionRules(config),
+    ...validatePronunciations(config.pronunciations),
+    ...validateProsody(config.prosody)
+  );
+
+  // Check prices and budget limits
+  errors.push(...validateBudget(config.budget, config.pricePerMillion));
+
+  // Check concurrency
+  if (!Number.isInteger(config.concurrency) || config.concurrency <= 0) {
+    errors.push(`Concurrency must be a positive integer (got ${config.concurrency})`);
+  }
 
-  // Check Fish API key
-  if (!config.fishApiKey) {
-    errors.push('FISH_API_KEY (--api-key or env var)');
+  // Check the failure limit
+  if (
+    config.maxFailures !== undefined &&
+    (!Number.isInteger(config.maxFailures) || config.maxFailures <= 0)
+  ) {
+    errors.push(`Max failures must be a positive integer (got ${config.maxFailures})`);
+  }
+
+  // Check the shared chunk cache stays out of the audio prefix (cleanup would delete it)
+  if (config.cacheS3Prefix) {
+    const cachePrefix = config.cacheS3Prefix.replace(/\/$/, '');
+    if (cachePrefix === config.s3PathPrefix || cachePrefix.startsWith(`${config.s3PathPrefix}/`)) {
+      errors.push(
+        `Cache S3 prefix "${config.cacheS3Prefix}" must not be inside the audio path prefix "${config.s3PathPrefix}"`
+      );
+    }
   }
 
   // Check voices
@@ -35,19 +210,112 @@ export function validateGenerateConfig(config: ResolvedConfig): void {
     }
   }
 
+  return errors;
+}
+
+/**
+ * Validate configuration for generate command
+ * Throws a ConfigError if required fields are missing or invalid
+ */
+export function validateGenerateConfig(config: ResolvedConfig): void {
+  const errors = validateRunConfig(config, true);
+
   if (errors.length > 0) {
-    throw new Error(
+    throw new ConfigError(
       `Missing or invalid configuration for generate command:\n  - ${errors.join('\n  - ')}\n\nSet these via CLI flags, environment variables, or speaker-config.yaml.`
     );
   }
 }
 
+/**
+ * Validate configuration for estimate command
+ * Same as generate, except that provider credentials aren't needed
+ */
+export function validateEstimateConfig(config: ResolvedConfig): void {
+  const errors = validateRunConfig(config, false);
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Missing or invalid configuration for estimate command:\n  - ${errors.join('\n  - ')}\n\nSet these via CLI flags, environment variables, or speaker-config.yaml.`
+    );
+  }
+}
+
+/**
+ * Validate configuration for check command
+ * Pages are planned as generate would, so the same settings apply, minus provider credentials
+ */
+export function validateCheckConfig(config: ResolvedConfig): void {
+  const errors = validateRunConfig(config, false);
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Missing or invalid configuration for check command:\n  - ${errors.join('\n  - ')}\n\nSet these via CLI flags, environment variables, or speaker-config.yaml.`
+    );
+  }
+}
+
 /**
  * Validate configuration for cleanup command
- * Currently cleanup only needs S3 config which is always validated in resolveConfig
- * This is a placeholder for any future cleanup-specific validation
+ * S3 fields are already validated in resolveConfig; cleanup also needs a known output mode and report format
  */
 export function validateCleanupConfig(config: ResolvedConfig): void {
-  // S3 fields are already validated in resolveConfig
-  // No additional validation needed for cleanup
-}
\ No newline at end of file
+  const errors = [...validateOutputMode(config), ...validateReportOptions(config.report)];
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration for cleanup command:\n  - ${errors.join('\n  - ')}`
+    );
+  }
+}
+
+/**
+ * Validate configuration for remove command
+ * Like cleanup, remove only needs a known output mode on top of the S3 fields
+ */
+export function validateRemoveConfig(config: ResolvedConfig): void {
+  const errors = validateOutputMode(config);
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration for remove command:\n  - ${errors.join('\n  - ')}`
+    );
+  }
+}
+
+/**
+ * Validate configuration for verify command
+ * Verify reads pages as cleanup does and checks objects in parallel
+ */
+export function validateVerifyConfig(config: ResolvedConfig): void {
+  const errors = validateOutputMode(config);
+
+  if (!Number.isInteger(config.concurrency) || config.concurrency <= 0) {
+    errors.push(`Concurrency must be a positive integer (got ${config.concurrency})`);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration for verify command:\n  - ${errors.join('\n  - ')}`
+    );
+  }
+}
+
+/**
+ * Validate configuration for migrate-keys command
+ * Throws if the target key template is invalid
+ */
+export function validateMigrateKeysConfig(config: ResolvedConfig): void {
+  const errors = [
+    ...validateOutputMode(config),
+    ...validateImmutableKeys(config),
+    ...validateLocaleKeys(config),
+    ...validateKeyTemplate(config.s3KeyTemplate),
+  ];
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration for migrate-keys command:\n  - ${errors.join('\n  - ')}`
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Audio Verification
+ * Checks that the objects pages reference exist and hold playable audio
+ */
+
+import type { AudioFormat, Voice } from '../types/index.js';
+import { getAudioContentType, getAudioDuration, getAudioFormatFromUrl } from './audio-formats.js';
+import { parseMp3Frames } from './audio.js';
+
+/**
+ * Audio shorter than its transcript or recorded duration by more than this is truncated
+ */
+const DURATION_TOLERANCE = 0.5; // Seconds
+
+/**
+ * An object a page references
+ */
+export interface ObjectReference {
+  file: string; // Page path relative to the docs directory
+  voiceId?: string; // Unset for the manifest
+  kind: 'audio' | 'transcript' | 'manifest';
+  url: string;
+  key: string;
+  contentType: string; // Expected content type
+  format?: AudioFormat; // Audio only
+  duration?: number; // Recorded in manifest mode, in seconds
+}
+
+/**
+ * Size and content type of a stored object
+ */
+export interface ObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+/**
+ * List the audio (every encoding) and transcript objects of a voice
+ * @param file - Page path relative to the docs directory
+ * @param voice - Voice as recorded in the page or manifest
+ * @param toKey - Map a public URL to its S3 key
+ */
+export function getVoiceReferences(
+  file: string,
+  voice: Voice,
+  toKey: (url: string) => string
+): ObjectReference[] {
+  const audioUrls = (voice.sources?.length ? voice.sources.map((source) => source.url) : [voice.url]).filter(
+    (url): url is string => !!url
+  );
+  const references: ObjectReference[] = audioUrls.map((url, index) => {
+    const format = getAudioFormatFromUrl(url);
+    return {
+      file,
+      voiceId: voice.id,
+      kind: 'audio',
+      url,
+      key: toKey(url),
+      contentType: getAudioContentType(format),
+      format,
+      // The recorded duration is the primary encoding's
+      ...(index === 0 && voice.duration !== undefined && { duration: voice.duration }),
+    };
+  });
+
+  if (voice.transcriptUrl) {
+    references.push({
+      file,
+      voiceId: voice.id,
+      kind: 'transcript',
+      url: voice.transcriptUrl,
+      key: toKey(voice.transcriptUrl),
+      contentType: 'text/vtt',
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Check an object's existence, size and content type
+ * @returns What is wrong with the object, or null when it looks fine
+ */
+export function checkObjectInfo(reference: ObjectReference, info: ObjectInfo | null): string | null {
+  if (!info) return 'missing';
+  if (info.size === 0) return 'empty';
+
+  // Ignore parameters such as charset
+  const contentType = info.contentType?.split(';')[0]?.trim().toLowerCase();
+  if (contentType !== reference.contentType) {
+    return `content type ${contentType ?? 'not set'}, expected ${reference.contentType}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that audio parses and runs as long as its transcript and recorded duration
+ * @param audio - Object contents
+ * @param transcriptEnd - End of the voice's last transcript cue, in seconds
+ * @returns What is wrong with the audio, or null when it plays
+ */
+export function checkAudioContent(
+  reference: ObjectReference,
+  audio: Buffer,
+  transcriptEnd?: number
+): string | null {
+  const format = reference.format ?? 'mp3';
+
+  let duration: number;
+  try {
+    duration = getAudioDuration(audio, format);
+  } catch (error: any) {
+    return `unplayable: ${error.message}`;
+  }
+  if (duration === 0) {
+    return `unplayable: no ${format} audio found`;
+  }
+
+  // An MP3 cut off mid-frame leaves bytes after its last whole frame (other than an ID3v1 tag)
+  if (format === 'mp3') {
+    const frames = parseMp3Frames(audio);
+    const last = frames[frames.length - 1]!;
+    const trailing = audio.subarray(last.offset + last.length);
+    if (trailing.length > 0 && !(trailing.length === 128 && trailing.toString('latin1', 0, 3) === 'TAG')) {
+      return `truncated: ${trailing.length} byte(s) after the last complete frame`;
+    }
+  }
+
+  for (const [expected, source] of [
+    [transcriptEnd, 'transcript'],
+    [reference.duration, 'recorded duration'],
+  ] as const) {
+    if (expected !== undefined && duration < expected - DURATION_TOLERANCE) {
+      return `truncated: ${duration.toFixed(1)}s of audio, ${source} is ${expected.toFixed(1)}s`;
+    }
+  }
+
+  return null;
+}
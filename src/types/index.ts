@@ -9,8 +9,36 @@ export interface Voice {
   id: string;
   name: string;
   url?: string;
+  transcriptUrl?: string; // WebVTT track with sentence timings
+  chapters?: Chapter[]; // Sections of the page, when it has H2/H3 headings
+  duration?: number; // Seconds, recorded in manifest mode
+  sources?: AudioSource[]; // Every encoding of the audio, primary first, when fallbacks are configured
 }
 
+/**
+ * One encoding of a voice's audio, for <source> fallbacks
+ */
+export interface AudioSource {
+  url: string;
+  type: string; // MIME type, e.g. "audio/ogg; codecs=opus"
+}
+
+/**
+ * A page section within a voice's audio
+ */
+export interface Chapter {
+  title: string;
+  anchor: string; // Heading anchor on the rendered page
+  start: number; // Seconds from the start of the audio
+}
+
+/**
+ * Where generate records audio for each page
+ * - mdx: inject voices and hash into every page
+ * - manifest: write a JSON manifest and leave page content alone
+ */
+export type OutputMode = 'mdx' | 'manifest';
+
 /**
  * Audio metadata stored for each file
  */
@@ -38,6 +66,8 @@ export interface S3Config {
   secretAccessKey: string;
   publicUrl: string; // CDN URL for accessing files
   pathPrefix?: string; // Optional prefix like "audio/"
+  keyTemplate?: string; // Object key layout, e.g. "{prefix}/{path}/{voice}.{ext}"
+  cacheControl?: string; // Cache-Control header for uploaded audio
 }
 
 /**
@@ -52,15 +82,80 @@ export interface TTSConfig {
   componentName?: string;
 }
 
+/**
+ * Supported TTS provider backends
+ */
+export type TTSProviderName = 'fish' | 'openai' | 'command';
+
+/**
+ * Markup a provider accepts: plain text only, or SSML
+ */
+export type SpeechMarkup = 'none' | 'ssml';
+
+/**
+ * Container/codec of synthesized audio
+ */
+export type AudioFormat = 'mp3' | 'opus' | 'aac';
+
+/**
+ * Requested output encoding
+ */
+export interface AudioEncoding {
+  format: AudioFormat;
+  bitrate?: number; // kbps; the provider's default when unset
+  sampleRate?: number; // Hz; the provider's default when unset
+}
+
+/**
+ * Text-to-speech backend used to synthesize page audio
+ */
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  readonly markup: SpeechMarkup; // Providers without markup support only ever receive plain text
+
+  /**
+   * Generate TTS audio
+   * @param text - Text to convert to speech
+   * @param voiceId - Provider-specific voice identifier
+   * @param encoding - Output format and quality (default: MP3 at the provider's bitrate)
+   * @param onRetry - Called with a message when a failed request is retried
+   * @returns Audio buffer in the requested format
+   */
+  generateTTS(
+    text: string,
+    voiceId: string,
+    encoding?: AudioEncoding,
+    onRetry?: (message: string) => void
+  ): Promise<Buffer>;
+}
+
+/**
+ * OpenAI-compatible speech endpoint configuration
+ */
+export interface OpenAITTSConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or a self-hosted server
+  apiKey?: string; // Optional for self-hosted servers
+  model: string;
+}
+
+/**
+ * Local command provider configuration
+ */
+export interface CommandTTSConfig {
+  command: string; // Shell command; supports {voice}, {output}, {format}, {bitrate} and {sampleRate} placeholders
+  markup?: SpeechMarkup; // Whether the command reads SSML (default: none)
+}
+
 /**
  * Fish Audio API request parameters
  */
 export interface FishAudioRequest {
   text: string;
   reference_id: string;
-  format?: string;
-  mp3_bitrate?: number;
-  opus_bitrate?: number;
+  format?: 'wav' | 'pcm' | 'mp3' | 'opus';
+  sample_rate?: number;
+  mp3_bitrate?: 64 | 128 | 192;
+  opus_bitrate?: -1000 | 24 | 32 | 48 | 64;
   latency?: 'normal' | 'balanced';
   streaming?: boolean;
 }
@@ -75,13 +170,115 @@ export interface ProcessingResult {
   error?: string;
   skipped?: boolean;
   reason?: string;
+  warnings?: string[]; // Provider retries and other problems that didn't fail the file
+  characters?: number; // Characters sent to the provider
+  bytesUploaded?: number; // Audio and transcripts
+  durationMs?: number;
+}
+
+/**
+ * Process exit code of a command (see EXIT_CODES in core/errors.ts)
+ */
+export type ExitCode = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Outcome of a command, returned instead of exiting the process
+ */
+export interface CommandResult {
+  exitCode: ExitCode;
+  error?: string; // Why the command stopped, when it did
+}
+
+/**
+ * Outcome of the generate command
+ */
+export interface GenerateResult extends CommandResult {
+  results: ProcessingResult[]; // Per file, in order; empty when the run stopped before processing
+}
+
+/**
+ * Outcome of the estimate command
+ */
+export interface EstimateResult extends CommandResult {
+  pages: number; // Pages a generate run would synthesize
+  characters: number;
+  cost: number; // USD
+}
+
+/**
+ * Outcome of the cleanup command
+ */
+export interface CleanupResult extends CommandResult {
+  orphanedKeys: string[];
+  deletedKeys: string[]; // Empty in dry-run mode
+}
+
+/**
+ * Why a page's recorded narration doesn't match what generate would produce now
+ * - missing: no audio recorded (no component, or no manifest entry)
+ * - voices: recorded for other voices than configured
+ * - stale: recorded from different text or audio settings, or without a hash
+ * - disabled: narration turned off in frontmatter, but the page still has audio
+ */
+export type PageChange = 'missing' | 'voices' | 'stale' | 'disabled';
+
+/**
+ * A page whose narration needs generating, or removing
+ */
+export interface OutdatedPage {
+  file: string;
+  change: PageChange;
+  message: string;
+}
+
+/**
+ * Outcome of the check command
+ */
+export interface CheckResult extends CommandResult {
+  upToDate: string[];
+  outdated: OutdatedPage[];
+  failed: Array<{ file: string; error: string }>; // Pages that couldn't be read or extracted
+}
+
+/**
+ * An object a page references that is missing or unplayable
+ */
+export interface BrokenObject {
+  file: string;
+  voiceId?: string; // Unset for the manifest
+  key: string;
+  problem: string;
+}
+
+/**
+ * Outcome of the verify command
+ */
+export interface VerifyResult extends CommandResult {
+  checked: number; // Objects checked
+  broken: BrokenObject[];
+  markedStale: string[]; // Pages whose hash was cleared for regeneration
 }
 
 /**
  * CLI command options for generate command
  */
 export interface GenerateOptions {
+  provider?: string;
   apiKey?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  ttsCommand?: string;
+  audioFormat?: string;
+  audioBitrate?: number;
+  maxChunkChars?: number;
+  maxCharacters?: number;
+  maxCost?: number;
+  overBudget?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  cacheS3Prefix?: string;
+  concurrency?: number;
   voices?: string; // Optional - can come from speaker-config.yaml
   voiceNames?: string;
   s3Bucket?: string; // Optional - can come from speaker-config.yaml
@@ -91,14 +288,58 @@ export interface GenerateOptions {
   s3SecretAccessKey?: string;
   s3PublicUrl?: string; // Optional - can come from speaker-config.yaml
   s3PathPrefix?: string;
+  s3KeyTemplate?: string;
+  immutable?: boolean;
+  output?: string;
+  manifest?: string;
   componentImport?: string;
   componentName?: string;
   pattern?: string;
+  report?: string;
+  reportFormat?: string;
+  failFast?: boolean;
+  maxFailures?: number;
   force?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
 }
 
+/**
+ * CLI command options for estimate command
+ */
+export interface EstimateOptions {
+  provider?: string;
+  voices?: string;
+  voiceNames?: string;
+  audioFormat?: string;
+  audioBitrate?: number;
+  maxCharacters?: number;
+  maxCost?: number;
+  overBudget?: string;
+  output?: string;
+  manifest?: string;
+  componentName?: string;
+  pattern?: string;
+  force?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * CLI command options for check command
+ */
+export interface CheckOptions {
+  provider?: string;
+  voices?: string;
+  voiceNames?: string;
+  audioFormat?: string;
+  audioBitrate?: number;
+  output?: string;
+  manifest?: string;
+  componentName?: string;
+  pattern?: string;
+  verbose?: boolean;
+}
+
 /**
  * CLI command options for cleanup command
  */
@@ -110,8 +351,74 @@ export interface CleanupOptions {
   s3SecretAccessKey?: string;
   s3PublicUrl?: string;
   s3PathPrefix?: string;
+  output?: string;
+  manifest?: string;
   componentName?: string;
   pattern?: string;
+  report?: string;
+  reportFormat?: string;
   dryRun?: boolean;
   verbose?: boolean;
 }
+
+/**
+ * CLI command options for remove command
+ */
+export interface RemoveOptions {
+  s3Bucket?: string;
+  s3Region?: string;
+  s3Endpoint?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3PublicUrl?: string;
+  s3PathPrefix?: string;
+  output?: string;
+  manifest?: string;
+  componentName?: string;
+  pattern?: string;
+  deleteAudio?: boolean;
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * CLI command options for migrate-keys command
+ */
+export interface MigrateKeysOptions {
+  s3Bucket?: string;
+  s3Region?: string;
+  s3Endpoint?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3PublicUrl?: string;
+  s3PathPrefix?: string;
+  s3KeyTemplate?: string;
+  immutable?: boolean;
+  output?: string;
+  manifest?: string;
+  componentName?: string;
+  pattern?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * CLI command options for verify command
+ */
+export interface VerifyOptions {
+  s3Bucket?: string;
+  s3Region?: string;
+  s3Endpoint?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3PublicUrl?: string;
+  s3PathPrefix?: string;
+  output?: string;
+  manifest?: string;
+  componentName?: string;
+  pattern?: string;
+  concurrency?: number;
+  deep?: boolean;
+  markStale?: boolean;
+  verbose?: boolean;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { concatAac, getAacDuration, parseAdtsFrames } from '../src/core/aac.js';
+import { concatOpus, getOpusDuration, oggCrc, parseOggPages } from '../src/core/ogg-opus.js';
+import {
+  concatAudio,
+  getAudioContentType,
+  getAudioDuration,
+  getAudioFormatFromUrl,
+  getVoiceEncodings,
+  validateAudioConfig,
+} from '../src/core/audio-formats.js';
+import { AAC_FRAME_DURATION, AAC_FRAME_LENGTH, silentAac } from './helpers/aac.js';
+import { OPUS_FRAME_DURATION, OPUS_PRE_SKIP, silentOpus } from './helpers/opus.js';
+import { FRAME_DURATION, silentMp3 } from './helpers/mp3.js';
+
+describe('ADTS (AAC)', () => {
+  it('parses frames and sums their durations', () => {
+    const frames = parseAdtsFrames(silentAac(4));
+
+    expect(frames).toHaveLength(4);
+    expect(frames[1]).toMatchObject({ offset: AAC_FRAME_LENGTH, length: AAC_FRAME_LENGTH, sampleRate: 44100, samples: 1024 });
+    expect(getAacDuration(silentAac(4))).toBeCloseTo(4 * AAC_FRAME_DURATION);
+  });
+
+  it('joins frames and rejects segments without any', () => {
+    expect(parseAdtsFrames(concatAac([silentAac(2), silentAac(3)]))).toHaveLength(5);
+    expect(() => concatAac([silentAac(1), Buffer.from('not audio')])).toThrow(
+      'Audio segment 2 is not a valid AAC (ADTS) stream'
+    );
+  });
+});
+
+describe('Ogg Opus', () => {
+  it('measures duration from the final granule position less pre-skip', () => {
+    expect(getOpusDuration(silentOpus(5))).toBeCloseTo(5 * OPUS_FRAME_DURATION);
+    expect(getOpusDuration(Buffer.from('not audio'))).toBe(0);
+  });
+
+  it('remuxes segments into one logical stream with valid pages', () => {
+    const combined = concatOpus([silentOpus(2, { serial: 7 }), silentOpus(3, { serial: 9 })]);
+    const pages = parseOggPages(combined);
+
+    // One set of headers, then every audio page renumbered into the first stream
+    expect(pages).toHaveLength(2 + 5);
+    expect(pages.map((page) => page.serial)).toEqual(Array(7).fill(7));
+    expect(pages.map((page) => page.sequence)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(pages.map((page) => page.flags)).toEqual([0x02, 0, 0, 0, 0, 0, 0x04]);
+
+    for (const page of pages) {
+      const bytes = Buffer.from(combined.subarray(page.offset, page.offset + page.length));
+      const crc = bytes.readUInt32LE(22);
+      bytes.writeUInt32LE(0, 22);
+      expect(oggCrc(bytes)).toBe(crc);
+    }
+
+    // Later segments' pre-skip is played, so it adds to the total
+    expect(getOpusDuration(combined)).toBeCloseTo(5 * OPUS_FRAME_DURATION + OPUS_PRE_SKIP / 48000);
+  });
+
+  it('rejects segments that are not Ogg Opus', () => {
+    expect(() => concatOpus([silentOpus(1), silentMp3(1)])).toThrow(
+      'Audio segment 2 is not a valid Ogg Opus stream'
+    );
+  });
+});
+
+describe('format dispatch', () => {
+  it('stitches and measures each format', () => {
+    expect(getAudioDuration(concatAudio([silentMp3(1), silentMp3(2)]))).toBeCloseTo(3 * FRAME_DURATION);
+    expect(getAudioDuration(concatAudio([silentAac(1), silentAac(2)], 'aac'), 'aac')).toBeCloseTo(
+      3 * AAC_FRAME_DURATION
+    );
+    expect(getAudioDuration(silentOpus(3), 'opus')).toBeCloseTo(3 * OPUS_FRAME_DURATION);
+  });
+
+  it('maps formats to content types and back from URLs', () => {
+    expect(getAudioContentType('opus')).toBe('audio/ogg; codecs=opus');
+    expect(getAudioFormatFromUrl('https://cdn.test/audio/basic/alloy.opus')).toBe('opus');
+    expect(getAudioFormatFromUrl('https://cdn.test/audio/basic/alloy.aac?v=2')).toBe('aac');
+    expect(getAudioFormatFromUrl('https://cdn.test/audio/basic/alloy.mp3')).toBe('mp3');
+  });
+});
+
+describe('getVoiceEncodings', () => {
+  const config = {
+    format: 'opus' as const,
+    bitrate: 32,
+    fallbacks: [{ format: 'mp3' as const }],
+    voices: {
+      echo: { format: 'mp3' as const, fallbacks: [] },
+      nova: { bitrate: 48 },
+    },
+  };
+
+  it('defaults to MP3', () => {
+    expect(getVoiceEncodings({}, 'alloy')).toEqual([{ format: 'mp3' }]);
+  });
+
+  it('applies global settings and per-voice overrides', () => {
+    expect(getVoiceEncodings(config, 'alloy')).toEqual([{ format: 'opus', bitrate: 32 }, { format: 'mp3' }]);
+    expect(getVoiceEncodings(config, 'echo')).toEqual([{ format: 'mp3' }]);
+    expect(getVoiceEncodings(config, 'nova')).toEqual([{ format: 'opus', bitrate: 48 }, { format: 'mp3' }]);
+  });
+});
+
+describe('validateAudioConfig', () => {
+  it('accepts formats and bitrates the provider supports', () => {
+    expect(validateAudioConfig({ format: 'opus', bitrate: 32, fallbacks: [{ format: 'mp3' }] }, 'fish')).toEqual([]);
+    expect(validateAudioConfig({ format: 'aac', fallbacks: [{ format: 'mp3' }] }, 'openai')).toEqual([]);
+  });
+
+  it('reports unsupported formats, bitrates and duplicate encodings', () => {
+    expect(
+      validateAudioConfig(
+        {
+          format: 'aac',
+          voices: { alloy: { format: 'mp3', bitrate: 96, fallbacks: [{ format: 'mp3' }] } },
+        },
+        'fish'
+      )
+    ).toEqual([
+      'audio.format "aac" is not supported by the fish provider (expected one of: mp3, opus)',
+      'audio.voices.alloy.bitrate for mp3 must be one of: 64, 128, 192 (got 96)',
+      'audio.voices.alloy lists the same format more than once (mp3, mp3)',
+    ]);
+    expect(validateAudioConfig({ format: 'wav' as any, sampleRate: 22050 }, 'openai')).toEqual([
+      'audio.format must be one of: mp3, opus, aac (got "wav")',
+    ]);
+    expect(validateAudioConfig({ sampleRate: 22050 }, 'openai')).toEqual([
+      'audio.sampleRate is not supported by the openai provider',
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { concatMp3, getMp3Duration, parseMp3Frames } from '../src/core/audio.js';
+import { FRAME_DURATION, FRAME_LENGTH, silentMp3 } from './helpers/mp3.js';
+
+describe('parseMp3Frames', () => {
+  it('finds every frame after an ID3 tag', () => {
+    const frames = parseMp3Frames(silentMp3(3, { id3: true }));
+
+    expect(frames).toHaveLength(3);
+    expect(frames[0]).toMatchObject({ offset: 15, length: FRAME_LENGTH, bitrate: 128, sampleRate: 44100 });
+  });
+
+  it('ignores data that is not MP3', () => {
+    expect(parseMp3Frames(Buffer.from('RIFF....WAVEfmt '))).toEqual([]);
+  });
+});
+
+describe('getMp3Duration', () => {
+  it('sums frame durations', () => {
+    expect(getMp3Duration(silentMp3(10))).toBeCloseTo(10 * FRAME_DURATION);
+  });
+});
+
+describe('concatMp3', () => {
+  it('returns a single segment unchanged', () => {
+    const segment = silentMp3(2, { id3: true });
+    expect(concatMp3([segment])).toBe(segment);
+  });
+
+  it('joins frames and drops tags', () => {
+    const combined = concatMp3([silentMp3(2, { id3: true }), silentMp3(3)]);
+
+    expect(combined.length).toBe(5 * FRAME_LENGTH);
+    expect(parseMp3Frames(combined)).toHaveLength(5);
+  });
+
+  it('rejects segments without audio frames', () => {
+    expect(() => concatMp3([silentMp3(1), Buffer.from('not audio')])).toThrow(
+      'Audio segment 2 is not a valid MP3 stream'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkCommand } from '../src/commands/check.js';
+import { generateCommand } from '../src/commands/generate.js';
+import { EXIT_CODES } from '../src/core/errors.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir, PAGES } from './helpers/fixtures.js';
+import { generateOptions, quietCommands } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  tts.requests.length = 0;
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+// No S3 settings or provider credentials
+const checkOptions = { provider: 'openai', voices: 'alloy,echo', voiceNames: 'Alloy,Echo' };
+
+describe('checkCommand', () => {
+  it('reports pages without audio, or recorded for other voices', async () => {
+    const result = await checkCommand(directory, checkOptions);
+
+    expect(result.exitCode).toBe(EXIT_CODES.outdated);
+    expect(result.upToDate).toEqual([]);
+    expect(result.outdated).toHaveLength(PAGES.length);
+    expect(result.outdated.find((page) => page.file === 'basic.mdx')).toEqual({
+      file: 'basic.mdx',
+      change: 'missing',
+      message: 'no audio component',
+    });
+    expect(result.outdated.find((page) => page.file === 'existing.mdx')).toEqual({
+      file: 'existing.mdx',
+      change: 'voices',
+      message: 'voices alloy, expected alloy, echo',
+    });
+
+    // The fixture's hash is a placeholder
+    const alloy = await checkCommand(directory, { ...checkOptions, voices: 'alloy', voiceNames: 'Alloy' });
+    expect(alloy.outdated.find((page) => page.file === 'existing.mdx')?.change).toBe('stale');
+  });
+
+  it('passes after generate and catches edited pages', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const requests = tts.requests.length;
+
+    const result = await checkCommand(directory, checkOptions);
+    expect(result).toMatchObject({ exitCode: EXIT_CODES.success, outdated: [], failed: [] });
+    expect(result.upToDate).toHaveLength(PAGES.length);
+
+    const basic = path.join(directory, 'basic.mdx');
+    await fs.writeFile(basic, (await fs.readFile(basic, 'utf-8')).replace('ready to go', 'all set'));
+
+    const edited = await checkCommand(directory, checkOptions);
+    expect(edited.exitCode).toBe(EXIT_CODES.outdated);
+    expect(edited.outdated).toEqual([
+      { file: 'basic.mdx', change: 'stale', message: 'content or audio settings changed since audio was generated' },
+    ]);
+    expect(tts.requests).toHaveLength(requests);
+  });
+
+  it('reports pages that opt out but still have audio', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+    const basic = path.join(directory, 'basic.mdx');
+    await fs.writeFile(basic, (await fs.readFile(basic, 'utf-8')).replace(/^---\n/, '---\nspeak: false\n'));
+
+    const result = await checkCommand(directory, { ...checkOptions, pattern: 'basic.mdx' });
+    expect(result.exitCode).toBe(EXIT_CODES.outdated);
+    expect(result.outdated).toEqual([
+      { file: 'basic.mdx', change: 'disabled', message: 'narration disabled in frontmatter, but audio remains' },
+    ]);
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+    const cleared = await checkCommand(directory, { ...checkOptions, pattern: 'basic.mdx' });
+    expect(cleared).toMatchObject({ exitCode: EXIT_CODES.success, outdated: [] });
+  });
+
+  it('reads the manifest in manifest mode', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), output: 'manifest', pattern: 'basic.mdx' });
+
+    const result = await checkCommand(directory, { ...checkOptions, output: 'manifest' });
+
+    expect(result.upToDate).toEqual(['basic.mdx']);
+    expect(result.outdated.find((page) => page.file === 'nested.mdx')?.message).toBe('no manifest entry');
+  });
+
+  it('returns a config error for invalid settings', async () => {
+    const result = await checkCommand(directory, { ...checkOptions, provider: 'nope' });
+
+    expect(result.exitCode).toBe(EXIT_CODES.configError);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoChunks } from '../src/core/chunker.js';
+
+const text = [
+  'First paragraph. It is short.',
+  'Second paragraph has several sentences. Each one ends with punctuation! Does it split? Yes.',
+  'Third.',
+].join('\n\n');
+
+describe('splitIntoChunks', () => {
+  it('keeps short text in one chunk', () => {
+    expect(splitIntoChunks(text, 1000)).toEqual([text]);
+  });
+
+  it('packs paragraphs up to the budget', () => {
+    const chunks = splitIntoChunks(text, 100);
+
+    expect(chunks).toEqual([
+      'First paragraph. It is short.',
+      'Second paragraph has several sentences. Each one ends with punctuation! Does it split? Yes.\n\nThird.',
+    ]);
+  });
+
+  it('splits long paragraphs at sentence boundaries', () => {
+    const chunks = splitIntoChunks(text, 50);
+
+    expect(chunks).toContain('Second paragraph has several sentences.');
+    expect(chunks.every((chunk) => chunk.length <= 50)).toBe(true);
+  });
+
+  it('splits run-on sentences at word boundaries', () => {
+    const chunks = splitIntoChunks('word '.repeat(40).trim(), 30);
+
+    expect(chunks.every((chunk) => chunk.length <= 30)).toBe(true);
+    expect(chunks.join(' ')).toBe('word '.repeat(40).trim());
+  });
+
+  it('gives every paragraph its own chunk without packing', () => {
+    expect(splitIntoChunks(text, 1000, { packParagraphs: false })).toHaveLength(3);
+  });
+
+  it('is deterministic', () => {
+    expect(splitIntoChunks(text, 40)).toEqual(splitIntoChunks(text, 40));
+  });
+});
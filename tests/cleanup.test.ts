@@ -0,0 +1,65 @@
+import fs from 'fs/promises';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanupCommand } from '../src/commands/cleanup.js';
+import { generateCommand } from '../src/commands/generate.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir } from './helpers/fixtures.js';
+import { BUCKET, generateOptions, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const orphan = { body: Buffer.from('old'), contentType: 'audio/mpeg' };
+
+describe('cleanupCommand', () => {
+  it('deletes only unreferenced audio', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const referenced = s3.keys(BUCKET);
+    s3.put(BUCKET, 'audio/removed-page/alloy.mp3', orphan);
+    s3.put(BUCKET, 'speak-cache/ab/abc.mp3', orphan);
+
+    await cleanupCommand(directory, s3Options(s3));
+
+    expect(s3.keys(BUCKET)).toEqual([...referenced, 'speak-cache/ab/abc.mp3'].sort());
+  });
+
+  it('keeps everything in dry-run mode', async () => {
+    s3.put(BUCKET, 'audio/removed-page/alloy.mp3', orphan);
+
+    await cleanupCommand(directory, { ...s3Options(s3), dryRun: true });
+
+    expect(s3.keys(BUCKET)).toEqual(['audio/removed-page/alloy.mp3']);
+  });
+
+  it('reads references from the manifest in manifest mode', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), output: 'manifest' });
+    const referenced = s3.keys(BUCKET);
+    s3.put(BUCKET, 'audio/removed-page/alloy.mp3', orphan);
+
+    await cleanupCommand(directory, { ...s3Options(s3), output: 'manifest' });
+
+    expect(referenced).toContain('audio/manifest.json');
+    expect(s3.keys(BUCKET)).toEqual(referenced);
+  });
+});
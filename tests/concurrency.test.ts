@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter, mapWithConcurrency } from '../src/core/concurrency.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('never exceeds the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      peak = Math.max(peak, ++active);
+      await delay(5);
+      active--;
+    });
+
+    expect(peak).toBe(3);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('limits tasks in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.schedule(async () => {
+          peak = Math.max(peak, ++active);
+          await delay(5);
+          active--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { estimateCommand } from '../src/commands/estimate.js';
+import { generateCommand } from '../src/commands/generate.js';
+import { checkBudget, estimateRun, formatCost, validateBudget } from '../src/core/estimate.js';
+import { EXIT_CODES } from '../src/core/errors.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir, PAGES } from './helpers/fixtures.js';
+import { BUCKET, generateOptions, quietCommands } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  tts.requests.length = 0;
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Lines the command printed
+ */
+const printed = () => vi.mocked(console.log).mock.calls.map((call) => String(call[0]));
+
+/**
+ * Characters the estimate command reported
+ */
+const reportedCharacters = () => {
+  const line = printed().find((line) => line.includes('Characters:'))!;
+  return Number(line.replace(/\D/g, ''));
+};
+
+const pages = [
+  { file: 'a.mdx', voiceIds: ['alloy'], characters: 400_000 },
+  { file: 'b.mdx', voiceIds: ['alloy', 'echo'], characters: 500_000 },
+  { file: 'c.mdx', voiceIds: ['alloy'], characters: 100_000 },
+];
+
+describe('estimateRun', () => {
+  it('totals characters and prices them per million', () => {
+    const estimate = estimateRun(pages, 15);
+
+    expect(estimate.characters).toBe(1_000_000);
+    expect(estimate.cost).toBe(15);
+    expect(estimate.pages[1]).toEqual({ file: 'b.mdx', voices: 2, characters: 500_000, cost: 7.5 });
+    expect(formatCost(estimate.pages[2]!.cost)).toBe('$1.50');
+    expect(formatCost(0.001)).toBe('<$0.01');
+  });
+});
+
+describe('checkBudget', () => {
+  it('passes runs within every limit', () => {
+    expect(checkBudget(estimateRun(pages, 15), { maxCharacters: 1_000_000, maxCost: 15, overBudget: 'abort' })).toEqual({
+      exceeded: [],
+      within: estimateRun(pages, 15).pages,
+      deferred: [],
+    });
+  });
+
+  it('keeps the pages before the first one over a limit', () => {
+    const check = checkBudget(estimateRun(pages, 15), { maxCharacters: 950_000, maxCost: 20, overBudget: 'truncate' });
+
+    expect(check.exceeded).toEqual(['1,000,000 characters is over the limit of 950,000']);
+    // c.mdx would still fit after b.mdx is left out, but a truncated run stops at b.mdx
+    expect(check.within.map((page) => page.file)).toEqual(['a.mdx', 'b.mdx']);
+    expect(check.deferred.map((page) => page.file)).toEqual(['c.mdx']);
+
+    expect(checkBudget(estimateRun(pages, 15), { maxCost: 5, overBudget: 'truncate' })).toMatchObject({
+      exceeded: ['$15.00 is over the limit of $5.00'],
+      within: [],
+    });
+  });
+});
+
+describe('validateBudget', () => {
+  it('reports invalid limits, prices and actions', () => {
+    expect(validateBudget({ overBudget: 'abort' }, 15)).toEqual([]);
+    expect(validateBudget({ maxCharacters: 1.5, maxCost: NaN, overBudget: 'skip' as any }, -1)).toEqual([
+      'pricing must be a non-negative price in USD per million characters (got -1)',
+      'Max characters must be a non-negative integer (got 1.5)',
+      'Max cost must be a non-negative amount in USD (got NaN)',
+      'budget.overBudget must be one of: abort, truncate (got "skip")',
+    ]);
+  });
+});
+
+describe('estimateCommand', () => {
+  it('counts the characters generate sends, and nothing once pages are unchanged', async () => {
+    await estimateCommand(directory, generateOptions(s3, tts));
+    const estimated = reportedCharacters();
+
+    await generateCommand(directory, generateOptions(s3, tts));
+    const sent = tts.requests.reduce((sum, request) => sum + request.input.length, 0);
+    // Breaks between sections are counted but not sent, so the estimate runs slightly high
+    expect(estimated).toBeGreaterThanOrEqual(sent);
+    expect(estimated - sent).toBeLessThan(sent * 0.01);
+
+    vi.mocked(console.log).mockClear();
+    await estimateCommand(directory, generateOptions(s3, tts));
+    expect(reportedCharacters()).toBe(0);
+    expect(printed()).toContain(`  Pages to generate: 0 of ${PAGES.length}`);
+  });
+
+  it('needs no provider credentials or S3 settings and never calls the provider', async () => {
+    await fs.writeFile(path.join(directory, 'speaker-config.yaml'), 'pricing:\n  fish: 30\n');
+
+    const result = await estimateCommand(directory, { provider: 'fish', voices: 'narrator' });
+
+    expect(result.exitCode).toBe(EXIT_CODES.success);
+    expect(tts.requests).toHaveLength(0);
+    expect(printed().some((line) => line.includes('fish at $30.00 per million characters'))).toBe(true);
+  });
+
+  it('fails when the run is over budget', async () => {
+    const result = await estimateCommand(directory, { ...generateOptions(s3, tts), maxCharacters: 100 });
+
+    expect(result.exitCode).toBe(EXIT_CODES.overBudget);
+    expect(result.characters).toBe(reportedCharacters());
+    expect(result.error).toMatch(/over the limit of 100/);
+  });
+});
+
+describe('generate budget', () => {
+  it('aborts before synthesizing anything', async () => {
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), maxCharacters: 100 });
+
+    expect(result).toMatchObject({ exitCode: EXIT_CODES.overBudget, results: [] });
+    expect(tts.requests).toHaveLength(0);
+    expect(s3.keys(BUCKET)).toEqual([]);
+  });
+
+  it('generates the pages that fit when truncating, and the rest on later runs', async () => {
+    const options = { ...generateOptions(s3, tts), voices: 'alloy', voiceNames: 'Alloy', overBudget: 'truncate' };
+    await estimateCommand(directory, options);
+    const total = reportedCharacters();
+
+    await generateCommand(directory, { ...options, maxCharacters: Math.floor(total / 2) });
+    const firstRun = s3.keys(BUCKET).filter((key) => key.endsWith('.mp3'));
+    expect(firstRun.length).toBeGreaterThan(0);
+    expect(firstRun.length).toBeLessThan(PAGES.length);
+
+    await generateCommand(directory, { ...options, maxCharacters: total });
+    expect(s3.keys(BUCKET).filter((key) => key.endsWith('.mp3'))).toHaveLength(PAGES.length);
+  });
+});
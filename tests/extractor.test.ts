@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { extractCleanText, extractFrontmatter, extractSections } from '../src/core/extractor.js';
+import { PAGES, readPage } from './helpers/fixtures.js';
+
+describe('extractCleanText', () => {
+  it.each(PAGES)('matches the golden output for %s.mdx', async (page) => {
+    const text = await extractCleanText(await readPage(page));
+    await expect(text).toMatchFileSnapshot(`fixtures/golden/${page}.txt`);
+  });
+
+  it('drops frontmatter, imports and exports', async () => {
+    const text = await extractCleanText(await readPage('imports'));
+    expect(text).not.toContain('title:');
+    expect(text).not.toContain('import');
+    expect(text).not.toContain('export const');
+  });
+
+  it('returns an empty string for pages without prose', async () => {
+    expect(await extractCleanText('---\ntitle: Empty\n---\n\n<Card title="x" />\n')).toBe('');
+  });
+});
+
+describe('extractSections', () => {
+  it('splits at H2 and H3 headings with Mintlify anchors', async () => {
+    const sections = await extractSections(
+      '# Title\n\nIntro.\n\n## Set up\n\nFirst.\n\n### Step 1: Install!\n\nSecond.\n\n#### Detail\n\nThird.\n\n## Set up\n\nAgain.\n'
+    );
+
+    expect(sections).toEqual([
+      { title: null, anchor: null, text: 'Title\n\nIntro.' },
+      { title: 'Set up', anchor: 'set-up', text: 'Set up\n\nFirst.' },
+      {
+        title: 'Step 1: Install!',
+        anchor: 'step-1-install',
+        text: 'Step 1: Install!\n\nSecond.\n\nDetail\n\nThird.',
+      },
+      { title: 'Set up', anchor: 'set-up-2', text: 'Set up\n\nAgain.' },
+    ]);
+  });
+
+  it('builds titles and anchors from the heading source, as the docs site renders them', async () => {
+    const page =
+      '## Using `speaker-config.yaml`\n\nA.\n\n## See the [API reference](/api)\n\nB.\n\n' +
+      '## Step **one** & more\n\nC.\n\n## C++ tips\n\nD.\n\n## What is it?\n\nE.\n';
+    const sections = await extractSections(page);
+
+    expect(sections.map(({ title, anchor }) => ({ title, anchor }))).toEqual([
+      { title: 'Using speaker-config.yaml', anchor: 'using-speaker-config-yaml' },
+      { title: 'See the API reference', anchor: 'see-the-api-reference' },
+      { title: 'Step one & more', anchor: 'step-one-&-more' },
+      { title: 'C++ tips', anchor: 'c++-tips' },
+      { title: 'What is it?', anchor: 'what-is-it' },
+    ]);
+  });
+
+  it('drops excluded sections with their subsections', async () => {
+    const page = '## Setup\n\nA.\n\n### Details\n\nB.\n\n## Changelog\n\nC.\n\n### v2\n\nD.\n\n## FAQ\n\nE.\n';
+    const sections = await extractSections(page, { exclude: ['#changelog', 'details'] });
+
+    expect(sections.map((section) => section.anchor)).toEqual(['setup', 'faq']);
+  });
+
+  it('keeps skipped headings out of sections but counts their anchors', async () => {
+    const page =
+      'Intro.\n\n{/* speak-skip-start */}\n\n## Setup\n\nHidden.\n\n{/* speak-skip-end */}\n\n## Setup\n\nShown.\n';
+    const sections = await extractSections(page);
+
+    expect(sections).toEqual([
+      { title: null, anchor: null, text: 'Intro.' },
+      { title: 'Setup', anchor: 'setup-2', text: 'Setup\n\nShown.' },
+    ]);
+  });
+
+  it('ignores headings nested in components', async () => {
+    const sections = await extractSections('Intro.\n\n<Steps>\n\n## Inside\n\nText.\n\n</Steps>\n');
+    expect(sections).toHaveLength(1);
+  });
+});
+
+describe('extractFrontmatter', () => {
+  it('parses YAML frontmatter', async () => {
+    expect(extractFrontmatter(await readPage('basic'))).toEqual({
+      title: 'Getting Started',
+      description: 'Install the CLI and generate your first narration.',
+    });
+  });
+});
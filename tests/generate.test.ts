@@ -0,0 +1,450 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateCommand } from '../src/commands/generate.js';
+import { extractExistingAudioData } from '../src/core/injector.js';
+import { EXIT_CODES } from '../src/core/errors.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir, PAGES } from './helpers/fixtures.js';
+import { FRAME_DURATION } from './helpers/mp3.js';
+import { toneMp3 } from './helpers/tone.js';
+import { BUCKET, generateOptions, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  tts.requests.length = 0;
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const readDoc = (name: string) => fs.readFile(path.join(directory, `${name}.mdx`), 'utf-8');
+
+describe('generateCommand', () => {
+  it('uploads audio for every page and voice and injects the component', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+
+    expect(s3.keys(BUCKET)).toEqual(
+      PAGES.flatMap((page) =>
+        ['alloy', 'echo'].flatMap((voice) => [`audio/${page}/${voice}.mp3`, `audio/${page}/${voice}.vtt`])
+      ).sort()
+    );
+    expect(s3.get(BUCKET, 'audio/basic/alloy.mp3')?.contentType).toBe('audio/mpeg');
+    expect(s3.get(BUCKET, 'audio/basic/alloy.vtt')?.contentType).toBe('text/vtt');
+
+    // The intro section gets 9 frames of fake audio (one per 10 characters) before "Install"
+    const chapters = [{ title: 'Install', anchor: 'install', start: Math.round(9 * FRAME_DURATION * 1000) / 1000 }];
+    const data = await extractExistingAudioData(await readDoc('basic'), 'AudioTranscript');
+    expect(data?.voices).toEqual([
+      {
+        id: 'alloy',
+        name: 'Alloy',
+        url: 'https://cdn.test/audio/basic/alloy.mp3',
+        transcriptUrl: 'https://cdn.test/audio/basic/alloy.vtt',
+        chapters,
+      },
+      {
+        id: 'echo',
+        name: 'Echo',
+        url: 'https://cdn.test/audio/basic/echo.mp3',
+        transcriptUrl: 'https://cdn.test/audio/basic/echo.vtt',
+        chapters,
+      },
+    ]);
+  });
+
+  it('skips unchanged pages and regenerates edited ones', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const firstRun = tts.requests.length;
+
+    await generateCommand(directory, generateOptions(s3, tts));
+    expect(tts.requests.length).toBe(firstRun);
+
+    const basic = await readDoc('basic');
+    await fs.writeFile(path.join(directory, 'basic.mdx'), basic.replace('ready to go', 'all set'));
+    await generateCommand(directory, generateOptions(s3, tts));
+
+    // One request per section and voice
+    const rerun = tts.requests.slice(firstRun);
+    expect(rerun.map((request) => request.voice).sort()).toEqual(['alloy', 'alloy', 'echo', 'echo']);
+    expect(rerun[1]!.input).toContain('all set');
+  });
+
+  it('makes no changes in dry-run mode', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), dryRun: true });
+
+    expect(tts.requests).toHaveLength(0);
+    expect(s3.keys(BUCKET)).toEqual([]);
+    expect(await readDoc('basic')).not.toContain('AudioTranscript');
+  });
+
+  it('splits long pages into chunks and stitches them', async () => {
+    await generateCommand(directory, {
+      ...generateOptions(s3, tts),
+      voices: 'alloy',
+      voiceNames: 'Alloy',
+      pattern: 'code-and-tables.mdx',
+      maxChunkChars: 60,
+    });
+
+    expect(tts.requests.length).toBeGreaterThan(1);
+    expect(tts.requests.every((request) => request.input.length <= 60)).toBe(true);
+
+    const audio = s3.get(BUCKET, 'audio/code-and-tables/alloy.mp3')!.body;
+    const frames = tts.requests.reduce((sum, r) => sum + Math.ceil(r.input.length / 10), 0);
+    expect(audio.length).toBe(frames * 417);
+
+    // The transcript ends exactly where the stitched audio does
+    const vtt = s3.get(BUCKET, 'audio/code-and-tables/alloy.vtt')!.body.toString();
+    const lastEnd = [...vtt.matchAll(/--> (\d\d):(\d\d):(\d\d\.\d{3})/g)].at(-1)!;
+    expect(Number(lastEnd[2]) * 60 + Number(lastEnd[3])).toBeCloseTo(frames * FRAME_DURATION, 3);
+  });
+
+  it('re-synthesizes only edited paragraphs with a chunk cache', async () => {
+    const options = {
+      ...generateOptions(s3, tts),
+      voices: 'alloy',
+      voiceNames: 'Alloy',
+      pattern: 'basic.mdx',
+      cacheDir: '.speak-cache',
+    };
+
+    await generateCommand(directory, options);
+    const firstRun = tts.requests.length;
+
+    const basic = await readDoc('basic');
+    await fs.writeFile(path.join(directory, 'basic.mdx'), basic.replace('ready to go', 'all set'));
+    await generateCommand(directory, options);
+
+    expect(tts.requests.slice(firstRun).map((request) => request.input)).toEqual([
+      'Run the installer with npm and you are all set. See the quickstart for details.',
+    ]);
+  });
+
+  it('removes narration from pages that opt out after being narrated', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+    const narrated = await readDoc('basic');
+    await fs.writeFile(path.join(directory, 'basic.mdx'), narrated.replace(/^---\n/, '---\nspeak: false\n'));
+    const before = tts.requests.length;
+
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+
+    expect(result.results).toMatchObject([{ file: 'basic.mdx', skipped: true }]);
+    expect(tts.requests).toHaveLength(before);
+    const page = await readDoc('basic');
+    expect(page).not.toContain('AudioTranscript');
+    expect(page).not.toContain('speak-mintlify-hash');
+  });
+
+  it('caches chunks with their encoding\'s extension and content type', async () => {
+    await fs.writeFile(path.join(directory, 'speaker-config.yaml'), 'audio:\n  format: opus\n');
+
+    await generateCommand(directory, {
+      ...generateOptions(s3, tts),
+      voices: 'alloy',
+      voiceNames: 'Alloy',
+      pattern: 'basic.mdx',
+      cacheS3Prefix: 'speak-cache',
+    });
+
+    const cached = s3.keys(BUCKET).filter((key) => key.startsWith('speak-cache/'));
+    expect(cached.length).toBeGreaterThan(0);
+    for (const key of cached) {
+      expect(key).toMatch(/\.opus$/);
+      expect(s3.get(BUCKET, key)?.contentType).toBe('audio/ogg; codecs=opus');
+    }
+  });
+
+  it('applies the pronunciation lexicon and regenerates only pages it changes', async () => {
+    const options = { ...generateOptions(s3, tts), voices: 'alloy', voiceNames: 'Alloy' };
+    const configPath = path.join(directory, 'speaker-config.yaml');
+
+    await generateCommand(directory, options);
+    const firstRun = tts.requests.length;
+
+    await fs.writeFile(configPath, 'pronunciations:\n  terms:\n    quickstart: quick start\n');
+    await generateCommand(directory, options);
+
+    const rerun = tts.requests.slice(firstRun);
+    expect(rerun.map((request) => request.input)).toEqual([
+      expect.stringContaining('Welcome'),
+      expect.stringContaining('See the quick start for details.'),
+    ]);
+
+    // The transcript keeps the written form
+    const vtt = s3.get(BUCKET, 'audio/basic/alloy.vtt')!.body.toString();
+    expect(vtt).toContain('See the quickstart for details.');
+  });
+
+  it('follows speak settings in page frontmatter', async () => {
+    const setFrontmatter = async (name: string, speak: string) => {
+      const page = await readDoc(name);
+      await fs.writeFile(path.join(directory, `${name}.mdx`), page.replace(/^---\n/, `---\n${speak}\n`));
+    };
+    await setFrontmatter('imports', 'speak: false');
+    await setFrontmatter('basic', 'speak:\n  voices: [echo]\n  intro: true\n  exclude: ["#install"]');
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: '{basic,imports}.mdx' });
+
+    expect(await readDoc('imports')).not.toContain('<AudioTranscript');
+    expect(tts.requests).toHaveLength(1);
+    expect(tts.requests[0]!.voice).toBe('echo');
+    expect(tts.requests[0]!.input).toMatch(
+      /^Getting Started\.\n\nInstall the CLI and generate your first narration\.\n\nGetting Started\n\nWelcome/
+    );
+    expect(tts.requests[0]!.input).not.toContain('installer');
+
+    const data = await extractExistingAudioData(await readDoc('basic'), 'AudioTranscript');
+    expect(data?.voiceIds).toEqual(['echo']);
+    expect(data?.voices[0]).not.toHaveProperty('chapters');
+  });
+
+  it('narrates locale pages with their own voices and keys', async () => {
+    await fs.mkdir(path.join(directory, 'es'));
+    await fs.writeFile(path.join(directory, 'es', 'intro.mdx'), '# Introducción\n\nBienvenido a la documentación.\n');
+    await fs.writeFile(
+      path.join(directory, 'speaker-config.yaml'),
+      [
+        'defaultLocale: en',
+        'locales:',
+        '  es:',
+        '    voices:',
+        '      nova: Nova',
+        's3:',
+        "  keyTemplate: '{prefix}/{locale}/{path}/{voice}.{ext}'",
+      ].join('\n')
+    );
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: '{basic,es/intro}.mdx' });
+
+    expect(s3.keys(BUCKET)).toEqual(
+      [
+        'audio/en/basic/alloy.mp3',
+        'audio/en/basic/alloy.vtt',
+        'audio/en/basic/echo.mp3',
+        'audio/en/basic/echo.vtt',
+        'audio/es/es/intro/nova.mp3',
+        'audio/es/es/intro/nova.vtt',
+      ]
+    );
+    const data = await extractExistingAudioData(await readDoc('es/intro'), 'AudioTranscript');
+    expect(data?.voices).toEqual([
+      expect.objectContaining({ id: 'nova', name: 'Nova', url: 'https://cdn.test/audio/es/es/intro/nova.mp3' }),
+    ]);
+  });
+
+  it('encodes audio in the configured format with fallback sources', async () => {
+    await fs.writeFile(
+      path.join(directory, 'speaker-config.yaml'),
+      ['audio:', '  format: opus', '  fallbacks:', '    - format: mp3', '  voices:', '    echo:', '      format: aac', '      fallbacks: []'].join('\n')
+    );
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+
+    expect(s3.keys(BUCKET)).toEqual([
+      'audio/basic/alloy.mp3',
+      'audio/basic/alloy.opus',
+      'audio/basic/alloy.vtt',
+      'audio/basic/echo.aac',
+      'audio/basic/echo.vtt',
+    ]);
+    expect(s3.get(BUCKET, 'audio/basic/alloy.opus')?.contentType).toBe('audio/ogg; codecs=opus');
+    expect(s3.get(BUCKET, 'audio/basic/echo.aac')?.contentType).toBe('audio/aac');
+    expect(new Set(tts.requests.map((request) => request.response_format))).toEqual(new Set(['opus', 'mp3', 'aac']));
+
+    const data = await extractExistingAudioData(await readDoc('basic'), 'AudioTranscript');
+    expect(data?.voices[0]).toMatchObject({
+      url: 'https://cdn.test/audio/basic/alloy.opus',
+      sources: [
+        { url: 'https://cdn.test/audio/basic/alloy.opus', type: 'audio/ogg; codecs=opus' },
+        { url: 'https://cdn.test/audio/basic/alloy.mp3', type: 'audio/mpeg' },
+      ],
+    });
+    expect(data?.voices[1]).toMatchObject({ url: 'https://cdn.test/audio/basic/echo.aac' });
+    expect(data?.voices[1]).not.toHaveProperty('sources');
+
+    // Changing the format regenerates an otherwise unchanged page
+    const before = tts.requests.length;
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+    expect(tts.requests.length).toBe(before);
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx', audioFormat: 'aac' });
+    expect(tts.requests.length).toBeGreaterThan(before);
+  });
+
+  it('post-processes audio with an intro clip and regenerates when the clip changes', async () => {
+    await fs.writeFile(path.join(directory, 'intro.mp3'), toneMp3(0.5, 0.1));
+    await fs.writeFile(
+      path.join(directory, 'speaker-config.yaml'),
+      ['postProcessing:', '  loudness: -16', '  trimSilence: true', '  intro: intro.mp3'].join('\n')
+    );
+    const options = { ...generateOptions(s3, tts), pattern: 'basic.mdx' };
+
+    await generateCommand(directory, options);
+
+    // The fake voice is silent, so only the intro moves the chapter
+    const data = await extractExistingAudioData(await readDoc('basic'), 'AudioTranscript');
+    const start = data?.voices[0]?.chapters?.[0]?.start ?? 0;
+    expect(start - 9 * FRAME_DURATION).toBeCloseTo(0.5, 1);
+    expect(s3.get(BUCKET, 'audio/basic/alloy.vtt')?.body.toString()).toContain('00:00:00.5');
+
+    const before = tts.requests.length;
+    await generateCommand(directory, options);
+    expect(tts.requests.length).toBe(before);
+
+    await fs.writeFile(path.join(directory, 'intro.mp3'), toneMp3(0.75, 0.1));
+    await generateCommand(directory, options);
+    expect(tts.requests.length).toBeGreaterThan(before);
+  });
+
+  it('rejects post-processing with formats it cannot re-encode', async () => {
+    await fs.writeFile(
+      path.join(directory, 'speaker-config.yaml'),
+      ['audio:', '  format: opus', 'postProcessing:', '  loudness: -16'].join('\n')
+    );
+
+    expect(await generateCommand(directory, generateOptions(s3, tts))).toMatchObject({
+      exitCode: EXIT_CODES.configError,
+      error: expect.stringContaining('postProcessing only supports MP3 audio'),
+    });
+    expect(tts.requests).toHaveLength(0);
+  });
+
+  it('processes pages concurrently with the same results', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), concurrency: 3 });
+
+    expect(s3.keys(BUCKET)).toHaveLength(PAGES.length * 4);
+    for (const page of PAGES) {
+      expect(await readDoc(page)).toContain(`https://cdn.test/audio/${page}/echo.mp3`);
+    }
+  });
+
+  it('uses content-hash keys and immutable caching with --immutable', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx', immutable: true });
+
+    const data = await extractExistingAudioData(await readDoc('basic'), 'AudioTranscript');
+    const key = `audio/basic/${data!.hash}/alloy.mp3`;
+
+    expect(data!.voices[0]!.url).toBe(`https://cdn.test/${key}`);
+    expect(s3.get(BUCKET, key)?.cacheControl).toBe('public, max-age=31536000, immutable');
+  });
+
+  it('records audio in a manifest without rewriting narrated pages', async () => {
+    const options = { ...generateOptions(s3, tts), output: 'manifest' };
+    await generateCommand(directory, options);
+
+    const manifest = JSON.parse(await fs.readFile(path.join(directory, '.audio-metadata.json'), 'utf-8'));
+    expect(Object.keys(manifest)).toEqual(PAGES.map((page) => `${page}.mdx`).sort());
+    expect(manifest['basic.mdx'].voices[0].duration).toBeGreaterThan(0);
+    expect(JSON.parse(s3.get(BUCKET, 'audio/manifest.json')!.body.toString())).toEqual(manifest);
+
+    const basic = await readDoc('basic');
+    expect(basic).toContain('<AudioTranscript manifest="https://cdn.test/audio/manifest.json" />');
+
+    // A page narrated in mdx mode switches to the manifest, or the player keeps its inline voices
+    const existing = await readDoc('existing');
+    expect(existing).toContain('<AudioTranscript manifest="https://cdn.test/audio/manifest.json" />');
+    expect(existing).not.toContain('voices=');
+    expect(existing).not.toContain('speak-mintlify-hash');
+    expect(existing.match(/import \{ AudioTranscript \}/g)).toHaveLength(1);
+
+    await fs.writeFile(path.join(directory, 'basic.mdx'), basic.replace('ready to go', 'all set'));
+    const before = tts.requests.length;
+    await generateCommand(directory, options);
+
+    expect(tts.requests.length - before).toBe(4);
+    expect(await readDoc('basic')).toBe(basic.replace('ready to go', 'all set'));
+  });
+
+  it('reports provider failures per file', async () => {
+    tts.failNext(100);
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+
+    expect(result.exitCode).toBe(EXIT_CODES.failed);
+    expect(result.results).toMatchObject([{ file: 'basic.mdx', success: false }]);
+    expect(s3.keys(BUCKET)).toEqual([]);
+    expect(await readDoc('basic')).not.toContain('AudioTranscript');
+
+    // Retries go to the file's output and result, not straight to stderr
+    expect(result.results[0]!.warnings).toContainEqual(
+      expect.stringMatching(/^Alloy: TTS attempt 1 failed \(.+\)\. 3 retries left\.$/)
+    );
+    expect(console.warn).not.toHaveBeenCalled();
+    tts.failNext(0);
+  }, 30_000);
+});
+
+describe('generate exit codes', () => {
+  // The command provider fails at once, without the HTTP providers' retries
+  const failingOptions = () => ({ ...s3Options(s3), provider: 'command', ttsCommand: 'exit 1', voices: 'narrator' });
+
+  it('returns per-file results and succeeds when every page does', async () => {
+    const result = await generateCommand(directory, generateOptions(s3, tts));
+
+    expect(result.exitCode).toBe(EXIT_CODES.success);
+    expect(result.results.map((r) => r.file).sort()).toEqual(PAGES.map((page) => `${page}.mdx`).sort());
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('fails when any page fails, after processing every page', async () => {
+    const result = await generateCommand(directory, failingOptions());
+
+    expect(result.exitCode).toBe(EXIT_CODES.failed);
+    expect(result.results.filter((r) => !r.success)).toHaveLength(PAGES.length);
+    expect(result.results[0]!.error).toBe('TTS command exited with code 1');
+  });
+
+  it('stops starting pages after the first failure with --fail-fast', async () => {
+    const result = await generateCommand(directory, { ...failingOptions(), failFast: true });
+
+    expect(result.exitCode).toBe(EXIT_CODES.failed);
+    expect(result.results.filter((r) => !r.success)).toHaveLength(1);
+    expect(result.results.slice(1).every((r) => r.reason === 'Stopped after 1 failure(s)')).toBe(true);
+  });
+
+  it('stops after --max-failures failures', async () => {
+    const result = await generateCommand(directory, { ...failingOptions(), maxFailures: 2 });
+
+    expect(result.results.map((r) => r.success)).toEqual([false, false, ...PAGES.slice(2).map(() => true)]);
+    expect(result.results.slice(2).every((r) => r.skipped)).toBe(true);
+  });
+
+  it('rejects an invalid failure limit as a config error', async () => {
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), maxFailures: 0 });
+
+    expect(result).toMatchObject({ exitCode: EXIT_CODES.configError, results: [] });
+    expect(result.error).toContain('Max failures must be a positive integer (got 0)');
+    expect(tts.requests).toHaveLength(0);
+  });
+
+  it('rejects zero concurrency as a config error', async () => {
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), concurrency: 0 });
+
+    expect(result).toMatchObject({ exitCode: EXIT_CODES.configError, results: [] });
+    expect(result.error).toContain('Concurrency must be a positive integer (got 0)');
+  });
+
+  it('returns a config error for missing S3 settings', async () => {
+    const result = await generateCommand(directory, { ...generateOptions(s3, tts), s3Bucket: undefined });
+
+    expect(result.exitCode).toBe(EXIT_CODES.configError);
+    expect(result.error).toContain('S3_BUCKET');
+  });
+});
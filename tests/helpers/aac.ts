@@ -0,0 +1,30 @@
+/**
+ * Synthetic ADTS (AAC) frames for tests
+ * AAC-LC, 44.1 kHz, mono, one raw data block: 100 bytes and 1024 samples per frame
+ */
+
+export const AAC_FRAME_LENGTH = 100;
+export const AAC_FRAME_DURATION = 1024 / 44100;
+
+/**
+ * Build a silent ADTS stream with the given number of frames
+ */
+export function silentAac(frames: number): Buffer {
+  const parts: Buffer[] = [];
+
+  for (let i = 0; i < frames; i++) {
+    const frame = Buffer.alloc(AAC_FRAME_LENGTH);
+    frame.set([
+      0xff,
+      0xf1, // MPEG-4, no CRC
+      0x50, // AAC-LC, 44.1 kHz
+      0x40, // Mono
+      (AAC_FRAME_LENGTH >> 3) & 0xff,
+      ((AAC_FRAME_LENGTH & 0x07) << 5) | 0x1f,
+      0xfc, // One raw data block
+    ]);
+    parts.push(frame);
+  }
+
+  return Buffer.concat(parts);
+}
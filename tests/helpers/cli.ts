@@ -0,0 +1,53 @@
+/**
+ * Helpers for running commands in-process against fake services
+ */
+
+import { vi } from 'vitest';
+import type { FakeS3Server } from './fake-s3.js';
+import type { FakeTTSServer } from './fake-tts.js';
+
+export const BUCKET = 'docs';
+export const PUBLIC_URL = 'https://cdn.test';
+
+/**
+ * Silence command output and turn process.exit into a thrown error
+ * Restore with vi.restoreAllMocks()
+ */
+export function quietCommands(): void {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  vi.spyOn(process, 'exit').mockImplementation((code) => {
+    throw new Error(`process.exit(${code})`);
+  });
+}
+
+/**
+ * S3 options pointing at the fake server
+ */
+export function s3Options(s3: FakeS3Server) {
+  return {
+    s3Bucket: BUCKET,
+    s3Region: 'us-east-1',
+    s3Endpoint: s3.url,
+    s3AccessKeyId: 'test',
+    s3SecretAccessKey: 'test',
+    s3PublicUrl: PUBLIC_URL,
+    s3PathPrefix: 'audio',
+    pattern: '**/*.mdx',
+  };
+}
+
+/**
+ * Generate options using the fake TTS server with two voices
+ */
+export function generateOptions(s3: FakeS3Server, tts: FakeTTSServer) {
+  return {
+    ...s3Options(s3),
+    provider: 'openai',
+    openaiBaseUrl: tts.url,
+    voices: 'alloy,echo',
+    voiceNames: 'Alloy,Echo',
+  };
+}
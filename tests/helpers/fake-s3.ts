@@ -0,0 +1,183 @@
+/**
+ * Fake S3 server
+ * In-process, path-style implementation of the S3 operations speak-mintlify uses
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  cacheControl?: string;
+}
+
+export interface FakeS3Server {
+  url: string;
+  objects: Map<string, StoredObject>; // Keyed by "bucket/key"
+  keys: (bucket: string) => string[];
+  get: (bucket: string, key: string) => StoredObject | undefined;
+  put: (bucket: string, key: string, object: StoredObject) => void;
+  close: () => Promise<void>;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function sendXml(res: http.ServerResponse, status: number, xml: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+}
+
+function sendNoSuchKey(res: http.ServerResponse, key: string, head: boolean): void {
+  if (head) {
+    res.writeHead(404).end();
+    return;
+  }
+  sendXml(
+    res,
+    404,
+    `<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message><Key>${escapeXml(key)}</Key></Error>`
+  );
+}
+
+/**
+ * Decode an aws-chunked request body (used for streaming checksums)
+ */
+function decodeAwsChunked(body: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  let offset = 0;
+
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    const size = parseInt(body.toString('latin1', offset, lineEnd).split(';')[0]!, 16);
+    if (!size) break;
+    parts.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Start a fake S3 server on a random local port
+ */
+export async function startFakeS3(): Promise<FakeS3Server> {
+  const objects = new Map<string, StoredObject>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      const [bucket, ...keyParts] = url.pathname.slice(1).split('/');
+      const key = keyParts.map(decodeURIComponent).join('/');
+      const id = `${bucket}/${key}`;
+      let body = Buffer.concat(chunks);
+
+      if (String(req.headers['content-encoding'] ?? '').includes('aws-chunked')) {
+        body = decodeAwsChunked(body);
+      }
+
+      // ListObjectsV2
+      if (req.method === 'GET' && !key && url.searchParams.get('list-type') === '2') {
+        const prefix = url.searchParams.get('prefix') ?? '';
+        const contents = [...objects.keys()]
+          .filter((objectId) => objectId.startsWith(`${bucket}/${prefix}`))
+          .map((objectId) => objectId.slice(bucket!.length + 1))
+          .sort()
+          .map(
+            (objectKey) =>
+              `<Contents><Key>${escapeXml(objectKey)}</Key><Size>${objects.get(`${bucket}/${objectKey}`)!.body.length}</Size></Contents>`
+          )
+          .join('');
+        sendXml(
+          res,
+          200,
+          `<ListBucketResult><Name>${bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`
+        );
+        return;
+      }
+
+      // DeleteObjects
+      if (req.method === 'POST' && url.searchParams.has('delete')) {
+        const deleted = [...body.toString('utf-8').matchAll(/<Key>([^<]*)<\/Key>/g)].map(
+          (match) => match[1]!.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+        );
+        for (const deletedKey of deleted) {
+          objects.delete(`${bucket}/${deletedKey}`);
+        }
+        sendXml(
+          res,
+          200,
+          `<DeleteResult>${deleted.map((k) => `<Deleted><Key>${escapeXml(k)}</Key></Deleted>`).join('')}</DeleteResult>`
+        );
+        return;
+      }
+
+      // CopyObject
+      if (req.method === 'PUT' && req.headers['x-amz-copy-source']) {
+        const source = decodeURIComponent(String(req.headers['x-amz-copy-source']).replace(/^\//, ''));
+        const original = objects.get(source);
+        if (!original) {
+          sendNoSuchKey(res, source, false);
+          return;
+        }
+        const replace = req.headers['x-amz-metadata-directive'] === 'REPLACE';
+        objects.set(id, {
+          body: original.body,
+          contentType: replace ? String(req.headers['content-type'] ?? '') : original.contentType,
+          cacheControl: replace ? (req.headers['cache-control'] as string | undefined) : original.cacheControl,
+        });
+        sendXml(res, 200, `<CopyObjectResult><ETag>"fake"</ETag></CopyObjectResult>`);
+        return;
+      }
+
+      // PutObject
+      if (req.method === 'PUT') {
+        objects.set(id, {
+          body,
+          contentType: req.headers['content-type'] as string | undefined,
+          cacheControl: req.headers['cache-control'] as string | undefined,
+        });
+        res.writeHead(200, { ETag: '"fake"' }).end();
+        return;
+      }
+
+      // GetObject / HeadObject
+      if (req.method === 'GET' || req.method === 'HEAD') {
+        const object = objects.get(id);
+        if (!object) {
+          sendNoSuchKey(res, key, req.method === 'HEAD');
+          return;
+        }
+        res.writeHead(200, {
+          'Content-Type': object.contentType ?? 'application/octet-stream',
+          'Content-Length': object.body.length,
+          ...(object.cacheControl && { 'Cache-Control': object.cacheControl }),
+        });
+        res.end(req.method === 'HEAD' ? undefined : object.body);
+        return;
+      }
+
+      res.writeHead(405).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    objects,
+    keys: (bucket) =>
+      [...objects.keys()]
+        .filter((id) => id.startsWith(`${bucket}/`))
+        .map((id) => id.slice(bucket.length + 1))
+        .sort(),
+    get: (bucket, key) => objects.get(`${bucket}/${key}`),
+    put: (bucket, key, object) => objects.set(`${bucket}/${key}`, object),
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
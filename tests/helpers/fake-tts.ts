@@ -0,0 +1,74 @@
+/**
+ * Fake OpenAI-compatible TTS server
+ * Answers POST /audio/speech with silent audio in the requested format and records every request
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { silentMp3 } from './mp3.js';
+import { silentAac } from './aac.js';
+import { silentOpus } from './opus.js';
+
+export interface SpeechRequest {
+  model: string;
+  input: string;
+  voice: string;
+  response_format: string;
+}
+
+export interface FakeTTSServer {
+  url: string;
+  requests: SpeechRequest[];
+  failNext: (count: number) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a fake speech server on a random local port
+ * Each response has one frame (or Opus packet) per 10 characters of input (at least one)
+ */
+export async function startFakeTTS(): Promise<FakeTTSServer> {
+  const requests: SpeechRequest[] = [];
+  let failures = 0;
+
+  const server = http.createServer((req, res) => {
+    const body: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => body.push(chunk));
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/v1/audio/speech') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (failures > 0) {
+        failures--;
+        res.writeHead(500).end('synthetic failure');
+        return;
+      }
+
+      const request = JSON.parse(Buffer.concat(body).toString('utf-8')) as SpeechRequest;
+      requests.push(request);
+
+      const frames = Math.max(1, Math.ceil(request.input.length / 10));
+      if (request.response_format === 'opus') {
+        res.writeHead(200, { 'Content-Type': 'audio/ogg' }).end(silentOpus(frames));
+      } else if (request.response_format === 'aac') {
+        res.writeHead(200, { 'Content-Type': 'audio/aac' }).end(silentAac(frames));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'audio/mpeg' }).end(silentMp3(frames));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    failNext: (count) => {
+      failures = count;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Fixture helpers
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../fixtures'
+);
+
+/**
+ * Names of the fixture pages (without .mdx)
+ */
+export const PAGES = ['basic', 'imports', 'nested', 'code-and-tables', 'existing', 'markers'];
+
+/**
+ * Read a fixture page
+ */
+export async function readPage(name: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURES_DIR, 'pages', `${name}.mdx`), 'utf-8');
+}
+
+/**
+ * Copy the fixture pages into a fresh temporary docs directory
+ * @returns Path of the temporary directory
+ */
+export async function createDocsDir(): Promise<string> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'speak-mintlify-test-'));
+  await fs.cp(path.join(FIXTURES_DIR, 'pages'), directory, { recursive: true });
+  return directory;
+}
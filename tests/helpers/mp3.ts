@@ -0,0 +1,27 @@
+/**
+ * Synthetic MP3 frames for tests
+ * MPEG-1 Layer III, 128 kbps, 44.1 kHz, no padding: 417 bytes and 1152 samples per frame
+ */
+
+export const FRAME_LENGTH = 417;
+export const FRAME_DURATION = 1152 / 44100;
+
+/**
+ * Build a silent MP3 stream with the given number of frames
+ */
+export function silentMp3(frames: number, options: { id3?: boolean } = {}): Buffer {
+  const parts: Buffer[] = [];
+
+  if (options.id3) {
+    // Minimal ID3v2.3 tag with a 5-byte body
+    parts.push(Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 5, 1, 2, 3, 4, 5]));
+  }
+
+  for (let i = 0; i < frames; i++) {
+    const frame = Buffer.alloc(FRAME_LENGTH);
+    frame.set([0xff, 0xfb, 0x90, 0x64]);
+    parts.push(frame);
+  }
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,76 @@
+/**
+ * Synthetic Ogg Opus streams for tests
+ * Mono, 312 samples of pre-skip, one 20 ms packet per page
+ */
+
+import { oggCrc } from '../../src/core/ogg-opus.js';
+
+export const OPUS_PRE_SKIP = 312;
+export const OPUS_FRAME_DURATION = 960 / 48000;
+
+/**
+ * Build one Ogg page holding a single packet
+ */
+export function oggPage(
+  body: Buffer,
+  fields: { flags?: number; granule: bigint; serial: number; sequence: number }
+): Buffer {
+  const segments: number[] = [];
+  let remaining = body.length;
+  while (remaining >= 255) {
+    segments.push(255);
+    remaining -= 255;
+  }
+  segments.push(remaining);
+
+  const header = Buffer.alloc(27 + segments.length);
+  header.write('OggS', 0, 'latin1');
+  header[5] = fields.flags ?? 0;
+  header.writeBigInt64LE(fields.granule, 6);
+  header.writeUInt32LE(fields.serial, 14);
+  header.writeUInt32LE(fields.sequence, 18);
+  header[26] = segments.length;
+  header.set(segments, 27);
+
+  const page = Buffer.concat([header, body]);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+/**
+ * Build a silent Ogg Opus stream with the given number of audio packets
+ */
+export function silentOpus(packets: number, options: { serial?: number } = {}): Buffer {
+  const serial = options.serial ?? 1;
+
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1; // Version
+  head[9] = 1; // Channels
+  head.writeUInt16LE(OPUS_PRE_SKIP, 10);
+  head.writeUInt32LE(48000, 12);
+
+  const vendor = Buffer.from('test', 'latin1');
+  const tags = Buffer.alloc(16 + vendor.length);
+  tags.write('OpusTags', 0, 'latin1');
+  tags.writeUInt32LE(vendor.length, 8);
+  vendor.copy(tags, 12);
+
+  const pages = [
+    oggPage(head, { flags: 0x02, granule: 0n, serial, sequence: 0 }),
+    oggPage(tags, { granule: 0n, serial, sequence: 1 }),
+  ];
+
+  for (let i = 1; i <= packets; i++) {
+    pages.push(
+      oggPage(Buffer.from([0xf8, 0xff, 0xfe]), {
+        flags: i === packets ? 0x04 : 0,
+        granule: BigInt(OPUS_PRE_SKIP + i * 960),
+        serial,
+        sequence: i + 1,
+      })
+    );
+  }
+
+  return Buffer.concat(pages);
+}
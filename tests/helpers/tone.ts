@@ -0,0 +1,51 @@
+/**
+ * Real MP3 audio for tests that decode
+ * Encodes sine tones and silence with the same encoder used in post-processing
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { MPEGDecoder } from 'mpg123-decoder';
+
+export const TONE_SAMPLE_RATE = 44100;
+
+/**
+ * Samples of a 997 Hz sine (the BS.1770 reference tone)
+ */
+export function sine(seconds: number, amplitude: number, sampleRate = TONE_SAMPLE_RATE): Float32Array {
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * 997 * i) / sampleRate)
+  );
+}
+
+/**
+ * Encode a mono MP3 of silence, then a tone, then silence
+ */
+export function toneMp3(
+  seconds: number,
+  amplitude: number,
+  options: { silenceBefore?: number; silenceAfter?: number } = {}
+): Buffer {
+  const samples = [
+    new Float32Array(Math.round((options.silenceBefore ?? 0) * TONE_SAMPLE_RATE)),
+    sine(seconds, amplitude),
+    new Float32Array(Math.round((options.silenceAfter ?? 0) * TONE_SAMPLE_RATE)),
+  ].flatMap((part) => [...part]);
+
+  const encoder = new Mp3Encoder(1, TONE_SAMPLE_RATE, 128);
+  const pcm = Int16Array.from(samples, (sample) => Math.round(sample * 32767));
+  return Buffer.concat([Buffer.from(encoder.encodeBuffer(pcm)), Buffer.from(encoder.flush())]);
+}
+
+/**
+ * Decode an MP3 to one Float32Array per channel
+ */
+export async function decodeTone(buffer: Buffer, channelCount = 1): Promise<{ channels: Float32Array[]; sampleRate: number }> {
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+  try {
+    const decoded = decoder.decode(new Uint8Array(buffer));
+    return { channels: decoded.channelData.slice(0, channelCount).map((channel) => channel.slice()), sampleRate: decoded.sampleRate };
+  } finally {
+    decoder.free();
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractExistingAudioData,
+  injectAudioComponent,
+  injectManifestComponent,
+  removeAudioComponent,
+} from '../src/core/injector.js';
+import { PAGES, readPage } from './helpers/fixtures.js';
+
+const voices = [
+  { id: 'alloy', name: 'Alloy', url: 'https://cdn.test/audio/page/alloy.mp3' },
+  { id: 'echo', name: 'Echo', url: 'https://cdn.test/audio/page/echo.mp3' },
+];
+const hash = 'a'.repeat(64);
+
+describe('injectAudioComponent', () => {
+  it.each(PAGES)('matches the golden output for %s.mdx', async (page) => {
+    const output = await injectAudioComponent(await readPage(page), voices, hash);
+    await expect(output).toMatchFileSnapshot(`fixtures/golden/${page}.inject.mdx`);
+  });
+
+  it('round-trips voices and hash through extractExistingAudioData', async () => {
+    const output = await injectAudioComponent(await readPage('basic'), voices, hash);
+    const data = await extractExistingAudioData(output, 'AudioTranscript');
+
+    expect(data).toEqual({ hash, voiceIds: ['alloy', 'echo'], voices });
+  });
+
+  it('keeps a single import and component when re-injecting', async () => {
+    const once = await injectAudioComponent(await readPage('imports'), voices, hash);
+    const twice = await injectAudioComponent(once, voices, hash);
+
+    expect(twice.match(/import \{ AudioTranscript \}/g)).toHaveLength(1);
+    expect(twice.match(/<AudioTranscript/g)).toHaveLength(1);
+  });
+
+  it('is idempotent', async () => {
+    for (const page of PAGES) {
+      const once = await injectAudioComponent(await readPage(page), voices, hash);
+      expect(await injectAudioComponent(once, voices, hash)).toBe(once);
+    }
+  });
+
+  it('updates an existing multi-line component in place', async () => {
+    const content = await readPage('existing');
+    const output = await injectAudioComponent(content, voices, hash);
+    const body = content.slice(content.indexOf('# Already Narrated'));
+
+    expect(output).not.toContain('0'.repeat(64));
+    expect(output.endsWith(body)).toBe(true);
+  });
+
+  it('removes stray and nested components, keeping the rest of the page intact', async () => {
+    const content = [
+      '---',
+      'title: Stray',
+      '---',
+      '',
+      "import { AudioTranscript } from '/snippets/audio-transcript.jsx';",
+      '',
+      '# Stray',
+
+      '',
+      '<Note>',
+      '  <AudioTranscript',
+      '    voices={[]}',
+      '  />',
+      '</Note>',
+      '',
+      'Text  with   odd spacing *kept*.',
+      '',
+      '{/* speak-mintlify-hash: 1234 */}',
+      '<AudioTranscript voices={[',
+      '  {"id": "old", "name": "Old"}',
+      ']} />',
+      '',
+    ].join('\n');
+
+    const output = await injectAudioComponent(content, voices, hash);
+
+    expect(output.match(/<AudioTranscript/g)).toHaveLength(1);
+    expect(output.match(/speak-mintlify-hash/g)).toHaveLength(1);
+    expect(output).toContain('<Note>\n</Note>');
+    expect(output).toContain('Text  with   odd spacing *kept*.');
+    expect(output).toContain('# Stray\n\n<Note>');
+    expect(output).toContain('*kept*.\n\n{/* speak-mintlify-hash: ' + hash);
+    expect(await injectAudioComponent(output, voices, hash)).toBe(output);
+  });
+});
+
+describe('removeAudioComponent', () => {
+  it.each(PAGES)('restores %s.mdx after injection', async (page) => {
+    const content = await readPage(page);
+    if (content.includes('AudioTranscript')) return;
+
+    const injected = await injectAudioComponent(content, voices, hash);
+    expect(await removeAudioComponent(injected)).toBe(content);
+  });
+
+  it('removes a multi-line component, its hash comment and import', async () => {
+    const output = await removeAudioComponent(await readPage('existing'));
+
+    expect(output).not.toContain('AudioTranscript');
+    expect(output).not.toContain('speak-mintlify-hash');
+    expect(output).not.toMatch(/\n\n\n/);
+  });
+
+  it('keeps other specifiers of a shared import', async () => {
+    const content = [
+      "import Player, { AudioTranscript, Other } from '/snippets/audio-transcript.jsx';",
+      "import Solo, { AudioTranscript as A } from '/snippets/solo.jsx';",
+      '',
+      '<AudioTranscript voices={[]} />',
+      '',
+      '# Title',
+      '',
+    ].join('\n');
+
+    expect(await removeAudioComponent(content)).toBe(
+      [
+        "import Player, { Other } from '/snippets/audio-transcript.jsx';",
+        "import Solo, { AudioTranscript as A } from '/snippets/solo.jsx';",
+        '',
+        '# Title',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('injectManifestComponent', () => {
+  it('adds the component once', async () => {
+    const once = await injectManifestComponent(
+      await readPage('basic'),
+      'https://cdn.test/audio/manifest.json'
+    );
+
+    expect(once).toContain('<AudioTranscript manifest="https://cdn.test/audio/manifest.json" />');
+    expect(await injectManifestComponent(once, 'https://cdn.test/other.json')).toBe(once);
+  });
+});
+
+describe('extractExistingAudioData', () => {
+  it('reads multi-line voices and the hash comment', async () => {
+    const data = await extractExistingAudioData(await readPage('existing'), 'AudioTranscript');
+
+    expect(data?.hash).toBe('0'.repeat(64));
+    expect(data?.voiceIds).toEqual(['alloy']);
+  });
+
+  it('ignores speech markers that mention the hash', async () => {
+    const content = [
+      '{/* speak: speak-mintlify-hash: abc */}',
+      '',
+      '<AudioTranscript voices={[]} />',
+      '',
+      '{/* speak-mintlify-hash: abc */}',
+      '',
+    ].join('\n');
+    const data = await extractExistingAudioData(
+      content.replace('[]', JSON.stringify(voices)),
+      'AudioTranscript'
+    );
+
+    expect(data?.hash).toBe('abc');
+  });
+
+  it('returns null without a component', async () => {
+    expect(await extractExistingAudioData(await readPage('basic'), 'AudioTranscript')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { compileLexicon, validatePronunciations } from '../src/core/lexicon.js';
+
+describe('compileLexicon', () => {
+  it('replaces whole, case-sensitive terms', () => {
+    const pronounce = compileLexicon({ terms: { SQL: 'sequel', Mintlify: 'mint-lify' } }, { voiceId: 'alloy' });
+
+    expect(pronounce('Mintlify stores SQL, not sql or SQLite.')).toBe(
+      'mint-lify stores sequel, not sql or SQLite.'
+    );
+  });
+
+  it('prefers the longest term and never rewrites a replacement', () => {
+    const pronounce = compileLexicon(
+      { terms: { API: 'A P I', 'API key': 'A P I key', A: 'ay' } },
+      { voiceId: 'alloy' }
+    );
+
+    expect(pronounce('Copy the API key from the API page.')).toBe(
+      'Copy the A P I key from the A P I page.'
+    );
+  });
+
+  it('runs regex patterns before terms', () => {
+    const pronounce = compileLexicon(
+      {
+        terms: { version: 'VERSION' },
+        patterns: [{ match: '\\bv(\\d+)\\b', replace: 'version $1' }],
+      },
+      { voiceId: 'alloy' }
+    );
+
+    expect(pronounce('Upgrade to v2 or v3.')).toBe('Upgrade to VERSION 2 or VERSION 3.');
+  });
+
+  it('lets language rules override global ones and voice rules override both', () => {
+    const config = {
+      terms: { GIF: 'gif', CLI: 'C L I' },
+      languages: { es: { terms: { GIF: 'gif en español' } } },
+      voices: { nova: { terms: { GIF: 'jif' } } },
+    };
+
+    expect(compileLexicon(config, { voiceId: 'alloy' })('GIF CLI')).toBe('gif C L I');
+    expect(compileLexicon(config, { voiceId: 'alloy', language: 'es' })('GIF CLI')).toBe('gif en español C L I');
+    expect(compileLexicon(config, { voiceId: 'nova', language: 'es' })('GIF CLI')).toBe('jif C L I');
+  });
+
+  it('returns text unchanged without rules', () => {
+    expect(compileLexicon({}, { voiceId: 'alloy' })('Nothing to do.')).toBe('Nothing to do.');
+  });
+});
+
+describe('validatePronunciations', () => {
+  it('reports invalid patterns and replacements', () => {
+    const errors = validatePronunciations({
+      terms: { SQL: 42 as any },
+      patterns: [{ match: '(', replace: '' }],
+      voices: { nova: { patterns: [{ match: 'x' } as any] } },
+    });
+
+    expect(errors).toEqual([
+      'pronunciations.terms.SQL must be a string',
+      expect.stringContaining('pronunciations.patterns[0]:'),
+      'pronunciations.voices.nova.patterns[0] needs string "match" and "replace" fields',
+    ]);
+  });
+
+  it('accepts a valid config', () => {
+    expect(
+      validatePronunciations({ terms: { SQL: 'sequel' }, patterns: [{ match: 'v(\\d)', replace: 'version $1', flags: 'i' }] })
+    ).toEqual([]);
+  });
+});
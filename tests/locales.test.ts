@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, resolvePageLocale, validateLocales } from '../src/core/locales.js';
+
+const settings = {
+  defaultLocale: 'en',
+  voiceIds: ['alloy'],
+  voiceNames: ['Alloy'],
+  locales: [
+    { code: 'es', pathPrefix: 'es/', voiceIds: ['sofia'], voiceNames: ['Sofía'] },
+    { code: 'ja', pathPrefix: 'ja/', voiceIds: ['hana'], voiceNames: ['Hana'] },
+  ],
+};
+
+describe('detectLanguage', () => {
+  it.each([
+    ['これはドキュメントです。', 'ja'],
+    ['这是文档。', 'zh'],
+    ['이것은 문서입니다.', 'ko'],
+    ['Это документация.', 'ru'],
+    ['This is documentation.', null],
+    ['Esto es documentación.', null],
+    ['', null],
+  ])('%s → %s', (text, language) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+});
+
+describe('resolvePageLocale', () => {
+  it('uses the default voices for pages outside any locale', () => {
+    expect(resolvePageLocale('guides/intro.mdx', {}, settings, 'Hello.')).toEqual({
+      locale: 'en',
+      language: 'en',
+      voiceIds: ['alloy'],
+      voiceNames: ['Alloy'],
+      warnings: [],
+    });
+  });
+
+  it('matches locales by path prefix', () => {
+    const page = resolvePageLocale('es/guides/intro.mdx', {}, settings, 'Hola.');
+    expect(page).toMatchObject({ locale: 'es', voiceIds: ['sofia'], warnings: [] });
+  });
+
+  it('prefers frontmatter lang, matching regional variants', () => {
+    const page = resolvePageLocale('guides/intro.mdx', { lang: 'es-MX' }, settings, 'Hola.');
+    expect(page).toMatchObject({ locale: 'es', language: 'es', voiceIds: ['sofia'], warnings: [] });
+  });
+
+  it('warns about mismatched languages', () => {
+    expect(resolvePageLocale('es/intro.mdx', { lang: 'ja' }, settings).warnings).toEqual([
+      `lang "ja" doesn't match the es locale of its path`,
+    ]);
+    expect(resolvePageLocale('intro.mdx', { lang: 'fr' }, settings)).toMatchObject({
+      locale: 'en',
+      language: 'fr',
+      voiceIds: ['alloy'],
+      warnings: ['No voices configured for lang "fr"'],
+    });
+    expect(resolvePageLocale('es/intro.mdx', {}, settings, 'これはドキュメントです。').warnings).toEqual([
+      'Text looks like "ja" but is narrated with es voices',
+    ]);
+  });
+});
+
+describe('validateLocales', () => {
+  it('requires voices and distinct paths', () => {
+    expect(
+      validateLocales([
+        { code: 'es', pathPrefix: 'es/', voiceIds: [], voiceNames: [] },
+        { code: 'es-MX', pathPrefix: 'es/', voiceIds: ['a'], voiceNames: ['A'] },
+      ])
+    ).toEqual(['locales.es must have at least one voice', 'locales.es-MX shares path "es/" with another locale']);
+  });
+});
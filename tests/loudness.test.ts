@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { measureLoudness, samplePeak } from '../src/core/loudness.js';
+import { sine } from './helpers/tone.js';
+
+describe('measureLoudness', () => {
+  it('reads a full-scale 997 Hz sine as -3.01 LUFS at common sample rates', () => {
+    expect(measureLoudness([sine(2, 1, 48000)], 48000)).toBeCloseTo(-3.01, 1);
+    expect(measureLoudness([sine(2, 1, 44100)], 44100)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('scales with level and sums channels', () => {
+    const tone = sine(2, 0.1, 48000);
+
+    expect(measureLoudness([tone], 48000)).toBeCloseTo(-23.01, 1);
+    expect(measureLoudness([tone, tone], 48000)).toBeCloseTo(-20.0, 1);
+  });
+
+  it('gates out silence', () => {
+    const tone = sine(2, 0.1, 48000);
+    const withPause = new Float32Array(tone.length * 2);
+    withPause.set(tone);
+
+    // Only the blocks straddling the edge pull it down; ungated it would read 3 dB lower
+    expect(measureLoudness([withPause], 48000)).toBeCloseTo(-23.01, 0);
+    expect(measureLoudness([new Float32Array(48000)], 48000)).toBe(-Infinity);
+  });
+
+  it('measures signals shorter than a gating block as one block', () => {
+    expect(measureLoudness([sine(0.2, 0.1, 48000)], 48000)).toBeCloseTo(-23.01, 0);
+  });
+});
+
+describe('samplePeak', () => {
+  it('finds the largest absolute sample', () => {
+    expect(samplePeak([Float32Array.from([0.1, -0.7]), Float32Array.from([0.5])])).toBeCloseTo(0.7);
+  });
+});
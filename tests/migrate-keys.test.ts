@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { migrateKeysCommand } from '../src/commands/migrate-keys.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { createDocsDir } from './helpers/fixtures.js';
+import { BUCKET, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let directory: string;
+
+beforeAll(async () => {
+  s3 = await startFakeS3();
+});
+
+afterAll(async () => {
+  await s3.close();
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  s3.put(BUCKET, 'audio/existing/alloy.mp3', { body: Buffer.from('audio'), contentType: 'audio/mpeg' });
+  directory = await createDocsDir();
+  await fs.mkdir(path.join(directory, 'guides'));
+  await fs.rename(path.join(directory, 'existing.mdx'), path.join(directory, 'guides/existing.mdx'));
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const readExisting = () => fs.readFile(path.join(directory, 'guides/existing.mdx'), 'utf-8');
+
+describe('migrateKeysCommand', () => {
+  it('copies objects to the full-path layout and rewrites URLs', async () => {
+    await migrateKeysCommand(directory, s3Options(s3));
+
+    expect(s3.keys(BUCKET)).toEqual(['audio/existing/alloy.mp3', 'audio/guides/existing/alloy.mp3']);
+    expect(await readExisting()).toContain('"url": "https://cdn.test/audio/guides/existing/alloy.mp3"');
+  });
+
+  it('only previews in dry-run mode', async () => {
+    const before = await readExisting();
+
+    await migrateKeysCommand(directory, { ...s3Options(s3), dryRun: true });
+
+    expect(s3.keys(BUCKET)).toEqual(['audio/existing/alloy.mp3']);
+    expect(await readExisting()).toBe(before);
+  });
+});
+
+describe('migrateKeysCommand in manifest mode', () => {
+  it('copies objects and rewrites manifest URLs', async () => {
+    const manifestPath = path.join(directory, '.audio-metadata.json');
+    const voices = [
+      {
+        id: 'alloy',
+        name: 'Alloy',
+        url: 'https://cdn.test/audio/existing/alloy.mp3',
+        transcriptUrl: 'https://cdn.test/audio/existing/alloy.vtt',
+      },
+    ];
+    await fs.writeFile(
+      manifestPath,
+      JSON.stringify({ 'guides/existing.mdx': { hash: 'a'.repeat(64), lastUpdated: '2024-01-01', voices } })
+    );
+    s3.put(BUCKET, 'audio/existing/alloy.vtt', { body: Buffer.from('WEBVTT'), contentType: 'text/vtt' });
+    const page = await readExisting();
+
+    await migrateKeysCommand(directory, { ...s3Options(s3), output: 'manifest' });
+
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    expect(manifest['guides/existing.mdx'].voices).toEqual([
+      {
+        id: 'alloy',
+        name: 'Alloy',
+        url: 'https://cdn.test/audio/guides/existing/alloy.mp3',
+        transcriptUrl: 'https://cdn.test/audio/guides/existing/alloy.vtt',
+      },
+    ]);
+    expect(s3.keys(BUCKET)).toEqual([
+      'audio/existing/alloy.mp3',
+      'audio/existing/alloy.vtt',
+      'audio/guides/existing/alloy.mp3',
+      'audio/guides/existing/alloy.vtt',
+      'audio/manifest.json',
+    ]);
+    expect(JSON.parse(s3.get(BUCKET, 'audio/manifest.json')!.body.toString())).toEqual(manifest);
+    expect(await readExisting()).toBe(page);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getPageOptions } from '../src/core/page-options.js';
+
+describe('getPageOptions', () => {
+  it('narrates pages without a speak key', () => {
+    expect(getPageOptions({ title: 'Intro' })).toEqual({
+      enabled: true,
+      voices: null,
+      intro: null,
+      exclude: [],
+    });
+  });
+
+  it('opts out with speak: false', () => {
+    expect(getPageOptions({ speak: false }).enabled).toBe(false);
+  });
+
+  it('reads voices, intro and exclude selectors', () => {
+    const options = getPageOptions({
+      title: 'Getting Started',
+      description: 'Install the CLI',
+      speak: { voices: ['alloy'], intro: true, exclude: ['#changelog'] },
+    });
+
+    expect(options).toEqual({
+      enabled: true,
+      voices: ['alloy'],
+      intro: 'Getting Started.\n\nInstall the CLI.',
+      exclude: ['#changelog'],
+    });
+  });
+
+  it('accepts comma-separated voices, a custom intro and a single selector', () => {
+    expect(getPageOptions({ speak: { voices: 'alloy, echo', intro: 'Welcome!', exclude: 'FAQ' } })).toEqual({
+      enabled: true,
+      voices: ['alloy', 'echo'],
+      intro: 'Welcome!',
+      exclude: ['FAQ'],
+    });
+  });
+
+  it('reports every invalid setting', () => {
+    expect(() => getPageOptions({ speak: { voices: [], intro: 3, exclude: [1], speed: 2 } })).toThrow(
+      'Invalid frontmatter:\n' +
+        '  - speak.voices must be a non-empty list of voice IDs\n' +
+        '  - speak.intro must be true, false or the text to speak\n' +
+        '  - speak.exclude must be a list of "#anchor" or heading selectors\n' +
+        '  - Unknown setting speak.speed'
+    );
+    expect(() => getPageOptions({ speak: 'no' })).toThrow('speak must be false');
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { concatMp3, getMp3Duration } from '../src/core/audio.js';
+import { measureLoudness, samplePeak } from '../src/core/loudness.js';
+import {
+  AudioPostProcessor,
+  createPostProcessor,
+  DEFAULT_POST_PROCESSING,
+  validatePostProcessing,
+} from '../src/core/post-process.js';
+import { decodeTone, toneMp3 } from './helpers/tone.js';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'speak-post-'));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Stitch clips the way the synthesizer does, with one segment per clip
+ */
+function stitch(...clips: Buffer[]) {
+  return {
+    audio: concatMp3(clips),
+    segments: clips.map((clip, i) => ({ text: `Chunk ${i + 1}`, duration: getMp3Duration(clip) })),
+  };
+}
+
+const processor = (options: Partial<typeof DEFAULT_POST_PROCESSING>) =>
+  new AudioPostProcessor({ ...DEFAULT_POST_PROCESSING, ...options }, {}, {});
+
+describe('AudioPostProcessor', () => {
+  it('normalizes loudness to the target', async () => {
+    const { audio, segments } = stitch(toneMp3(2, 0.05));
+
+    const result = await processor({ loudness: -16 }).process(audio, { segments, sectionStarts: [0] });
+    const { channels, sampleRate } = await decodeTone(result.audio);
+
+    expect(measureLoudness(channels, sampleRate)).toBeCloseTo(-16, 0);
+    expect(getMp3Duration(result.audio)).toBeCloseTo(getMp3Duration(audio), 1);
+  });
+
+  it('evens out chunks synthesized at different levels', async () => {
+    const { audio, segments } = stitch(toneMp3(1.5, 0.02), toneMp3(1.5, 0.3));
+
+    const result = await processor({ loudness: -20 }).process(audio, { segments, sectionStarts: [0] });
+    const { channels, sampleRate } = await decodeTone(result.audio);
+    const middle = Math.round(segments[0]!.duration * sampleRate);
+
+    expect(measureLoudness([channels[0]!.subarray(0, middle)], sampleRate)).toBeCloseTo(-20, 0);
+    expect(measureLoudness([channels[0]!.subarray(middle)], sampleRate)).toBeCloseTo(-20, 0);
+  });
+
+  it('keeps peaks under the ceiling', async () => {
+    const { audio, segments } = stitch(toneMp3(1, 0.5));
+
+    const result = await processor({ loudness: -3, peak: -6 }).process(audio, { segments, sectionStarts: [0] });
+    const { channels } = await decodeTone(result.audio);
+
+    expect(samplePeak(channels)).toBeLessThan(0.55);
+  });
+
+  it('trims leading and trailing silence and moves timings to match', async () => {
+    const { audio, segments } = stitch(
+      toneMp3(0.5, 0.1, { silenceBefore: 1 }),
+      toneMp3(0.5, 0.1, { silenceAfter: 1 })
+    );
+
+    const result = await processor({ trimSilence: true }).process(audio, {
+      segments,
+      sectionStarts: [0, segments[0]!.duration],
+    });
+
+    // One second of silence goes from each end, less the padding
+    expect(getMp3Duration(result.audio)).toBeCloseTo(getMp3Duration(audio) - 1.9, 1);
+    expect(result.segments.map((segment) => segment.text)).toEqual(['Chunk 1', 'Chunk 2']);
+    expect(result.segments[0]!.duration).toBeCloseTo(segments[0]!.duration - 0.95, 1);
+    expect(result.sectionStarts[0]).toBe(0);
+    expect(result.sectionStarts[1]).toBeCloseTo(result.segments[0]!.duration, 5);
+  });
+
+  it('leaves silent audio untouched', async () => {
+    const { audio, segments } = stitch(toneMp3(1, 0));
+
+    const result = await processor({ loudness: -16, trimSilence: true }).process(audio, {
+      segments,
+      sectionStarts: [0],
+    });
+
+    expect(result.segments).toEqual(segments);
+    expect(getMp3Duration(result.audio)).toBeCloseTo(getMp3Duration(audio), 1);
+  });
+});
+
+describe('createPostProcessor', () => {
+  it('adds intro and outro clips and shifts timings past the intro', async () => {
+    await fs.writeFile(path.join(directory, 'intro.mp3'), toneMp3(0.5, 0.1));
+    await fs.writeFile(path.join(directory, 'outro.mp3'), toneMp3(0.25, 0.1));
+    const { audio, segments } = stitch(toneMp3(1, 0.1), toneMp3(1, 0.1));
+
+    const postProcessor = await createPostProcessor(
+      { ...DEFAULT_POST_PROCESSING, intro: 'intro.mp3', outro: 'outro.mp3' },
+      directory
+    );
+    const result = await postProcessor.process(audio, { segments, sectionStarts: [0, segments[0]!.duration] });
+
+    const [intro, , , outro] = result.segments;
+    expect(result.segments.map((segment) => segment.text)).toEqual(['', 'Chunk 1', 'Chunk 2', '']);
+    expect(intro!.duration).toBeCloseTo(0.5, 1);
+    expect(outro!.duration).toBeCloseTo(0.25, 1);
+    expect(result.sectionStarts).toEqual([intro!.duration, intro!.duration + segments[0]!.duration]);
+    // Timings add up to the output, give or take the encoder's delay and frame padding
+    const total = result.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    expect(Math.abs(getMp3Duration(result.audio) - total)).toBeLessThan(0.1);
+  });
+
+  it('includes clip contents in its settings', async () => {
+    const clip = path.join(directory, 'intro.mp3');
+    const options = { ...DEFAULT_POST_PROCESSING, intro: 'intro.mp3' };
+
+    await fs.writeFile(clip, toneMp3(0.5, 0.1));
+    const first = await createPostProcessor(options, directory);
+    await fs.writeFile(clip, toneMp3(0.5, 0.2));
+    const second = await createPostProcessor(options, directory);
+
+    expect(first.settings).toMatchObject({ intro: { file: 'intro.mp3' }, peak: -1 });
+    expect(first.settings).not.toEqual(second.settings);
+  });
+
+  it('rejects clips that are not MP3', async () => {
+    await fs.writeFile(path.join(directory, 'intro.mp3'), 'not audio');
+
+    await expect(
+      createPostProcessor({ ...DEFAULT_POST_PROCESSING, intro: 'intro.mp3' }, directory)
+    ).rejects.toThrow('postProcessing.intro (intro.mp3) is not a valid MP3 stream');
+  });
+});
+
+describe('validatePostProcessing', () => {
+  it('accepts the defaults and a loudness target', () => {
+    expect(validatePostProcessing(DEFAULT_POST_PROCESSING)).toEqual([]);
+    expect(validatePostProcessing({ ...DEFAULT_POST_PROCESSING, loudness: -16, intro: 'intro.mp3' })).toEqual([]);
+  });
+
+  it('reports out-of-range levels and mistyped settings', () => {
+    expect(
+      validatePostProcessing({
+        loudness: 6,
+        peak: -1,
+        trimSilence: 'yes' as any,
+        silenceThreshold: -120,
+        outro: '',
+      })
+    ).toEqual([
+      'postProcessing.loudness must be a number of LUFS between -70 and 0',
+      'postProcessing.silenceThreshold must be a number of dBFS between -100 and 0',
+      'postProcessing.trimSilence must be true or false',
+      'postProcessing.outro must be the path of an MP3 file',
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { TTSProvider } from '../src/types/index.js';
+import { extractSections } from '../src/core/extractor.js';
+import { renderSSML, stripProsodyMarks } from '../src/core/prosody.js';
+import { synthesizeSections } from '../src/core/synthesizer.js';
+import { silentMp3 } from './helpers/mp3.js';
+
+const page = [
+  '## Install & run',
+  '',
+  'Use **npm** to install, _not_ yarn.',
+  '',
+  '1. Download',
+  '2. Run it',
+  '',
+].join('\n');
+
+const texts = async () =>
+  (await extractSections(page, { prosody: true })).map((section) => section.text);
+
+describe('prosody marks', () => {
+  it('leave the plain text and section titles unchanged', async () => {
+    const [marked] = await texts();
+    const [plain] = (await extractSections(page)).map((section) => section.text);
+    const [section] = await extractSections(page, { prosody: true });
+
+    expect(marked).not.toBe(plain);
+    expect(stripProsodyMarks(marked!)).toBe(plain);
+    expect(section?.title).toBe('Install & run');
+    expect(section?.anchor).toBe('install-&-run');
+  });
+
+  it('render as SSML with emphasis and pauses', async () => {
+    const [marked] = await texts();
+
+    expect(renderSSML(marked!, { enabled: true, headingPause: 500, listPause: 200 })).toBe(
+      '<speak>' +
+        '<p>Install &amp; run<break time="500ms"/></p>' +
+        '<p>Use <emphasis>npm</emphasis> to install, <emphasis>not</emphasis> yarn.</p>' +
+        '<p>1. Download<break time="200ms"/></p>' +
+        '<p>2. Run it<break time="200ms"/></p>' +
+        '</speak>'
+    );
+  });
+
+  it('balance emphasis in chunks split inside it', async () => {
+    // Mark characters copied from extracted text
+    const marked = (await texts())[0]!;
+    const [start, end] = [marked.indexOf('npm') - 1, marked.indexOf('npm') + 3].map((i) => marked[i]!);
+
+    expect(renderSSML(`Say ${start}one.`)).toBe('<speak><p>Say <emphasis>one.</emphasis></p></speak>');
+    expect(renderSSML(`Two.${end} Done & dusted.`)).toBe(
+      '<speak><p><emphasis>Two.</emphasis> Done &amp; dusted.</p></speak>'
+    );
+  });
+});
+
+describe('synthesizeSections with render', () => {
+  it('sends rendered chunks to the provider and keeps plain transcript text', async () => {
+    const inputs: string[] = [];
+    const provider: TTSProvider = {
+      name: 'command',
+      markup: 'ssml',
+      generateTTS: async (text) => {
+        inputs.push(text);
+        return silentMp3(1);
+      },
+    };
+
+    const result = await synthesizeSections(provider, await texts(), 'voice', {
+      pronounce: (text) => text.replace('npm', 'N P M'),
+      render: (text) => renderSSML(text),
+    });
+
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0]).toContain('<emphasis>N P M</emphasis>');
+    expect(result.segments[0]!.text).toContain('Use npm to install');
+    expect(result.segments[0]!.text).not.toMatch(/[\uE000-\uE003]/);
+  });
+});
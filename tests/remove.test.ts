@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateCommand } from '../src/commands/generate.js';
+import { removeCommand } from '../src/commands/remove.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir, readPage } from './helpers/fixtures.js';
+import { BUCKET, generateOptions, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const readDocsPage = (file: string) => fs.readFile(path.join(directory, file), 'utf-8');
+
+describe('removeCommand', () => {
+  it('restores matching pages and leaves audio in place by default', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const keys = s3.keys(BUCKET);
+
+    await removeCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx' });
+
+    expect(await readDocsPage('basic.mdx')).toBe(await readPage('basic'));
+    expect(await readDocsPage('imports.mdx')).toContain('<AudioTranscript');
+    expect(s3.keys(BUCKET)).toEqual(keys);
+  });
+
+  it('deletes audio only referenced by removed pages with --delete-audio', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const keys = s3.keys(BUCKET);
+
+    await removeCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx', deleteAudio: true });
+
+    expect(s3.keys(BUCKET)).toEqual(keys.filter((key) => !key.startsWith('audio/basic/')));
+  });
+
+  it('changes nothing in dry-run mode', async () => {
+    await generateCommand(directory, generateOptions(s3, tts));
+    const keys = s3.keys(BUCKET);
+    const before = await readDocsPage('basic.mdx');
+
+    await removeCommand(directory, { ...s3Options(s3), deleteAudio: true, dryRun: true });
+
+    expect(await readDocsPage('basic.mdx')).toBe(before);
+    expect(s3.keys(BUCKET)).toEqual(keys);
+  });
+
+  it('drops manifest entries and republishes the manifest in manifest mode', async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), output: 'manifest' });
+
+    await removeCommand(directory, {
+      ...s3Options(s3),
+      output: 'manifest',
+      pattern: 'basic.mdx',
+      deleteAudio: true,
+    });
+
+    const manifest = JSON.parse(s3.get(BUCKET, 'audio/manifest.json')!.body.toString());
+    expect(Object.keys(manifest)).not.toContain('basic.mdx');
+    expect(Object.keys(manifest)).toContain('imports.mdx');
+    expect(await readDocsPage('basic.mdx')).toBe(await readPage('basic'));
+    expect(s3.keys(BUCKET).filter((key) => key.startsWith('audio/basic/'))).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanupCommand } from '../src/commands/cleanup.js';
+import { generateCommand } from '../src/commands/generate.js';
+import {
+  buildGenerateReport,
+  formatReport,
+  inferReportFormat,
+  validateReportOptions,
+  type CleanupReport,
+  type GenerateReport,
+} from '../src/core/report.js';
+import { EXIT_CODES } from '../src/core/errors.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir, PAGES } from './helpers/fixtures.js';
+import { BUCKET, generateOptions, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  tts.requests.length = 0;
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const run = { startedAt: new Date('2026-01-02T03:04:05Z'), durationMs: 2500, dryRun: false };
+
+const generateReport = buildGenerateReport(
+  [
+    {
+      file: 'guide.mdx',
+      success: true,
+      voices: [{ id: 'alloy', name: 'Alloy', url: '' }],
+      characters: 1200,
+      bytesUploaded: 48_000,
+      durationMs: 1800,
+    },
+    { file: 'same.mdx', success: true, skipped: true, reason: 'Content unchanged', voices: [], durationMs: 3 },
+    {
+      file: 'a|b.mdx',
+      success: false,
+      error: 'Provider said <no> & "stop"',
+      warnings: ['Alloy: TTS attempt 1 failed (timeout). 3 retries left.'],
+      voices: [],
+    },
+  ],
+  run
+);
+
+const cleanupReport: CleanupReport = {
+  command: 'cleanup',
+  startedAt: run.startedAt.toISOString(),
+  durationMs: 900,
+  dryRun: true,
+  summary: { scanned: 3, referenced: 4, total: 6, orphaned: 2, deleted: 0 },
+  orphanedKeys: ['audio/old/alloy.mp3', 'audio/old/alloy.vtt'],
+  deletedKeys: [],
+};
+
+describe('inferReportFormat', () => {
+  it('uses the explicit format, then the extension, then JSON', () => {
+    expect(inferReportFormat('out.xml', 'markdown')).toBe('markdown');
+    expect(inferReportFormat('out.xml')).toBe('junit');
+    expect(inferReportFormat('out.MD')).toBe('markdown');
+    expect(inferReportFormat('out.json')).toBe('json');
+    expect(inferReportFormat('report')).toBe('json');
+  });
+
+  it('writes Markdown to the GitHub step summary', () => {
+    vi.stubEnv('GITHUB_STEP_SUMMARY', '/tmp/step_summary_abc');
+    expect(inferReportFormat('/tmp/step_summary_abc')).toBe('markdown');
+  });
+});
+
+describe('validateReportOptions', () => {
+  it('reports unknown formats', () => {
+    expect(validateReportOptions(undefined)).toEqual([]);
+    expect(validateReportOptions({ file: '/tmp/r.json', format: 'json' })).toEqual([]);
+    expect(validateReportOptions({ file: '/tmp/r', format: 'yaml' as any })).toEqual([
+      'Report format must be one of: json, junit, markdown (got "yaml")',
+    ]);
+  });
+});
+
+describe('buildGenerateReport', () => {
+  it('summarizes per-file results', () => {
+    expect(generateReport.summary).toEqual({ generated: 1, skipped: 1, failed: 1, characters: 1200, bytesUploaded: 48_000 });
+    expect(generateReport.files[1]).toEqual({
+      file: 'same.mdx',
+      status: 'skipped',
+      reason: 'Content unchanged',
+      voices: [],
+      characters: 0,
+      bytesUploaded: 0,
+      durationMs: 3,
+    });
+  });
+});
+
+describe('formatReport', () => {
+  it('writes JUnit test cases with failures and skips', () => {
+    const xml = formatReport(generateReport, 'junit');
+
+    expect(xml).toContain('tests="3" failures="1" skipped="1" time="2.500"');
+    expect(xml).toContain('<testcase classname="speak-mintlify.generate" name="guide.mdx" time="1.800">');
+    expect(xml).toContain('<skipped message="Content unchanged"/>');
+    expect(xml).toContain('<failure message="Provider said &lt;no&gt; &amp; &quot;stop&quot;">');
+    expect(xml).toContain('<system-out>voices: alloy; characters: 1200; bytes uploaded: 48000</system-out>');
+    expect(xml).toContain('<system-err>Alloy: TTS attempt 1 failed (timeout). 3 retries left.</system-err>');
+  });
+
+  it('writes a Markdown table', () => {
+    const markdown = formatReport(generateReport, 'markdown');
+
+    expect(markdown).toContain('## speak-mintlify generate\n');
+    expect(markdown).toContain('**1 generated**, 1 skipped, 1 failed · 1,200 characters · 46.9 KB uploaded · 2.5s');
+    expect(markdown).toContain('| `guide.mdx` | ✅ Generated | alloy | 1,200 | 46.9 KB | 1.8s |');
+    expect(markdown).toContain(
+      '| `a\\|b.mdx` | ❌ Failed: Provider said <no> & "stop"; ⚠️ Alloy: TTS attempt 1 failed (timeout). 3 retries left. |'
+    );
+  });
+
+  it('lists orphaned keys for cleanup', () => {
+    expect(formatReport(cleanupReport, 'markdown')).toContain(
+      '**Would delete:**\n\n- `audio/old/alloy.mp3`\n- `audio/old/alloy.vtt`\n'
+    );
+    const xml = formatReport(cleanupReport, 'junit');
+    expect(xml).toContain('tests="2" failures="0" skipped="2"');
+    expect(xml).toContain('<testcase classname="speak-mintlify.cleanup" name="audio/old/alloy.mp3">');
+  });
+
+  it('writes JSON', () => {
+    expect(JSON.parse(formatReport(generateReport, 'json'))).toEqual(generateReport);
+  });
+});
+
+describe('generate --report', () => {
+  it('records characters, uploads and timings, then skips on rerun', async () => {
+    const file = path.join(directory, 'reports', 'generate.json');
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), report: file });
+    const first: GenerateReport = JSON.parse(await fs.readFile(file, 'utf-8'));
+
+    expect(first.files).toHaveLength(PAGES.length);
+    expect(first.summary.generated).toBe(PAGES.length);
+    expect(first.summary.characters).toBe(tts.requests.reduce((sum, request) => sum + request.input.length, 0));
+    const uploaded = s3
+      .keys(BUCKET)
+      .reduce((sum, key) => sum + s3.objects.get(`${BUCKET}/${key}`)!.body.length, 0);
+    expect(first.summary.bytesUploaded).toBe(uploaded);
+    expect(first.files[0]!.voices).toEqual(['alloy', 'echo']);
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), report: file });
+    const second: GenerateReport = JSON.parse(await fs.readFile(file, 'utf-8'));
+
+    expect(second.summary).toMatchObject({ generated: 0, skipped: PAGES.length, characters: 0, bytesUploaded: 0 });
+    expect(second.files.every((entry) => entry.reason === 'Content unchanged')).toBe(true);
+  });
+
+  it('appends Markdown to the GitHub step summary', async () => {
+    const summary = path.join(directory, 'step-summary');
+    await fs.writeFile(summary, '# Earlier step\n');
+    vi.stubEnv('GITHUB_STEP_SUMMARY', summary);
+
+    await generateCommand(directory, { ...generateOptions(s3, tts), dryRun: true, report: summary });
+
+    const content = await fs.readFile(summary, 'utf-8');
+    expect(content.startsWith('# Earlier step\n## speak-mintlify generate (dry run)\n')).toBe(true);
+  });
+
+  it('fails on an unknown report format', async () => {
+    const result = await generateCommand(directory, {
+      ...generateOptions(s3, tts),
+      report: 'out.txt',
+      reportFormat: 'yaml',
+    });
+
+    expect(result.exitCode).toBe(EXIT_CODES.configError);
+    expect(tts.requests).toHaveLength(0);
+  });
+});
+
+describe('cleanup --report', () => {
+  it('lists orphaned and deleted keys', async () => {
+    const file = path.join(directory, 'cleanup.xml');
+    s3.put(BUCKET, 'audio/removed-page/alloy.mp3', { body: Buffer.from('old'), contentType: 'audio/mpeg' });
+
+    await cleanupCommand(directory, { ...s3Options(s3), report: file, reportFormat: 'json' });
+
+    const report: CleanupReport = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(report.orphanedKeys).toEqual(['audio/removed-page/alloy.mp3']);
+    expect(report.deletedKeys).toEqual(['audio/removed-page/alloy.mp3']);
+    expect(report.summary).toMatchObject({ orphaned: 1, deleted: 1, total: 1 });
+  });
+});
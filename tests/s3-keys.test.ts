@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAudioKey,
+  DEFAULT_KEY_TEMPLATE,
+  IMMUTABLE_KEY_TEMPLATE,
+  LEGACY_KEY_TEMPLATE,
+  validateKeyTemplate,
+} from '../src/core/s3-keys.js';
+
+describe('buildAudioKey', () => {
+  const params = { prefix: 'audio', filePath: 'guides/api/intro.mdx', voiceId: 'alloy', hash: 'abc' };
+
+  it('uses the full page path by default', () => {
+    expect(buildAudioKey(DEFAULT_KEY_TEMPLATE, params)).toBe('audio/guides/api/intro/alloy.mp3');
+  });
+
+  it('keeps pages with the same last segments apart', () => {
+    const other = buildAudioKey(DEFAULT_KEY_TEMPLATE, { ...params, filePath: 'reference/api/intro.mdx' });
+    expect(other).not.toBe(buildAudioKey(DEFAULT_KEY_TEMPLATE, params));
+  });
+
+  it('reproduces the legacy slug layout', () => {
+    expect(buildAudioKey(LEGACY_KEY_TEMPLATE, params)).toBe('audio/api-intro/alloy.mp3');
+  });
+
+  it('includes the content hash for immutable keys', () => {
+    expect(buildAudioKey(IMMUTABLE_KEY_TEMPLATE, params)).toBe('audio/guides/api/intro/abc/alloy.mp3');
+  });
+
+  it('scopes keys by locale with {locale}', () => {
+    expect(buildAudioKey('{prefix}/{locale}/{slug}/{voice}.{ext}', { ...params, locale: 'es' })).toBe(
+      'audio/es/api-intro/alloy.mp3'
+    );
+  });
+
+  it('throws when {hash} has no value', () => {
+    expect(() => buildAudioKey(IMMUTABLE_KEY_TEMPLATE, { ...params, hash: undefined })).toThrow('{hash}');
+  });
+});
+
+describe('validateKeyTemplate', () => {
+  it('accepts the built-in templates', () => {
+    for (const template of [DEFAULT_KEY_TEMPLATE, LEGACY_KEY_TEMPLATE, IMMUTABLE_KEY_TEMPLATE]) {
+      expect(validateKeyTemplate(template)).toEqual([]);
+    }
+  });
+
+  it('reports unknown placeholders and missing parts', () => {
+    expect(validateKeyTemplate('other/{page}.{ext}')).toHaveLength(4);
+  });
+
+  it('requires {ext} so audio and transcripts do not collide', () => {
+    expect(validateKeyTemplate('{prefix}/{path}/{voice}.mp3')).toEqual([
+      'Key template "{prefix}/{path}/{voice}.mp3" must include {ext} so audio and transcripts get separate keys',
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { extractCleanText } from '../src/core/extractor.js';
+import { parseSpeechMarker } from '../src/core/speech-markers.js';
+
+describe('parseSpeechMarker', () => {
+  it.each([
+    ['/* speak-skip-start */', { type: 'skip-start' }],
+    [' /*speak-skip-end*/ ', { type: 'skip-end' }],
+    ['/* speak: Say   this\n instead. */', { type: 'text', text: 'Say this instead.' }],
+    ['/* speak-mintlify-hash: abc123 */', null],
+    ['/* a comment */', null],
+    ['props.speak', null],
+  ])('%s', (value, marker) => {
+    expect(parseSpeechMarker(value)).toEqual(marker);
+  });
+});
+
+describe('remarkSpeechMarkers', () => {
+  it('skips marked content inside components and paragraphs', async () => {
+    const page = [
+      '<Note>',
+      '  Shown. {/* speak-skip-start */}Hidden.{/* speak-skip-end */} Also shown.',
+      '',
+      '  {/* speak-skip-start */}',
+      '',
+      '  Hidden to the end of the note.',
+      '</Note>',
+      '',
+      'After.',
+    ].join('\n');
+
+    expect(await extractCleanText(page)).toBe('Note: Shown. Also shown.\n\nAfter.');
+  });
+
+  it('ignores end markers without a start', async () => {
+    expect(await extractCleanText('One.\n\n{/* speak-skip-end */}\n\nTwo.\n')).toBe('One.\n\nTwo.');
+  });
+
+  it('speaks Speak text instead of its content, or nothing without text', async () => {
+    expect(
+      await extractCleanText('Run <Speak text="npm install">`npm i`</Speak> now.\n\n<Speak>\n  Visual only.\n</Speak>\n')
+    ).toBe('Run npm install now.');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { extractCleanText } from '../src/core/extractor.js';
+import { DEFAULT_EXTRACTION_RULES, expandSymbols } from '../src/core/speech-rules.js';
+
+describe('expandSymbols', () => {
+  it.each([
+    ['--help', 'dash dash help'],
+    ['-v', 'dash v'],
+    ['speaker-config.yaml', 'speaker-config dot yaml'],
+    ['src/core/index.ts', 'src slash core slash index dot ts'],
+    ['MAX_CHARS=2000', 'MAX underscore CHARS equals 2000'],
+    ['npm run build.', 'npm run build.'],
+    ['fn(a, b)', 'fn a b'],
+  ])('%s → %s', (code, spoken) => {
+    expect(expandSymbols(code)).toBe(spoken);
+  });
+});
+
+describe('remarkSpeechRules', () => {
+  it('summarizes or skips code blocks', async () => {
+    const page = 'Before.\n\n```ts\nconst a = 1;\n```\n\n```\nplain\n```\n\nAfter.\n';
+
+    expect(await extractCleanText(page)).toBe(
+      'Before.\n\nA TypeScript code example follows.\n\nA code example follows.\n\nAfter.'
+    );
+    expect(
+      await extractCleanText(page, { ...DEFAULT_EXTRACTION_RULES, codeBlocks: 'skip' })
+    ).toBe('Before.\n\nAfter.');
+  });
+
+  it('reads tables row by row with headers, or drops them', async () => {
+    const page = '| Name | Value |\n| --- | --- |\n| a | 1 |\n| b | 2 |\n';
+
+    expect(await extractCleanText(page)).toBe('Name: a; Value: 1.\n\nName: b; Value: 2.');
+    expect(await extractCleanText(page, { ...DEFAULT_EXTRACTION_RULES, tables: 'skip' })).toBe('');
+  });
+
+  it('numbers ordered lists from their start', async () => {
+    expect(await extractCleanText('3. Three\n4. Four\n')).toBe('3. Three\n\n4. Four');
+    expect(
+      await extractCleanText('1. One\n', { ...DEFAULT_EXTRACTION_RULES, orderedLists: 'plain' })
+    ).toBe('One');
+  });
+
+  it('keeps inline code as-is with the plain rule', async () => {
+    expect(
+      await extractCleanText('Run `--help`.', { ...DEFAULT_EXTRACTION_RULES, inlineCode: 'plain' })
+    ).toBe('Run --help.');
+  });
+
+  it('numbers steps and substitutes titles in lead-ins', async () => {
+    const page = [
+      '<Steps>',
+      '  <Step title="Install">',
+      '    Run it.',
+      '  </Step>',
+      '  <Step>',
+      '    Configure it.',
+      '  </Step>',
+      '  <Step title="Deploy">',
+      '    Ship it.',
+      '  </Step>',
+      '</Steps>',
+    ].join('\n');
+
+    expect(await extractCleanText(page)).toBe(
+      'Step 1: Install.\n\nRun it.\n\nStep 2.\n\nConfigure it.\n\nStep 3: Deploy.\n\nShip it.'
+    );
+  });
+
+  it('applies custom lead-ins and drops components set to false', async () => {
+    const rules = {
+      ...DEFAULT_EXTRACTION_RULES,
+      components: { ...DEFAULT_EXTRACTION_RULES.components, Note: false as const, Card: 'See {title}.' },
+    };
+    const page = '<Note>\n  Hidden.\n</Note>\n\n<Card title="Quickstart">\n  Start here.\n</Card>\n\n<Chart />\n';
+
+    expect(await extractCleanText(page, rules)).toBe('See Quickstart.\n\nStart here.');
+  });
+
+  it('reads inline components with their lead-in', async () => {
+    expect(await extractCleanText('Remember <Tooltip tip="x">this</Tooltip> and <Note>that</Note>.')).toBe(
+      'Remember and Note: that.'
+    );
+  });
+});
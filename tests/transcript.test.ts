@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildTranscriptCues, formatWebVTT } from '../src/core/transcript.js';
+
+describe('buildTranscriptCues', () => {
+  it('shares each chunk duration between its sentences by length', () => {
+    const cues = buildTranscriptCues([
+      { text: 'One two. Three four five six.', duration: 3 },
+      { text: 'Next chunk.', duration: 2 },
+    ]);
+
+    expect(cues.map((cue) => cue.text)).toEqual(['One two.', 'Three four five six.', 'Next chunk.']);
+    expect(cues[0]!.start).toBe(0);
+    expect(cues[0]!.end).toBeCloseTo(3 * (8 / 28));
+    expect(cues[1]!.end).toBe(3);
+    expect(cues[2]).toEqual({ start: 3, end: 5, text: 'Next chunk.' });
+  });
+
+  it('splits packed paragraphs and collapses line breaks', () => {
+    const cues = buildTranscriptCues([{ text: 'First\nline.\n\nSecond paragraph', duration: 1 }]);
+
+    expect(cues.map((cue) => cue.text)).toEqual(['First line.', 'Second paragraph']);
+  });
+});
+
+describe('formatWebVTT', () => {
+  it('writes numbered cues with HH:MM:SS.mmm timestamps', () => {
+    const vtt = formatWebVTT([
+      { start: 0, end: 1.5, text: 'Hello there.' },
+      { start: 1.5, end: 3725.25, text: 'a --> b' },
+    ]);
+
+    expect(vtt).toBe(
+      'WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\nHello there.\n\n' +
+        '2\n00:00:01.500 --> 01:02:05.250\na → b\n'
+    );
+  });
+});
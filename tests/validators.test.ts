@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveConfig } from '../src/core/config.js';
+import { ConfigError } from '../src/core/errors.js';
+import { validateGenerateConfig } from '../src/core/validators.js';
+import { FIXTURES_DIR } from './helpers/fixtures.js';
+
+const options = {
+  provider: 'openai',
+  voices: 'alloy',
+  voiceNames: 'Alloy',
+  s3Bucket: 'docs',
+  s3Region: 'us-east-1',
+  s3AccessKeyId: 'test',
+  s3SecretAccessKey: 'test',
+  s3PublicUrl: 'https://cdn.test',
+};
+
+beforeEach(() => {
+  vi.stubEnv('OPENAI_API_KEY', '');
+  vi.stubEnv('OPENAI_BASE_URL', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('validateGenerateConfig', () => {
+  it('requires an OpenAI API key for the public endpoint', async () => {
+    const config = await resolveConfig(options, FIXTURES_DIR);
+
+    expect(() => validateGenerateConfig(config)).toThrow(ConfigError);
+    expect(() => validateGenerateConfig(config)).toThrow(/OPENAI_API_KEY/);
+    expect(() => validateGenerateConfig({ ...config, openaiApiKey: 'sk-test' })).not.toThrow();
+  });
+
+  it('accepts a self-hosted OpenAI-compatible endpoint without a key', async () => {
+    const config = await resolveConfig({ ...options, openaiBaseUrl: 'http://localhost:8880/v1' }, FIXTURES_DIR);
+
+    expect(() => validateGenerateConfig(config)).not.toThrow();
+  });
+});
@@ -0,0 +1,143 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkCommand } from '../src/commands/check.js';
+import { generateCommand } from '../src/commands/generate.js';
+import { verifyCommand } from '../src/commands/verify.js';
+import { EXIT_CODES } from '../src/core/errors.js';
+import { getWebVTTEnd } from '../src/core/transcript.js';
+import { startFakeS3, type FakeS3Server } from './helpers/fake-s3.js';
+import { startFakeTTS, type FakeTTSServer } from './helpers/fake-tts.js';
+import { createDocsDir } from './helpers/fixtures.js';
+import { BUCKET, generateOptions, quietCommands, s3Options } from './helpers/cli.js';
+
+let s3: FakeS3Server;
+let tts: FakeTTSServer;
+let directory: string;
+
+beforeAll(async () => {
+  [s3, tts] = await Promise.all([startFakeS3(), startFakeTTS()]);
+});
+
+afterAll(async () => {
+  await Promise.all([s3.close(), tts.close()]);
+});
+
+beforeEach(async () => {
+  s3.objects.clear();
+  directory = await createDocsDir();
+  quietCommands();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+const basicAudio = 'audio/basic/alloy.mp3';
+
+describe('verifyCommand', () => {
+  beforeEach(async () => {
+    await generateCommand(directory, { ...generateOptions(s3, tts), pattern: 'basic.mdx' });
+  });
+
+  it('passes when every referenced object is present', async () => {
+    const result = await verifyCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx', deep: true });
+
+    expect(result).toMatchObject({ exitCode: EXIT_CODES.success, broken: [], markedStale: [] });
+    expect(result.checked).toBe(s3.keys(BUCKET).length);
+  });
+
+  it('reports missing, empty and mistyped objects', async () => {
+    const keys = s3.keys(BUCKET);
+    expect(keys).toContain(basicAudio);
+    const [transcript, other] = keys.filter((key) => key !== basicAudio);
+    s3.objects.delete(`${BUCKET}/${basicAudio}`);
+    s3.put(BUCKET, transcript!, { body: Buffer.alloc(0), contentType: 'text/vtt' });
+    s3.put(BUCKET, other!, { ...s3.get(BUCKET, other!)!, contentType: 'application/octet-stream' });
+
+    const result = await verifyCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx' });
+
+    expect(result.exitCode).toBe(EXIT_CODES.failed);
+    expect(result.broken).toHaveLength(3);
+    expect(result.broken.find((object) => object.key === basicAudio)).toEqual({
+      file: 'basic.mdx',
+      voiceId: 'alloy',
+      key: basicAudio,
+      problem: 'missing',
+    });
+    expect(result.broken.find((object) => object.key === transcript)?.problem).toBe('empty');
+    expect(result.broken.find((object) => object.key === other)?.problem).toMatch(
+      /^content type application\/octet-stream, expected /
+    );
+  });
+
+  it('catches truncated audio only in deep mode', async () => {
+    // Cut off mid-frame, as an interrupted upload would
+    const audio = s3.get(BUCKET, basicAudio)!;
+    s3.put(BUCKET, basicAudio, { ...audio, body: audio.body.subarray(0, audio.body.length - 100) });
+
+    const shallow = await verifyCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx' });
+    expect(shallow.exitCode).toBe(EXIT_CODES.success);
+
+    const deep = await verifyCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx', deep: true });
+    expect(deep.exitCode).toBe(EXIT_CODES.failed);
+    expect(deep.broken).toEqual([
+      expect.objectContaining({ key: basicAudio, problem: expect.stringMatching(/^truncated: /) }),
+    ]);
+  });
+
+  it('marks pages with broken audio for regeneration', async () => {
+    s3.objects.delete(`${BUCKET}/${basicAudio}`);
+
+    const result = await verifyCommand(directory, { ...s3Options(s3), pattern: 'basic.mdx', markStale: true });
+
+    expect(result.markedStale).toEqual(['basic.mdx']);
+    const page = await fs.readFile(path.join(directory, 'basic.mdx'), 'utf-8');
+    expect(page).toContain('<AudioTranscript');
+    expect(page).not.toContain('speak-mintlify-hash');
+
+    const check = await checkCommand(directory, {
+      provider: 'openai',
+      voices: 'alloy,echo',
+      voiceNames: 'Alloy,Echo',
+      pattern: 'basic.mdx',
+    });
+    expect(check.outdated).toEqual([
+      { file: 'basic.mdx', change: 'stale', message: 'no speak-mintlify-hash recorded' },
+    ]);
+  });
+
+  it('returns a config error for invalid settings', async () => {
+    const result = await verifyCommand(directory, { ...s3Options(s3), output: 'nope' });
+
+    expect(result.exitCode).toBe(EXIT_CODES.configError);
+  });
+});
+
+describe('verifyCommand in manifest mode', () => {
+  it('checks the manifest and marks its entries for regeneration', async () => {
+    const options = { ...s3Options(s3), output: 'manifest', pattern: 'basic.mdx' };
+    await generateCommand(directory, { ...generateOptions(s3, tts), ...options });
+
+    const passing = await verifyCommand(directory, options);
+    expect(passing.exitCode).toBe(EXIT_CODES.success);
+    expect(passing.checked).toBe(s3.keys(BUCKET).length);
+
+    s3.objects.delete(`${BUCKET}/${basicAudio}`);
+    const result = await verifyCommand(directory, { ...options, markStale: true });
+
+    expect(result.broken.map((object) => object.key)).toEqual([basicAudio]);
+    const manifest = JSON.parse(await fs.readFile(path.join(directory, '.audio-metadata.json'), 'utf-8'));
+    expect(manifest['basic.mdx'].hash).toBe('');
+  });
+});
+
+describe('getWebVTTEnd', () => {
+  it('returns the latest cue end', () => {
+    const vtt = 'WEBVTT\n\n1\n00:00.000 --> 00:02.500\nHello\n\n2\n01:00:01.250 --> 01:00:03.000\nWorld\n';
+
+    expect(getWebVTTEnd(vtt)).toBe(3603);
+    expect(getWebVTTEnd('WEBVTT\n')).toBe(0);
+  });
+});